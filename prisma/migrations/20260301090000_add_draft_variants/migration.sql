@@ -0,0 +1,69 @@
+-- CreateTable
+CREATE TABLE "DraftVariant" (
+    "id" TEXT NOT NULL,
+    "draftId" TEXT NOT NULL,
+    "modelId" TEXT NOT NULL,
+    "provider" TEXT NOT NULL,
+    "model" TEXT NOT NULL,
+    "text" TEXT,
+    "error" TEXT,
+    "latencyMs" INTEGER,
+    "promptTokens" INTEGER,
+    "completionTokens" INTEGER,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "DraftVariant_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "DraftVariant_draftId_idx" ON "DraftVariant"("draftId");
+
+-- AddForeignKey
+ALTER TABLE "DraftVariant" ADD CONSTRAINT "DraftVariant_draftId_fkey" FOREIGN KEY ("draftId") REFERENCES "Draft"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AlterTable
+ALTER TABLE "Draft" ADD COLUMN     "selectedVariantId" TEXT;
+
+-- Migrate per-model columns into variants. Legacy error strings
+-- ("[Model error: message]") are moved into the error column.
+INSERT INTO "DraftVariant" ("id", "draftId", "modelId", "provider", "model", "text", "error", "createdAt")
+SELECT
+    md5(random()::text || clock_timestamp()::text),
+    d."id",
+    v."modelId",
+    v."provider",
+    v."model",
+    CASE WHEN v."text" ~ '^\[[A-Za-z0-9 .-]+ error: .*\]$' THEN NULL ELSE v."text" END,
+    CASE WHEN v."text" ~ '^\[[A-Za-z0-9 .-]+ error: .*\]$' THEN regexp_replace(v."text", '^\[[A-Za-z0-9 .-]+ error: (.*)\]$', '\1') ELSE NULL END,
+    d."createdAt"
+FROM "Draft" d
+CROSS JOIN LATERAL (
+    VALUES
+        ('openrouter-1', 'openrouter', 'openai/gpt-oss-120b', d."openaiText"),
+        ('openrouter-2', 'openrouter', 'google/gemma-3-27b-it:free', d."geminiText"),
+        ('openrouter-3', 'openrouter', 'zhipu-ai/glm-z1-air:free', d."claudeText"),
+        ('gemini', 'gemini', 'gemini-2.0-flash', d."geminiDirectText"),
+        ('groq', 'groq', 'llama-3.3-70b-versatile', d."groqText")
+) AS v("modelId", "provider", "model", "text")
+WHERE v."text" IS NOT NULL;
+
+-- Point selections at the migrated variant (legacy keys and registry ids)
+UPDATE "Draft" d
+SET "selectedVariantId" = v."id"
+FROM "DraftVariant" v
+WHERE v."draftId" = d."id"
+  AND v."modelId" = CASE d."selectedModel"
+        WHEN 'openai' THEN 'openrouter-1'
+        WHEN 'gemini' THEN 'openrouter-2'
+        WHEN 'claude' THEN 'openrouter-3'
+        WHEN 'geminiDirect' THEN 'gemini'
+        ELSE d."selectedModel"
+      END;
+
+-- AlterTable
+ALTER TABLE "Draft" DROP COLUMN "claudeText",
+DROP COLUMN "geminiDirectText",
+DROP COLUMN "geminiText",
+DROP COLUMN "groqText",
+DROP COLUMN "openaiText",
+DROP COLUMN "selectedModel";
@@ -0,0 +1,22 @@
+-- AlterTable
+ALTER TABLE "Draft" ADD COLUMN     "voiceProfileId" TEXT;
+
+-- CreateTable
+CREATE TABLE "VoiceProfile" (
+    "id" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "tone" TEXT,
+    "audience" TEXT,
+    "doRules" TEXT[],
+    "dontRules" TEXT[],
+    "examplePosts" TEXT[],
+    "hashtagPolicy" TEXT NOT NULL DEFAULT 'none',
+    "systemPrompt" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "VoiceProfile_pkey" PRIMARY KEY ("id")
+);
+
+-- AddForeignKey
+ALTER TABLE "Draft" ADD CONSTRAINT "Draft_voiceProfileId_fkey" FOREIGN KEY ("voiceProfileId") REFERENCES "VoiceProfile"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,9 @@
+-- AlterTable
+ALTER TABLE "DraftVariant" ADD COLUMN     "instruction" TEXT,
+ADD COLUMN     "parentId" TEXT;
+
+-- CreateIndex
+CREATE INDEX "DraftVariant_parentId_idx" ON "DraftVariant"("parentId");
+
+-- AddForeignKey
+ALTER TABLE "DraftVariant" ADD CONSTRAINT "DraftVariant_parentId_fkey" FOREIGN KEY ("parentId") REFERENCES "DraftVariant"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,3 @@
+-- AlterTable
+ALTER TABLE "DraftVariant" ADD COLUMN     "score" DOUBLE PRECISION,
+ADD COLUMN     "scoreDetails" JSONB;
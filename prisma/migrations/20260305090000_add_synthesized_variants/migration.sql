@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "DraftVariant" ADD COLUMN     "sourceVariantIds" TEXT[] DEFAULT ARRAY[]::TEXT[];
@@ -0,0 +1,3 @@
+-- AlterTable
+ALTER TABLE "DraftVariant" ADD COLUMN     "attempts" INTEGER NOT NULL DEFAULT 1,
+ADD COLUMN     "errorStatus" INTEGER;
@@ -0,0 +1,30 @@
+-- AlterTable
+ALTER TABLE "DraftVariant" ADD COLUMN     "costUsd" DOUBLE PRECISION;
+
+-- CreateTable
+CREATE TABLE "ProviderCall" (
+    "id" TEXT NOT NULL,
+    "purpose" TEXT NOT NULL,
+    "draftId" TEXT,
+    "modelId" TEXT NOT NULL,
+    "provider" TEXT NOT NULL,
+    "model" TEXT NOT NULL,
+    "promptTokens" INTEGER,
+    "completionTokens" INTEGER,
+    "latencyMs" INTEGER NOT NULL,
+    "costUsd" DOUBLE PRECISION,
+    "error" TEXT,
+    "attempts" INTEGER NOT NULL DEFAULT 1,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "ProviderCall_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "ProviderCall_createdAt_idx" ON "ProviderCall"("createdAt");
+
+-- CreateIndex
+CREATE INDEX "ProviderCall_modelId_idx" ON "ProviderCall"("modelId");
+
+-- AddForeignKey
+ALTER TABLE "ProviderCall" ADD CONSTRAINT "ProviderCall_draftId_fkey" FOREIGN KEY ("draftId") REFERENCES "Draft"("id") ON DELETE SET NULL ON UPDATE CASCADE;
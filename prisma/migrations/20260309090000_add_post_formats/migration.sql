@@ -0,0 +1,6 @@
+-- AlterTable
+ALTER TABLE "Draft" ADD COLUMN     "format" TEXT NOT NULL DEFAULT 'post';
+
+-- AlterTable
+ALTER TABLE "DraftVariant" ADD COLUMN     "format" TEXT NOT NULL DEFAULT 'post',
+ADD COLUMN     "structured" JSONB;
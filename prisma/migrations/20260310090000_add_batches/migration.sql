@@ -0,0 +1,39 @@
+-- AlterTable
+ALTER TABLE "Draft" ADD COLUMN     "targetDate" TIMESTAMP(3);
+
+-- CreateTable
+CREATE TABLE "Batch" (
+    "id" TEXT NOT NULL,
+    "name" TEXT,
+    "settings" JSONB NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "Batch_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "BatchRow" (
+    "id" TEXT NOT NULL,
+    "batchId" TEXT NOT NULL,
+    "position" INTEGER NOT NULL,
+    "topic" TEXT NOT NULL,
+    "voiceProfileId" TEXT,
+    "format" TEXT NOT NULL DEFAULT 'post',
+    "targetDate" TIMESTAMP(3),
+    "status" TEXT NOT NULL DEFAULT 'queued',
+    "draftId" TEXT,
+    "error" TEXT,
+    "startedAt" TIMESTAMP(3),
+    "finishedAt" TIMESTAMP(3),
+
+    CONSTRAINT "BatchRow_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "BatchRow_batchId_status_idx" ON "BatchRow"("batchId", "status");
+
+-- AddForeignKey
+ALTER TABLE "BatchRow" ADD CONSTRAINT "BatchRow_batchId_fkey" FOREIGN KEY ("batchId") REFERENCES "Batch"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "BatchRow" ADD CONSTRAINT "BatchRow_draftId_fkey" FOREIGN KEY ("draftId") REFERENCES "Draft"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,28 @@
+-- AlterTable
+ALTER TABLE "Draft" ADD COLUMN     "campaignId" TEXT,
+ADD COLUMN     "campaignPosition" INTEGER;
+
+-- CreateTable
+CREATE TABLE "Campaign" (
+    "id" TEXT NOT NULL,
+    "theme" TEXT NOT NULL,
+    "brief" TEXT,
+    "postCount" INTEGER NOT NULL,
+    "cadence" TEXT NOT NULL,
+    "startDate" TIMESTAMP(3) NOT NULL,
+    "voiceProfileId" TEXT,
+    "format" TEXT NOT NULL DEFAULT 'post',
+    "settings" JSONB NOT NULL,
+    "outline" JSONB NOT NULL,
+    "status" TEXT NOT NULL DEFAULT 'outlined',
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "Campaign_pkey" PRIMARY KEY ("id")
+);
+
+-- AddForeignKey
+ALTER TABLE "Draft" ADD CONSTRAINT "Draft_campaignId_fkey" FOREIGN KEY ("campaignId") REFERENCES "Campaign"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "Campaign" ADD CONSTRAINT "Campaign_voiceProfileId_fkey" FOREIGN KEY ("voiceProfileId") REFERENCES "VoiceProfile"("id") ON DELETE SET NULL ON UPDATE CASCADE;
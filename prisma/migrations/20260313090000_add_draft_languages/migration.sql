@@ -0,0 +1,6 @@
+-- AlterTable
+ALTER TABLE "Draft" ADD COLUMN     "language" TEXT NOT NULL DEFAULT 'en',
+ADD COLUMN     "translatedFromId" TEXT;
+
+-- AddForeignKey
+ALTER TABLE "Draft" ADD CONSTRAINT "Draft_translatedFromId_fkey" FOREIGN KEY ("translatedFromId") REFERENCES "Draft"("id") ON DELETE SET NULL ON UPDATE CASCADE;
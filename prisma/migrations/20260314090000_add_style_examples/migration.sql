@@ -0,0 +1,3 @@
+-- AlterTable
+ALTER TABLE "Draft" ADD COLUMN     "exampleDraftIds" TEXT[] DEFAULT ARRAY[]::TEXT[],
+ADD COLUMN     "styleExample" TEXT NOT NULL DEFAULT 'auto';
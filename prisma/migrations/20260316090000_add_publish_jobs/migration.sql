@@ -0,0 +1,29 @@
+-- CreateTable
+CREATE TABLE "PublishJob" (
+    "id" TEXT NOT NULL,
+    "draftId" TEXT NOT NULL,
+    "variantId" TEXT NOT NULL,
+    "text" TEXT NOT NULL,
+    "imageUrl" TEXT,
+    "scheduledAt" TIMESTAMP(3) NOT NULL,
+    "status" TEXT NOT NULL DEFAULT 'scheduled',
+    "attempts" INTEGER NOT NULL DEFAULT 0,
+    "lastError" TEXT,
+    "lockedAt" TIMESTAMP(3),
+    "lockedBy" TEXT,
+    "linkedinPostId" TEXT,
+    "publishedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "PublishJob_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "PublishJob_status_scheduledAt_idx" ON "PublishJob"("status", "scheduledAt");
+
+-- CreateIndex
+CREATE INDEX "PublishJob_draftId_idx" ON "PublishJob"("draftId");
+
+-- AddForeignKey
+ALTER TABLE "PublishJob" ADD CONSTRAINT "PublishJob_draftId_fkey" FOREIGN KEY ("draftId") REFERENCES "Draft"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,14 @@
+-- CreateTable
+CREATE TABLE "LinkedInToken" (
+    "id" TEXT NOT NULL DEFAULT 'singleton',
+    "accessToken" TEXT NOT NULL,
+    "refreshToken" TEXT,
+    "expiresAt" TIMESTAMP(3),
+    "refreshExpiresAt" TIMESTAMP(3),
+    "scope" TEXT,
+    "memberUrn" TEXT NOT NULL,
+    "name" TEXT,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "LinkedInToken_pkey" PRIMARY KEY ("id")
+);
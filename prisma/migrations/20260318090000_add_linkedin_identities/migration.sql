@@ -0,0 +1,51 @@
+-- AlterTable
+ALTER TABLE "LinkedInToken" ALTER COLUMN "id" DROP DEFAULT;
+
+-- AlterTable
+ALTER TABLE "PublishJob" ADD COLUMN     "targetUrns" TEXT[] DEFAULT ARRAY[]::TEXT[];
+
+-- CreateTable
+CREATE TABLE "LinkedInIdentity" (
+    "id" TEXT NOT NULL,
+    "urn" TEXT NOT NULL,
+    "kind" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "tokenId" TEXT NOT NULL,
+    "isDefault" BOOLEAN NOT NULL DEFAULT false,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "LinkedInIdentity_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "Publication" (
+    "id" TEXT NOT NULL,
+    "draftId" TEXT NOT NULL,
+    "targetUrn" TEXT NOT NULL,
+    "targetName" TEXT NOT NULL,
+    "linkedinPostId" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "Publication_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "LinkedInToken_memberUrn_key" ON "LinkedInToken"("memberUrn");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "LinkedInIdentity_urn_key" ON "LinkedInIdentity"("urn");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Publication_draftId_targetUrn_key" ON "Publication"("draftId", "targetUrn");
+
+-- AddForeignKey
+ALTER TABLE "LinkedInIdentity" ADD CONSTRAINT "LinkedInIdentity_tokenId_fkey" FOREIGN KEY ("tokenId") REFERENCES "LinkedInToken"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "Publication" ADD CONSTRAINT "Publication_draftId_fkey" FOREIGN KEY ("draftId") REFERENCES "Draft"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- Keep an already connected member as the default publish target
+INSERT INTO "LinkedInIdentity" ("id", "urn", "kind", "name", "tokenId", "isDefault", "updatedAt")
+SELECT 'migrated-' || "id", "memberUrn", 'person', COALESCE("name", "memberUrn"), "id", true, CURRENT_TIMESTAMP
+FROM "LinkedInToken";
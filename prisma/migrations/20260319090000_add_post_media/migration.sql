@@ -0,0 +1,15 @@
+-- AlterTable
+ALTER TABLE "Draft" ADD COLUMN     "media" JSONB;
+
+-- AlterTable
+ALTER TABLE "PublishJob" ADD COLUMN     "media" JSONB;
+
+-- Carry single images over as one-image media
+UPDATE "Draft" SET "media" = jsonb_build_object('kind', 'image', 'urls', jsonb_build_array("imageUrl")) WHERE "imageUrl" IS NOT NULL;
+UPDATE "PublishJob" SET "media" = jsonb_build_object('kind', 'image', 'urls', jsonb_build_array("imageUrl")) WHERE "imageUrl" IS NOT NULL;
+
+-- AlterTable
+ALTER TABLE "Draft" DROP COLUMN "imageUrl";
+
+-- AlterTable
+ALTER TABLE "PublishJob" DROP COLUMN "imageUrl";
@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "PublishJob" ADD COLUMN     "emphasis" TEXT NOT NULL DEFAULT 'strip';
@@ -0,0 +1,14 @@
+-- Record drafts published before per-account tracking as posted by the migrated member,
+-- so publishing them again skips that account instead of posting a duplicate
+INSERT INTO "Publication" ("id", "draftId", "targetUrn", "targetName", "linkedinPostId")
+SELECT 'migrated-' || d."id", d."id", i."urn", i."name", d."linkedinPostId"
+FROM "Draft" d
+CROSS JOIN (
+    SELECT "urn", "name" FROM "LinkedInIdentity"
+    WHERE "id" LIKE 'migrated-%'
+    ORDER BY "createdAt"
+    LIMIT 1
+) i
+WHERE d."published" = true
+  AND d."linkedinPostId" IS NOT NULL
+  AND NOT EXISTS (SELECT 1 FROM "Publication" p WHERE p."draftId" = d."id");
@@ -0,0 +1,59 @@
+import { after, NextResponse } from "next/server";
+import { processBatch, requeueBatch } from "@/lib/batches";
+import { prisma } from "@/lib/prisma";
+import { clientIp } from "@/lib/rate-limit";
+
+/** Resumes for one claim window; the cron worker takes the rest */
+export const maxDuration = 300;
+
+type Params = { params: Promise<{ id: string }> };
+
+/**
+ * GET /api/batches/:id
+ * The batch with every row's status, error and resulting draft id.
+ */
+export async function GET(_req: Request, { params }: Params) {
+  try {
+    const { id } = await params;
+    const batch = await prisma.batch.findUnique({
+      where: { id },
+      include: { rows: { orderBy: { position: "asc" } } },
+    });
+    if (!batch) {
+      return NextResponse.json({ error: "Batch not found" }, { status: 404 });
+    }
+    return NextResponse.json(batch);
+  } catch (err) {
+    console.error("[batches] Error:", err);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/batches/:id
+ * Re-queues failed (and orphaned) rows and resumes processing.
+ */
+export async function POST(req: Request, { params }: Params) {
+  try {
+    const { id } = await params;
+    const batch = await prisma.batch.findUnique({ where: { id } });
+    if (!batch) {
+      return NextResponse.json({ error: "Batch not found" }, { status: 404 });
+    }
+
+    const requeued = await requeueBatch(id);
+    const ip = clientIp(req);
+    after(() => processBatch(id, ip));
+
+    return NextResponse.json({ requeued }, { status: 202 });
+  } catch (err) {
+    console.error("[batches] Error:", err);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
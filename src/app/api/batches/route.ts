@@ -0,0 +1,134 @@
+import { after, NextResponse } from "next/server";
+import { z } from "zod";
+import { csvRecords, MAX_BATCH_ROWS, parseBatchRecords, processBatch } from "@/lib/batches";
+import { generationSettingsSchema } from "@/lib/generation";
+import { prisma } from "@/lib/prisma";
+import { clientIp, rateLimit } from "@/lib/rate-limit";
+
+/** The first rows generate right after the import; the cron worker takes the rest */
+export const maxDuration = 300;
+
+const bodySchema = z
+  .object({
+    name: z.string().trim().max(200).optional(),
+    /** Spreadsheet export with a header row (topic, voice, format, target date) */
+    csv: z.string().min(1).max(1_000_000).optional(),
+    /** Same columns as JSON objects, or plain topic strings */
+    rows: z.array(z.unknown()).min(1).max(MAX_BATCH_ROWS).optional(),
+    /** Applied to every row — same options as /api/generate */
+    settings: generationSettingsSchema.optional(),
+  })
+  .refine((b) => !!b.csv !== !!b.rows, { message: "Provide either csv or rows" });
+
+/**
+ * GET /api/batches
+ * Recent batches with per-status row counts.
+ */
+export async function GET() {
+  try {
+    const batches = await prisma.batch.findMany({
+      orderBy: { createdAt: "desc" },
+      take: 20,
+      include: { rows: { select: { status: true } } },
+    });
+    return NextResponse.json(
+      batches.map(({ rows, ...batch }) => ({
+        ...batch,
+        total: rows.length,
+        counts: rows.reduce<Record<string, number>>((acc, r) => {
+          acc[r.status] = (acc[r.status] ?? 0) + 1;
+          return acc;
+        }, {}),
+      }))
+    );
+  } catch (err) {
+    console.error("[batches] Error:", err);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/batches
+ * Imports a topic list and starts generating it in the background;
+ * /api/cron/publish carries on with rows this run doesn't reach.
+ * Voice columns may hold a voice profile id or name. Poll
+ * GET /api/batches/:id for per-row progress and draft ids.
+ */
+export async function POST(req: Request) {
+  try {
+    const ip = clientIp(req);
+    const { allowed } = rateLimit(ip);
+    if (!allowed) {
+      return NextResponse.json(
+        { error: "Rate limit exceeded. Try again in 1 minute." },
+        { status: 429 }
+      );
+    }
+
+    const body = await req.json();
+    const parsed = bodySchema.safeParse(body);
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: "Invalid payload", details: parsed.error.flatten() },
+        { status: 400 }
+      );
+    }
+    const { name, csv, rows, settings } = parsed.data;
+
+    const imported = parseBatchRecords(csv ? csvRecords(csv) : rows ?? []);
+    if (!imported.ok) {
+      return NextResponse.json({ error: imported.error }, { status: 400 });
+    }
+
+    /* ── Resolve voice columns (id or case-insensitive name) ── */
+    const voices = await prisma.voiceProfile.findMany({ select: { id: true, name: true } });
+    const voiceIds: (string | null)[] = [];
+    for (const [i, row] of imported.rows.entries()) {
+      if (!row.voice) {
+        voiceIds.push(null);
+        continue;
+      }
+      const wanted = row.voice.toLowerCase();
+      const voice = voices.find((v) => v.id === row.voice || v.name.toLowerCase() === wanted);
+      if (!voice) {
+        return NextResponse.json(
+          { error: `Row ${i + 1}: voice profile "${row.voice}" not found` },
+          { status: 404 }
+        );
+      }
+      voiceIds.push(voice.id);
+    }
+
+    const batch = await prisma.batch.create({
+      data: {
+        name: name || null,
+        settings: generationSettingsSchema.parse(settings ?? {}),
+        rows: {
+          create: imported.rows.map((row, i) => ({
+            position: i,
+            topic: row.topic,
+            voiceProfileId: voiceIds[i],
+            format: row.format,
+            targetDate: row.targetDate ?? null,
+          })),
+        },
+      },
+    });
+
+    after(() => processBatch(batch.id, ip));
+
+    return NextResponse.json(
+      { id: batch.id, total: imported.rows.length },
+      { status: 202 }
+    );
+  } catch (err) {
+    console.error("[batches] Error:", err);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,39 @@
+import { after, NextResponse } from "next/server";
+import { claimCampaign, generateCampaignDrafts } from "@/lib/campaigns";
+import { prisma } from "@/lib/prisma";
+import { clientIp } from "@/lib/rate-limit";
+
+type Params = { params: Promise<{ id: string }> };
+
+/**
+ * POST /api/campaigns/:id/generate
+ * Drafts the campaign's posts in the background, in series order. Calling
+ * it again after a failure fills in only the slots without a draft. Poll
+ * GET /api/campaigns/:id for progress.
+ */
+export async function POST(req: Request, { params }: Params) {
+  try {
+    const { id } = await params;
+    const campaign = await prisma.campaign.findUnique({ where: { id } });
+    if (!campaign) {
+      return NextResponse.json({ error: "Campaign not found" }, { status: 404 });
+    }
+
+    // Claim the campaign so a double click doesn't draft every post twice
+    const claimedAt = await claimCampaign(id);
+    if (!claimedAt) {
+      return NextResponse.json({ error: "Campaign is already generating" }, { status: 409 });
+    }
+
+    const ip = clientIp(req);
+    after(() => generateCampaignDrafts(id, ip, claimedAt));
+
+    return NextResponse.json({ status: "generating" }, { status: 202 });
+  } catch (err) {
+    console.error("[campaigns] Error:", err);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
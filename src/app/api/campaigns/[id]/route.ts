@@ -0,0 +1,105 @@
+import { NextResponse } from "next/server";
+import { z } from "zod";
+import {
+  campaignOutlineSchema,
+  scheduleDates,
+  type Cadence,
+} from "@/lib/campaigns";
+import { prisma } from "@/lib/prisma";
+import { serializeVariant, variantOrderBy } from "@/lib/variants";
+
+type Params = { params: Promise<{ id: string }> };
+
+const patchSchema = z.object({ outline: campaignOutlineSchema });
+
+/**
+ * GET /api/campaigns/:id
+ * The campaign as a group: one slot per outline post with its scheduled
+ * date and latest draft (variants included), in series order.
+ */
+export async function GET(_req: Request, { params }: Params) {
+  try {
+    const { id } = await params;
+    const campaign = await prisma.campaign.findUnique({
+      where: { id },
+      include: {
+        voiceProfile: { select: { id: true, name: true } },
+        drafts: {
+          orderBy: { createdAt: "desc" },
+          include: { variants: { orderBy: variantOrderBy } },
+        },
+      },
+    });
+    if (!campaign) {
+      return NextResponse.json({ error: "Campaign not found" }, { status: 404 });
+    }
+
+    const { drafts, ...rest } = campaign;
+    const { posts } = campaignOutlineSchema.parse(campaign.outline);
+    const dates = scheduleDates(campaign.startDate, posts.length, campaign.cadence as Cadence);
+
+    return NextResponse.json({
+      ...rest,
+      slots: posts.map((post, position) => {
+        // Retries add drafts, so the newest one for a slot wins
+        const draft = drafts.find((d) => d.campaignPosition === position);
+        return {
+          position,
+          date: dates[position],
+          ...post,
+          draft: draft
+            ? { id: draft.id, createdAt: draft.createdAt, variants: draft.variants.map(serializeVariant) }
+            : null,
+        };
+      }),
+    });
+  } catch (err) {
+    console.error("[campaigns] Error:", err);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * PATCH /api/campaigns/:id
+ * Replaces the outline — only before any posts have been drafted.
+ */
+export async function PATCH(req: Request, { params }: Params) {
+  try {
+    const { id } = await params;
+    const body = await req.json();
+    const parsed = patchSchema.safeParse(body);
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: "Invalid payload", details: parsed.error.flatten() },
+        { status: 400 }
+      );
+    }
+    const { outline } = parsed.data;
+
+    const campaign = await prisma.campaign.findUnique({ where: { id } });
+    if (!campaign) {
+      return NextResponse.json({ error: "Campaign not found" }, { status: 404 });
+    }
+    if (campaign.status !== "outlined") {
+      return NextResponse.json(
+        { error: "The outline is locked once drafting has started" },
+        { status: 409 }
+      );
+    }
+
+    const updated = await prisma.campaign.update({
+      where: { id },
+      data: { outline, postCount: outline.posts.length },
+    });
+    return NextResponse.json(updated);
+  } catch (err) {
+    console.error("[campaigns] Error:", err);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,105 @@
+import { NextResponse } from "next/server";
+import { campaignSchema, outlineCampaign } from "@/lib/campaigns";
+import { generationSettingsSchema } from "@/lib/generation";
+import { prisma } from "@/lib/prisma";
+import { clientIp, rateLimit } from "@/lib/rate-limit";
+
+/**
+ * GET /api/campaigns
+ * Recent campaigns with how many of their posts have drafts.
+ */
+export async function GET() {
+  try {
+    const campaigns = await prisma.campaign.findMany({
+      orderBy: { createdAt: "desc" },
+      take: 20,
+      select: {
+        id: true,
+        theme: true,
+        postCount: true,
+        cadence: true,
+        startDate: true,
+        status: true,
+        createdAt: true,
+        _count: { select: { drafts: true } },
+      },
+    });
+    return NextResponse.json(
+      campaigns.map(({ _count, ...campaign }) => ({ ...campaign, drafted: _count.drafts }))
+    );
+  } catch (err) {
+    console.error("[campaigns] Error:", err);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/campaigns
+ * Plans a series: the planner model outlines one post per slot, which can
+ * be reviewed and edited before POST /api/campaigns/:id/generate drafts them.
+ */
+export async function POST(req: Request) {
+  try {
+    const { allowed } = rateLimit(clientIp(req));
+    if (!allowed) {
+      return NextResponse.json(
+        { error: "Rate limit exceeded. Try again in 1 minute." },
+        { status: 429 }
+      );
+    }
+
+    const body = await req.json();
+    const parsed = campaignSchema.safeParse(body);
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: "Invalid payload", details: parsed.error.flatten() },
+        { status: 400 }
+      );
+    }
+    const { theme, brief, postCount, cadence, startDate, voiceProfileId, format, settings } =
+      parsed.data;
+
+    const voice = voiceProfileId
+      ? await prisma.voiceProfile.findUnique({ where: { id: voiceProfileId } })
+      : null;
+    if (voiceProfileId && !voice) {
+      return NextResponse.json({ error: "Voice profile not found" }, { status: 404 });
+    }
+
+    let posts;
+    try {
+      posts = await outlineCampaign({ theme, brief, postCount, voice });
+    } catch (err) {
+      console.error("[campaigns] Outline failed:", err);
+      return NextResponse.json(
+        { error: err instanceof Error ? err.message : "Outline failed" },
+        { status: 502 }
+      );
+    }
+
+    const campaign = await prisma.campaign.create({
+      data: {
+        theme,
+        brief: brief || null,
+        postCount,
+        cadence,
+        startDate,
+        voiceProfileId: voice?.id ?? null,
+        format,
+        settings: generationSettingsSchema.parse(settings ?? {}),
+        outline: { posts },
+      },
+    });
+
+    return NextResponse.json(campaign, { status: 201 });
+  } catch (err) {
+    console.error("[campaigns] Error:", err);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
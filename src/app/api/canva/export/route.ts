@@ -4,12 +4,16 @@ import { prisma } from "@/lib/prisma";
 
 const bodySchema = z.object({
   designId: z.string().min(1),
+  /** png: one image per page · pdf: one multi-page document */
+  format: z.enum(["png", "pdf"]).default("png"),
 });
 
 /**
  * POST /api/canva/export
- * Exports a Canva design to PNG and polls until the job completes.
- * Returns { success: true, imageUrl: "https://..." }
+ * Exports a Canva design to PNG or PDF and polls until the job completes.
+ * Returns { success: true, format, urls: ["https://..."], exportedAt } —
+ * one PNG per page, or a single PDF. The links expire a day after
+ * `exportedAt`.
  */
 export async function POST(req: Request) {
   try {
@@ -38,13 +42,14 @@ export async function POST(req: Request) {
       "Content-Type": "application/json",
     };
 
-    // Create export job
+    // Create export job — timed from before it starts, so expiry is never overestimated
+    const exportedAt = new Date().toISOString();
     const exportRes = await fetch("https://api.canva.com/rest/v1/exports", {
       method: "POST",
       headers,
       body: JSON.stringify({
         design_id: parsed.data.designId,
-        format: { type: "png" },
+        format: { type: parsed.data.format },
       }),
     });
 
@@ -82,14 +87,11 @@ export async function POST(req: Request) {
       const job = statusData.job;
 
       if (job?.status === "success") {
-        // Extract URL from result — handle multiple possible formats
-        const imageUrl =
-          job.result?.urls?.[0] ??
-          job.urls?.[0] ??
-          null;
-
-        if (imageUrl) {
-          return NextResponse.json({ success: true, imageUrl });
+        // Extract URLs from result — handle multiple possible formats
+        const urls: string[] = job.result?.urls ?? job.urls ?? [];
+
+        if (urls.length > 0) {
+          return NextResponse.json({ success: true, format: parsed.data.format, urls, exportedAt });
         }
       }
 
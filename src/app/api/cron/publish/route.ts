@@ -0,0 +1,57 @@
+import { randomUUID } from "node:crypto";
+import { NextResponse } from "next/server";
+import { runBatchWorker } from "@/lib/batches";
+import { listLinkedInAccounts } from "@/lib/linkedin";
+import { publishEnabled, runPublishWorker } from "@/lib/publishing";
+
+/** A worker pass posts up to a batch of jobs, then generates batch rows */
+export const maxDuration = 300;
+
+/** Post the scheduled jobs that are due */
+async function publishDue() {
+  // Keeps LinkedIn tokens fresh even when nothing is due
+  await listLinkedInAccounts();
+  const summary = await runPublishWorker(`cron-${randomUUID()}`);
+  if (summary.claimed || summary.stale) console.log("[publish-worker]", summary);
+  return summary;
+}
+
+/**
+ * GET|POST /api/cron/publish
+ * Worker entrypoint for scheduled posts and queued batch rows — call it
+ * every minute from a cron (e.g. Vercel Cron). Outside the dashboard
+ * login; requires `Authorization: Bearer $CRON_SECRET`.
+ */
+async function handle(req: Request) {
+  const secret = process.env.CRON_SECRET;
+  if (!secret || req.headers.get("authorization") !== `Bearer ${secret}`) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  // Each worker fails on its own, so a publishing error doesn't hold up batches
+  const startedAt = Date.now();
+  let summary;
+  try {
+    summary = publishEnabled()
+      ? await publishDue()
+      : { skipped: true, reason: "Publishing is currently disabled." };
+  } catch (err) {
+    console.error("[publish-worker] Error:", err);
+    summary = { error: "Internal server error" };
+  }
+
+  let batches;
+  try {
+    // Batch rows get whatever is left of the same claim window
+    batches = await runBatchWorker(startedAt);
+    if (batches.requeued || batches.processed) console.log("[batch-worker]", batches);
+  } catch (err) {
+    console.error("[batch-worker] Error:", err);
+    batches = { error: "Internal server error" };
+  }
+
+  const ok = !("error" in summary) && !("error" in batches);
+  return NextResponse.json({ ...summary, batches }, { status: ok ? 200 : 500 });
+}
+
+export { handle as GET, handle as POST };
@@ -0,0 +1,150 @@
+import { NextResponse } from "next/server";
+import { z } from "zod";
+import { editableContent, type PostFormat } from "@/lib/formats";
+import { LANGUAGE_CODES, LANGUAGES, type Language } from "@/lib/languages";
+import { prisma } from "@/lib/prisma";
+import { buildTranslationMessages } from "@/lib/prompts";
+import { getModel, modelFromEnv, NO_MODELS_ERROR } from "@/lib/providers";
+import { clientIp, rateLimit } from "@/lib/rate-limit";
+import { recordCall } from "@/lib/usage";
+import { runVariant, serializeVariant } from "@/lib/variants";
+
+type Params = { params: Promise<{ id: string }> };
+
+const bodySchema = z.object({
+  languages: z.array(z.enum(LANGUAGE_CODES)).min(1).max(LANGUAGE_CODES.length),
+  /** Variant to translate — defaults to the draft's selected variant */
+  variantId: z.string().min(1).optional(),
+  /** Edited text to translate instead of the stored one (free-form posts only) */
+  text: z.string().min(1).max(3000).optional(),
+  modelId: z.string().min(1).optional(),
+});
+
+/**
+ * POST /api/drafts/:id/translate
+ * Localizes a draft's final text into each requested language. Every
+ * translation is stored as its own draft, linked back to the original,
+ * so it can be published or scheduled independently. Languages are
+ * translated in parallel; one failing doesn't fail the others.
+ */
+export async function POST(req: Request, { params }: Params) {
+  try {
+    const { allowed } = rateLimit(clientIp(req));
+    if (!allowed) {
+      return NextResponse.json(
+        { error: "Rate limit exceeded. Try again in 1 minute." },
+        { status: 429 }
+      );
+    }
+
+    const { id } = await params;
+    const body = await req.json();
+    const parsed = bodySchema.safeParse(body);
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: "Invalid payload", details: parsed.error.flatten() },
+        { status: 400 }
+      );
+    }
+    const { variantId, text, modelId } = parsed.data;
+
+    const draft = await prisma.draft.findUnique({
+      where: { id },
+      include: { voiceProfile: true },
+    });
+    if (!draft) {
+      return NextResponse.json({ error: "Draft not found" }, { status: 404 });
+    }
+
+    const sourceVariantId = variantId ?? draft.selectedVariantId;
+    const variant = sourceVariantId
+      ? await prisma.draftVariant.findFirst({ where: { id: sourceVariantId, draftId: id } })
+      : null;
+    if (sourceVariantId && !variant) {
+      return NextResponse.json(
+        { error: "Variant not found for this draft" },
+        { status: 404 }
+      );
+    }
+
+    // Structured posts translate their JSON shape so polls and carousels
+    // survive; free-form posts translate the final (possibly edited) text,
+    // unless the request names another variant than the selected one
+    const format = (variant?.format ?? "post") as PostFormat;
+    const otherVariant = !!variantId && variantId !== draft.selectedVariantId;
+    const source = variant?.structured
+      ? editableContent(variant.text ?? "", variant.structured)
+      : text ?? (otherVariant ? variant?.text : draft.finalText ?? variant?.text);
+    if (!source) {
+      return NextResponse.json(
+        { error: "Draft has no final text to translate" },
+        { status: 400 }
+      );
+    }
+
+    const model = modelId ? getModel(modelId) : modelFromEnv("TRANSLATE_MODEL_ID");
+    if (!model) {
+      return modelId
+        ? NextResponse.json({ error: "Unknown model" }, { status: 400 })
+        : NextResponse.json({ error: NO_MODELS_ERROR }, { status: 503 });
+    }
+
+    const languages = [...new Set(parsed.data.languages)].filter((l) => l !== draft.language);
+    if (languages.length === 0) {
+      return NextResponse.json(
+        { error: `Draft is already in ${LANGUAGES[draft.language as Language]}` },
+        { status: 400 }
+      );
+    }
+    const results = await Promise.all(
+      languages.map(async (language) => {
+        const data = await runVariant(
+          model,
+          {
+            messages: buildTranslationMessages(source, language, draft.voiceProfile, format),
+            maxTokens: 1200,
+          },
+          { format }
+        );
+        if (data.error) {
+          await recordCall({ ...data, purpose: "translate", draftId: id });
+          return { language, error: `${LANGUAGES[language]}: ${data.error}` };
+        }
+
+        const translation = await prisma.draft.create({
+          data: {
+            prompt: draft.prompt,
+            voiceProfileId: draft.voiceProfileId,
+            format,
+            language,
+            translatedFromId: draft.id,
+            targetDate: draft.targetDate,
+            variants: { create: data },
+          },
+          include: { variants: true },
+        });
+        await recordCall({ ...data, purpose: "translate", draftId: translation.id });
+        return {
+          language,
+          draft: { ...translation, variants: translation.variants.map(serializeVariant) },
+        };
+      })
+    );
+
+    const drafts = results.flatMap((r) => (r.draft ? [r.draft] : []));
+    const errors = results.flatMap((r) => (r.error ? [r.error] : []));
+    if (drafts.length === 0 && errors.length > 0) {
+      return NextResponse.json(
+        { error: `Translation failed — ${errors.join("; ")}` },
+        { status: 502 }
+      );
+    }
+    return NextResponse.json({ drafts, errors }, { status: 201 });
+  } catch (err) {
+    console.error("[translate] Error:", err);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
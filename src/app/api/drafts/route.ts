@@ -1,13 +1,23 @@
 import { NextResponse } from "next/server";
 import { prisma } from "@/lib/prisma";
+import { serializeVariant, variantOrderBy } from "@/lib/variants";
 
 export async function GET() {
   try {
     const drafts = await prisma.draft.findMany({
       orderBy: { createdAt: "desc" },
       take: 50,
+      include: {
+        variants: { orderBy: variantOrderBy },
+        sources: { select: { id: true, kind: true, name: true, summary: true } },
+      },
     });
-    return NextResponse.json(drafts);
+    return NextResponse.json(
+      drafts.map((draft) => ({
+        ...draft,
+        variants: draft.variants.map(serializeVariant),
+      }))
+    );
   } catch (err) {
     console.error("[drafts] Error:", err);
     return NextResponse.json(
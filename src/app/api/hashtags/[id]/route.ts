@@ -0,0 +1,25 @@
+import { NextResponse } from "next/server";
+import { prisma } from "@/lib/prisma";
+
+type Params = { params: Promise<{ id: string }> };
+
+/**
+ * DELETE /api/hashtags/:id
+ * Removes a tag from the allow/deny list.
+ */
+export async function DELETE(_req: Request, { params }: Params) {
+  try {
+    const { id } = await params;
+    const { count } = await prisma.hashtagRule.deleteMany({ where: { id } });
+    if (count === 0) {
+      return NextResponse.json({ error: "Hashtag rule not found" }, { status: 404 });
+    }
+    return NextResponse.json({ success: true });
+  } catch (err) {
+    console.error("[hashtags] Error:", err);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
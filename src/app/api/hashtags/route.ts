@@ -0,0 +1,57 @@
+import { NextResponse } from "next/server";
+import { hashtagRuleSchema } from "@/lib/hashtags";
+import { prisma } from "@/lib/prisma";
+import { hashtagHistory } from "@/lib/suggestions";
+
+/**
+ * GET /api/hashtags
+ * The team's allow/deny list plus hashtag usage across published posts.
+ */
+export async function GET() {
+  try {
+    const [rules, history] = await Promise.all([
+      prisma.hashtagRule.findMany({ orderBy: { tag: "asc" } }),
+      hashtagHistory(),
+    ]);
+    return NextResponse.json({ rules, history });
+  } catch (err) {
+    console.error("[hashtags] Error:", err);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/hashtags
+ * Adds a tag to the allow or deny list — moving it if it's already on
+ * the other one (tags compare case-insensitively).
+ */
+export async function POST(req: Request) {
+  try {
+    const body = await req.json();
+    const parsed = hashtagRuleSchema.safeParse(body);
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: "Invalid payload", details: parsed.error.flatten() },
+        { status: 400 }
+      );
+    }
+    const { tag, kind } = parsed.data;
+
+    const existing = await prisma.hashtagRule.findFirst({
+      where: { tag: { equals: tag, mode: "insensitive" } },
+    });
+    const rule = existing
+      ? await prisma.hashtagRule.update({ where: { id: existing.id }, data: { tag, kind } })
+      : await prisma.hashtagRule.create({ data: { tag, kind } });
+    return NextResponse.json(rule, { status: existing ? 200 : 201 });
+  } catch (err) {
+    console.error("[hashtags] Error:", err);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,64 @@
+import { NextResponse } from "next/server";
+import { z } from "zod";
+import { scoreDraft } from "@/lib/judge";
+import { prisma } from "@/lib/prisma";
+import { clientIp, rateLimit } from "@/lib/rate-limit";
+import { serializeVariant, variantOrderBy } from "@/lib/variants";
+
+const bodySchema = z.object({
+  draftId: z.string().min(1),
+});
+
+/**
+ * POST /api/judge
+ * Scores a draft's generated variants against the rubric in lib/judge
+ * and returns all variants with their stored scores.
+ */
+export async function POST(req: Request) {
+  try {
+    const { allowed } = rateLimit(clientIp(req));
+    if (!allowed) {
+      return NextResponse.json(
+        { error: "Rate limit exceeded. Try again in 1 minute." },
+        { status: 429 }
+      );
+    }
+
+    const body = await req.json();
+    const parsed = bodySchema.safeParse(body);
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: "Invalid payload", details: parsed.error.flatten() },
+        { status: 400 }
+      );
+    }
+    const { draftId } = parsed.data;
+
+    const exists = await prisma.draft.findUnique({ where: { id: draftId }, select: { id: true } });
+    if (!exists) {
+      return NextResponse.json({ error: "Draft not found" }, { status: 404 });
+    }
+
+    try {
+      await scoreDraft(draftId);
+    } catch (err) {
+      console.error("[judge] Judge call failed:", err);
+      return NextResponse.json(
+        { error: err instanceof Error ? err.message : "Judge failed" },
+        { status: 502 }
+      );
+    }
+
+    const variants = await prisma.draftVariant.findMany({
+      where: { draftId },
+      orderBy: variantOrderBy,
+    });
+    return NextResponse.json({ variants: variants.map(serializeVariant) });
+  } catch (err) {
+    console.error("[judge] Error:", err);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,25 @@
+import { NextResponse } from "next/server";
+import { disconnectLinkedIn } from "@/lib/linkedin";
+
+type Params = { params: Promise<{ id: string }> };
+
+/**
+ * DELETE /api/linkedin/accounts/:id
+ * Disconnects a LinkedIn member and removes their identities as publish
+ * targets. Scheduled posts aimed at them will fail until reconnected.
+ */
+export async function DELETE(_req: Request, { params }: Params) {
+  try {
+    const { id } = await params;
+    if (!(await disconnectLinkedIn(id))) {
+      return NextResponse.json({ error: "LinkedIn account not found" }, { status: 404 });
+    }
+    return NextResponse.json({ success: true });
+  } catch (err) {
+    console.error("[linkedin] Error:", err);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,47 @@
+import { NextResponse } from "next/server";
+import crypto from "crypto";
+import { linkedinScopes } from "@/lib/linkedin";
+
+/**
+ * GET /api/linkedin/auth
+ * Starts the LinkedIn OAuth 2.0 flow.
+ * Redirects the user's browser to LinkedIn's authorization page.
+ */
+export async function GET() {
+  const clientId = process.env.LINKEDIN_CLIENT_ID;
+  const redirectUri = process.env.LINKEDIN_REDIRECT_URI;
+
+  if (!clientId || !redirectUri || !process.env.LINKEDIN_CLIENT_SECRET) {
+    return NextResponse.json(
+      {
+        error:
+          "LinkedIn credentials not configured. Set LINKEDIN_CLIENT_ID, LINKEDIN_CLIENT_SECRET and LINKEDIN_REDIRECT_URI.",
+      },
+      { status: 500 }
+    );
+  }
+
+  const state = crypto.randomBytes(16).toString("hex");
+
+  const params = new URLSearchParams({
+    response_type: "code",
+    client_id: clientId,
+    redirect_uri: redirectUri,
+    scope: linkedinScopes(),
+    state,
+  });
+
+  const authUrl = `https://www.linkedin.com/oauth/v2/authorization?${params.toString()}`;
+
+  const response = NextResponse.redirect(authUrl);
+
+  // Store state in an httpOnly cookie for the callback
+  response.cookies.set("linkedin_oauth_state", state, {
+    httpOnly: true,
+    secure: process.env.NODE_ENV === "production",
+    maxAge: 600, // 10 minutes
+    path: "/",
+  });
+
+  return response;
+}
@@ -0,0 +1,47 @@
+import { NextRequest, NextResponse } from "next/server";
+import { connectLinkedIn } from "@/lib/linkedin";
+
+/**
+ * GET /api/linkedin/callback
+ * Handles the OAuth callback from LinkedIn.
+ * Exchanges the authorization code for tokens, resolves the member URN
+ * and stores both in the DB.
+ */
+export async function GET(req: NextRequest) {
+  const { searchParams } = new URL(req.url);
+  const code = searchParams.get("code");
+  const state = searchParams.get("state");
+  const error = searchParams.get("error");
+
+  const dashboardUrl = (msg: string) =>
+    new URL(`/dashboard?${msg}`, req.url);
+
+  if (error) {
+    return NextResponse.redirect(
+      dashboardUrl(`linkedin_error=${encodeURIComponent(error)}`)
+    );
+  }
+
+  if (!code || !state) {
+    return NextResponse.redirect(dashboardUrl("linkedin_error=missing_params"));
+  }
+
+  // Verify state matches what we stored
+  const savedState = req.cookies.get("linkedin_oauth_state")?.value;
+  if (state !== savedState) {
+    return NextResponse.redirect(dashboardUrl("linkedin_error=invalid_state"));
+  }
+
+  try {
+    await connectLinkedIn(code);
+  } catch (err) {
+    console.error("[linkedin/callback] Token exchange failed:", err);
+    return NextResponse.redirect(dashboardUrl("linkedin_error=token_exchange_failed"));
+  }
+
+  const response = NextResponse.redirect(
+    dashboardUrl("linkedin_connected=true")
+  );
+  response.cookies.delete("linkedin_oauth_state");
+  return response;
+}
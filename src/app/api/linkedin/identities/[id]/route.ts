@@ -0,0 +1,43 @@
+import { NextResponse } from "next/server";
+import { z } from "zod";
+import { prisma } from "@/lib/prisma";
+
+type Params = { params: Promise<{ id: string }> };
+
+const bodySchema = z.object({
+  isDefault: z.boolean(),
+});
+
+/**
+ * PATCH /api/linkedin/identities/:id
+ * Marks an identity as a default publish target (or not). Posts without
+ * explicit targets go to every default identity.
+ */
+export async function PATCH(req: Request, { params }: Params) {
+  try {
+    const { id } = await params;
+    const body = await req.json();
+    const parsed = bodySchema.safeParse(body);
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: "Invalid payload", details: parsed.error.flatten() },
+        { status: 400 }
+      );
+    }
+
+    const { count } = await prisma.linkedInIdentity.updateMany({
+      where: { id },
+      data: { isDefault: parsed.data.isDefault },
+    });
+    if (count === 0) {
+      return NextResponse.json({ error: "Identity not found" }, { status: 404 });
+    }
+    return NextResponse.json({ success: true });
+  } catch (err) {
+    console.error("[linkedin] Error:", err);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,42 @@
+import { NextResponse } from "next/server";
+import { getPublishTargets, listLinkedInAccounts } from "@/lib/linkedin";
+
+/**
+ * GET /api/linkedin/status
+ * Returns the connected LinkedIn members and the identities — people and
+ * company pages — that posts can be published as.
+ * Tokens close to expiry are refreshed when a refresh token is available.
+ */
+export async function GET() {
+  try {
+    const accounts = await listLinkedInAccounts();
+    const targets = await getPublishTargets(accounts);
+
+    return NextResponse.json({
+      connected: targets.length > 0,
+      accounts: accounts.map(({ token, expired }) => ({
+        id: token.id,
+        name: token.name,
+        memberUrn: token.memberUrn,
+        expiresAt: token.expiresAt,
+        expired,
+        identities: token.identities.map(({ id, urn, kind, name, isDefault }) => ({
+          id,
+          urn,
+          kind,
+          name,
+          isDefault,
+        })),
+      })),
+      targets: targets.map(({ urn, kind, name, isDefault, source }) => ({
+        urn,
+        kind,
+        name,
+        isDefault,
+        source,
+      })),
+    });
+  } catch {
+    return NextResponse.json({ connected: false, accounts: [], targets: [] });
+  }
+}
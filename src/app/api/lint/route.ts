@@ -0,0 +1,41 @@
+import { NextResponse } from "next/server";
+import { z } from "zod";
+import { EMPHASIS_STYLES } from "@/lib/commentary";
+import { blockingSeverity, blocksPublish, lintPost } from "@/lib/lint";
+
+const bodySchema = z.object({
+  text: z.string().max(20000),
+  emphasis: z.enum(EMPHASIS_STYLES).default("strip"),
+});
+
+/**
+ * POST /api/lint
+ * Runs the LinkedIn checks on post text. `blocked` says whether
+ * /api/publish would refuse it under the configured severity.
+ */
+export async function POST(req: Request) {
+  try {
+    const body = await req.json();
+    const parsed = bodySchema.safeParse(body);
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: "Invalid payload", details: parsed.error.flatten() },
+        { status: 400 }
+      );
+    }
+
+    const { text, emphasis } = parsed.data;
+    const warnings = lintPost(text, { emphasis });
+    return NextResponse.json({
+      warnings,
+      blocked: blocksPublish(warnings),
+      blockSeverity: blockingSeverity(),
+    });
+  } catch (err) {
+    console.error("[lint] Error:", err);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,61 @@
+import { NextResponse } from "next/server";
+import { mentionProfileUpdateSchema } from "@/lib/hashtags";
+import { prisma } from "@/lib/prisma";
+
+type Params = { params: Promise<{ id: string }> };
+
+/**
+ * PATCH /api/mentions/:id
+ * Updates the given fields of a saved profile.
+ */
+export async function PATCH(req: Request, { params }: Params) {
+  try {
+    const { id } = await params;
+    const body = await req.json();
+    const parsed = mentionProfileUpdateSchema.safeParse(body);
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: "Invalid payload", details: parsed.error.flatten() },
+        { status: 400 }
+      );
+    }
+
+    const existing = await prisma.mentionProfile.findUnique({ where: { id } });
+    if (!existing) {
+      return NextResponse.json({ error: "Profile not found" }, { status: 404 });
+    }
+
+    const profile = await prisma.mentionProfile.update({
+      where: { id },
+      data: parsed.data,
+    });
+    return NextResponse.json(profile);
+  } catch (err) {
+    console.error("[mentions] Error:", err);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * DELETE /api/mentions/:id
+ * Deletes a saved profile. Published posts keep their mentions.
+ */
+export async function DELETE(_req: Request, { params }: Params) {
+  try {
+    const { id } = await params;
+    const { count } = await prisma.mentionProfile.deleteMany({ where: { id } });
+    if (count === 0) {
+      return NextResponse.json({ error: "Profile not found" }, { status: 404 });
+    }
+    return NextResponse.json({ success: true });
+  } catch (err) {
+    console.error("[mentions] Error:", err);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
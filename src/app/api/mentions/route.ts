@@ -0,0 +1,56 @@
+import { NextResponse } from "next/server";
+import { mentionProfileSchema } from "@/lib/hashtags";
+import { prisma } from "@/lib/prisma";
+
+/**
+ * GET /api/mentions
+ * Lists saved people and company pages that posts can mention.
+ */
+export async function GET() {
+  try {
+    const profiles = await prisma.mentionProfile.findMany({
+      orderBy: { name: "asc" },
+    });
+    return NextResponse.json(profiles);
+  } catch (err) {
+    console.error("[mentions] Error:", err);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/mentions
+ * Saves a person or company page by LinkedIn URN.
+ */
+export async function POST(req: Request) {
+  try {
+    const body = await req.json();
+    const parsed = mentionProfileSchema.safeParse(body);
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: "Invalid payload", details: parsed.error.flatten() },
+        { status: 400 }
+      );
+    }
+
+    const existing = await prisma.mentionProfile.findUnique({ where: { urn: parsed.data.urn } });
+    if (existing) {
+      return NextResponse.json(
+        { error: `${existing.name} is already saved with that URN` },
+        { status: 409 }
+      );
+    }
+
+    const profile = await prisma.mentionProfile.create({ data: parsed.data });
+    return NextResponse.json(profile, { status: 201 });
+  } catch (err) {
+    console.error("[mentions] Error:", err);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
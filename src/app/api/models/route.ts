@@ -0,0 +1,12 @@
+import { NextResponse } from "next/server";
+import { listModels } from "@/lib/providers";
+
+/**
+ * GET /api/models
+ * Lists the registered model slots (display metadata only — no keys).
+ */
+export async function GET() {
+  return NextResponse.json(
+    listModels().map(({ id, name, vendor }) => ({ id, name, vendor }))
+  );
+}
@@ -0,0 +1,32 @@
+import { NextResponse } from "next/server";
+import { prisma } from "@/lib/prisma";
+
+type Params = { params: Promise<{ id: string }> };
+
+/**
+ * POST /api/publish-jobs/:id/cancel
+ * Cancels a post that hasn't started publishing. Running posts can't be
+ * stopped — LinkedIn may already have them.
+ */
+export async function POST(_req: Request, { params }: Params) {
+  try {
+    const { id } = await params;
+    const { count } = await prisma.publishJob.updateMany({
+      where: { id, status: { in: ["scheduled", "failed"] } },
+      data: { status: "cancelled" },
+    });
+    if (count === 0) {
+      const exists = await prisma.publishJob.findUnique({ where: { id } });
+      return exists
+        ? NextResponse.json({ error: `Can't cancel a ${exists.status} post` }, { status: 409 })
+        : NextResponse.json({ error: "Scheduled post not found" }, { status: 404 });
+    }
+    return NextResponse.json({ success: true });
+  } catch (err) {
+    console.error("[publish-jobs] Error:", err);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
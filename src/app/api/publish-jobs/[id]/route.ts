@@ -0,0 +1,89 @@
+import { NextResponse } from "next/server";
+import type { EmphasisStyle } from "@/lib/commentary";
+import { lintPost, blocksPublish } from "@/lib/lint";
+import type { PostMedia } from "@/lib/media";
+import { prisma } from "@/lib/prisma";
+import { MEDIA_LINK_EXPIRY_MESSAGE, mediaLinksLast, rescheduleSchema } from "@/lib/publishing";
+
+type Params = { params: Promise<{ id: string }> };
+
+/**
+ * GET /api/publish-jobs/:id
+ * Returns a single scheduled post.
+ */
+export async function GET(_req: Request, { params }: Params) {
+  try {
+    const { id } = await params;
+    const job = await prisma.publishJob.findUnique({ where: { id } });
+    if (!job) {
+      return NextResponse.json({ error: "Scheduled post not found" }, { status: 404 });
+    }
+    return NextResponse.json(job);
+  } catch (err) {
+    console.error("[publish-jobs] Error:", err);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * PATCH /api/publish-jobs/:id
+ * Moves a scheduled or failed post to a new time, optionally with new
+ * text. Failed posts start over with a fresh set of attempts. Posts with
+ * Canva media can't move past the lifetime of their export links.
+ */
+export async function PATCH(req: Request, { params }: Params) {
+  try {
+    const { id } = await params;
+    const body = await req.json();
+    const parsed = rescheduleSchema.safeParse(body);
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: "Invalid payload", details: parsed.error.flatten() },
+        { status: 400 }
+      );
+    }
+    const { scheduledAt, text } = parsed.data;
+
+    const existing = await prisma.publishJob.findUnique({ where: { id } });
+    if (!existing) {
+      return NextResponse.json({ error: "Scheduled post not found" }, { status: 404 });
+    }
+    if (existing.media && !mediaLinksLast(scheduledAt, existing.media as PostMedia)) {
+      return NextResponse.json({ error: MEDIA_LINK_EXPIRY_MESSAGE }, { status: 400 });
+    }
+
+    if (text) {
+      // Checked as it will be sent, in the job's emphasis style
+      const warnings = lintPost(text, { emphasis: existing.emphasis as EmphasisStyle });
+      if (blocksPublish(warnings)) {
+        return NextResponse.json(
+          { error: "Post failed LinkedIn checks", warnings },
+          { status: 422 }
+        );
+      }
+    }
+
+    const { count } = await prisma.publishJob.updateMany({
+      where: { id, status: { in: ["scheduled", "failed"] } },
+      data: { scheduledAt, ...(text ? { text } : {}), status: "scheduled", attempts: 0, lastError: null },
+    });
+    if (count === 0) {
+      const exists = await prisma.publishJob.findUnique({ where: { id } });
+      return exists
+        ? NextResponse.json({ error: `Can't reschedule a ${exists.status} post` }, { status: 409 })
+        : NextResponse.json({ error: "Scheduled post not found" }, { status: 404 });
+    }
+
+    const job = await prisma.publishJob.findUnique({ where: { id } });
+    return NextResponse.json(job);
+  } catch (err) {
+    console.error("[publish-jobs] Error:", err);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,95 @@
+import { NextResponse } from "next/server";
+import { z } from "zod";
+import { resolvePublishTargets } from "@/lib/linkedin";
+import { prisma } from "@/lib/prisma";
+import {
+  ACTIVE_JOB_STATUSES,
+  checkPublishable,
+  PUBLISH_JOB_STATUSES,
+  publishJobSchema,
+} from "@/lib/publishing";
+
+const querySchema = z.object({
+  status: z.enum(PUBLISH_JOB_STATUSES).optional(),
+});
+
+/**
+ * GET /api/publish-jobs?status=
+ * Lists scheduled posts, soonest first.
+ */
+export async function GET(req: Request) {
+  try {
+    const { searchParams } = new URL(req.url);
+    const parsed = querySchema.safeParse(Object.fromEntries(searchParams));
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: "Invalid query", details: parsed.error.flatten() },
+        { status: 400 }
+      );
+    }
+
+    const jobs = await prisma.publishJob.findMany({
+      where: parsed.data.status ? { status: parsed.data.status } : {},
+      orderBy: { scheduledAt: "asc" },
+      take: 200,
+      include: { draft: { select: { prompt: true, format: true, language: true } } },
+    });
+    return NextResponse.json(jobs);
+  } catch (err) {
+    console.error("[publish-jobs] Error:", err);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/publish-jobs
+ * Schedules a draft variant for publishing. The same checks as an
+ * immediate publish run now and again when the job is posted.
+ */
+export async function POST(req: Request) {
+  try {
+    const body = await req.json();
+    const parsed = publishJobSchema.safeParse(body);
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: "Invalid payload", details: parsed.error.flatten() },
+        { status: 400 }
+      );
+    }
+    const { draftId, variantId, text, media, targetUrns, emphasis, scheduledAt } = parsed.data;
+
+    const check = await checkPublishable(parsed.data);
+    if (!check.ok) {
+      const { error, status, warnings } = check;
+      return NextResponse.json({ error, ...(warnings ? { warnings } : {}) }, { status });
+    }
+    const targets = await resolvePublishTargets(targetUrns);
+    if (!targets.ok) {
+      return NextResponse.json({ error: targets.error }, { status: 400 });
+    }
+
+    const active = await prisma.publishJob.findFirst({
+      where: { draftId, status: { in: ACTIVE_JOB_STATUSES } },
+    });
+    if (active) {
+      return NextResponse.json(
+        { error: "This draft is already scheduled", job: active },
+        { status: 409 }
+      );
+    }
+
+    const job = await prisma.publishJob.create({
+      data: { draftId, variantId, text, media, targetUrns, emphasis, scheduledAt },
+    });
+    return NextResponse.json(job, { status: 201 });
+  } catch (err) {
+    console.error("[publish-jobs] Error:", err);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,96 @@
+import { NextResponse } from "next/server";
+import { z } from "zod";
+import { editableContent, type PostFormat } from "@/lib/formats";
+import { prisma } from "@/lib/prisma";
+import { buildRefineMessages } from "@/lib/prompts";
+import { getModel } from "@/lib/providers";
+import { clientIp, rateLimit } from "@/lib/rate-limit";
+import { recordCall } from "@/lib/usage";
+import { runVariant, serializeVariant } from "@/lib/variants";
+
+const bodySchema = z.object({
+  variantId: z.string().min(1),
+  instruction: z.string().min(1).max(1000),
+  modelId: z.string().min(1).optional(),
+});
+
+/**
+ * POST /api/refine
+ * Revises a variant with a free-text instruction ("shorter", "add a CTA"…).
+ * The revision is stored as a new variant linked to its parent, so the
+ * dashboard can step back and forth through the history.
+ */
+export async function POST(req: Request) {
+  try {
+    const { allowed } = rateLimit(clientIp(req));
+    if (!allowed) {
+      return NextResponse.json(
+        { error: "Rate limit exceeded. Try again in 1 minute." },
+        { status: 429 }
+      );
+    }
+
+    const body = await req.json();
+    const parsed = bodySchema.safeParse(body);
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: "Invalid payload", details: parsed.error.flatten() },
+        { status: 400 }
+      );
+    }
+    const { variantId, instruction, modelId } = parsed.data;
+
+    const parent = await prisma.draftVariant.findUnique({
+      where: { id: variantId },
+      include: { draft: { include: { voiceProfile: true } } },
+    });
+    if (!parent || !parent.text) {
+      return NextResponse.json(
+        { error: "Variant not found or has no text" },
+        { status: 404 }
+      );
+    }
+
+    const model = getModel(modelId ?? parent.modelId);
+    if (!model) {
+      return NextResponse.json({ error: "Unknown model" }, { status: 400 });
+    }
+
+    const format = parent.format as PostFormat;
+    const data = await runVariant(
+      model,
+      {
+        messages: buildRefineMessages(
+          editableContent(parent.text, parent.structured),
+          instruction,
+          parent.draft.voiceProfile,
+          format
+        ),
+        maxTokens: 800,
+      },
+      { format }
+    );
+    await recordCall({ ...data, purpose: "refine", draftId: parent.draftId });
+    if (data.error) {
+      return NextResponse.json(
+        {
+          error: `${model.name} failed: ${data.error}`,
+          errorStatus: data.errorStatus,
+          attempts: data.attempts,
+        },
+        { status: 502 }
+      );
+    }
+
+    const revision = await prisma.draftVariant.create({
+      data: { ...data, draftId: parent.draftId, parentId: parent.id, instruction },
+    });
+    return NextResponse.json(serializeVariant(revision), { status: 201 });
+  } catch (err) {
+    console.error("[refine] Error:", err);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
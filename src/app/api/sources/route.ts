@@ -0,0 +1,155 @@
+import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+import { prisma } from "@/lib/prisma";
+import { NO_MODELS_ERROR, ProviderError } from "@/lib/providers";
+import { clientIp, rateLimit } from "@/lib/rate-limit";
+import {
+  SOURCE_KINDS,
+  detectKind,
+  extractSourceText,
+  summarizeSource,
+  type SourceKind,
+} from "@/lib/sources";
+
+/** Vercel caps request bodies at 4.5 MB */
+const MAX_FILE_BYTES = 4 * 1024 * 1024;
+
+const MAX_PASTED_CHARS = 200_000;
+
+const pastedSchema = z.object({
+  kind: z.enum(SOURCE_KINDS).exclude(["pdf"]),
+  name: z.string().min(1).max(200).optional(),
+  content: z.string().min(1).max(MAX_PASTED_CHARS),
+});
+
+/** Fields returned to the client — full extracted content stays server-side */
+const sourceSelect = {
+  id: true,
+  kind: true,
+  name: true,
+  summary: true,
+  charCount: true,
+  createdAt: true,
+} as const;
+
+/**
+ * GET /api/sources?draftId=xxx
+ * Lists the sources a draft was grounded in.
+ */
+export async function GET(req: NextRequest) {
+  try {
+    const draftId = new URL(req.url).searchParams.get("draftId");
+    if (!draftId) {
+      return NextResponse.json({ error: "draftId is required" }, { status: 400 });
+    }
+    const sources = await prisma.source.findMany({
+      where: { drafts: { some: { id: draftId } } },
+      select: sourceSelect,
+      orderBy: { createdAt: "asc" },
+    });
+    return NextResponse.json(sources);
+  } catch (err) {
+    console.error("[sources] Error:", err);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/sources
+ * Uploads source material to ground generation in.
+ * Accepts multipart/form-data with a `file` (Markdown, text, HTML or PDF)
+ * or JSON `{ kind, name?, content }` for pasted text/HTML.
+ * The text is extracted, chunked and summarized before it is stored.
+ */
+export async function POST(req: Request) {
+  try {
+    const { allowed } = rateLimit(clientIp(req));
+    if (!allowed) {
+      return NextResponse.json(
+        { error: "Rate limit exceeded. Try again in 1 minute." },
+        { status: 429 }
+      );
+    }
+
+    let kind: SourceKind;
+    let name: string;
+    let data: string | Uint8Array;
+
+    if (req.headers.get("content-type")?.startsWith("multipart/form-data")) {
+      const form = await req.formData();
+      const file = form.get("file");
+      if (!(file instanceof File)) {
+        return NextResponse.json({ error: "Missing file" }, { status: 400 });
+      }
+      if (file.size > MAX_FILE_BYTES) {
+        return NextResponse.json({ error: "File exceeds 4 MB" }, { status: 413 });
+      }
+      const detected = detectKind(file.name, file.type);
+      if (!detected) {
+        return NextResponse.json(
+          { error: "Unsupported file type. Use .md, .txt, .html or .pdf" },
+          { status: 415 }
+        );
+      }
+      kind = detected;
+      name = file.name;
+      data = new Uint8Array(await file.arrayBuffer());
+    } else {
+      const parsed = pastedSchema.safeParse(await req.json());
+      if (!parsed.success) {
+        return NextResponse.json(
+          { error: "Invalid payload", details: parsed.error.flatten() },
+          { status: 400 }
+        );
+      }
+      kind = parsed.data.kind;
+      name = parsed.data.name ?? `Pasted ${kind === "html" ? "article" : "notes"}`;
+      data = parsed.data.content;
+    }
+
+    let content: string;
+    try {
+      content = await extractSourceText(kind, data);
+    } catch (err) {
+      console.error("[sources] Extraction failed:", err);
+      return NextResponse.json(
+        { error: "Could not read text from this source" },
+        { status: 422 }
+      );
+    }
+    if (!content) {
+      return NextResponse.json(
+        { error: "No text found in this source" },
+        { status: 422 }
+      );
+    }
+
+    let summary: string;
+    try {
+      summary = await summarizeSource(content);
+    } catch (err) {
+      const noModels = err instanceof Error && err.message === NO_MODELS_ERROR;
+      if (!(err instanceof ProviderError) && !noModels) throw err;
+      console.error("[sources] Summary failed:", err);
+      // The extracted text comes back so it can be retried as pasted text
+      return NextResponse.json(
+        { error: `Couldn't summarize this source: ${err.message}`, content: content.slice(0, MAX_PASTED_CHARS) },
+        { status: noModels ? 503 : 502 }
+      );
+    }
+    const source = await prisma.source.create({
+      data: { kind, name, content, summary, charCount: content.length },
+      select: sourceSelect,
+    });
+    return NextResponse.json(source, { status: 201 });
+  } catch (err) {
+    console.error("[sources] Error:", err);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,44 @@
+import { NextResponse } from "next/server";
+import { z } from "zod";
+import { prisma } from "@/lib/prisma";
+import { STYLE_EXAMPLE_MODES } from "@/lib/style-examples";
+
+type Params = { params: Promise<{ id: string }> };
+
+const bodySchema = z.object({
+  mode: z.enum(STYLE_EXAMPLE_MODES),
+});
+
+/**
+ * PATCH /api/style-examples/:draftId
+ * Pins a published post (always used as an example), excludes it (never
+ * used), or returns it to automatic selection.
+ */
+export async function PATCH(req: Request, { params }: Params) {
+  try {
+    const { id } = await params;
+    const body = await req.json();
+    const parsed = bodySchema.safeParse(body);
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: "Invalid payload", details: parsed.error.flatten() },
+        { status: 400 }
+      );
+    }
+
+    const { count } = await prisma.draft.updateMany({
+      where: { id, published: true },
+      data: { styleExample: parsed.data.mode },
+    });
+    if (count === 0) {
+      return NextResponse.json({ error: "Published draft not found" }, { status: 404 });
+    }
+    return NextResponse.json({ id, mode: parsed.data.mode });
+  } catch (err) {
+    console.error("[style-examples] Error:", err);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,47 @@
+import { NextResponse } from "next/server";
+import { z } from "zod";
+import { LANGUAGE_CODES } from "@/lib/languages";
+import { listStyleExamples, selectStyleExamples } from "@/lib/style-examples";
+
+const querySchema = z.object({
+  /** Topic to score examples against — also previews which would be picked */
+  q: z.string().max(15000).optional(),
+  voiceProfileId: z.string().min(1).optional(),
+  language: z.enum(LANGUAGE_CODES).optional(),
+  limit: z.coerce.number().int().min(0).max(5).default(3),
+});
+
+/**
+ * GET /api/style-examples?q=&voiceProfileId=&language=
+ * Published posts available as style examples with their pin/exclude
+ * mode. With `q`, each is scored for similarity and `selected` lists the
+ * draft ids a generation with that brief would use.
+ */
+export async function GET(req: Request) {
+  try {
+    const parsed = querySchema.safeParse(
+      Object.fromEntries(new URL(req.url).searchParams)
+    );
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: "Invalid query", details: parsed.error.flatten() },
+        { status: 400 }
+      );
+    }
+    const { q, voiceProfileId, language, limit } = parsed.data;
+
+    const [examples, selected] = await Promise.all([
+      listStyleExamples({ query: q, voiceProfileId, language }),
+      q ? selectStyleExamples({ query: q, voiceProfileId, language, limit }) : [],
+    ]);
+    if (q) examples.sort((a, b) => b.similarity - a.similarity);
+
+    return NextResponse.json({ examples, selected: selected.map((e) => e.draftId) });
+  } catch (err) {
+    console.error("[style-examples] Error:", err);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
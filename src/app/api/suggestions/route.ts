@@ -0,0 +1,48 @@
+import { NextResponse } from "next/server";
+import { z } from "zod";
+import { clientIp, rateLimit } from "@/lib/rate-limit";
+import { suggestHashtags, suggestMentions } from "@/lib/suggestions";
+
+const bodySchema = z.object({
+  text: z.string().min(1).max(20000),
+  limit: z.number().int().min(1).max(10).default(5),
+});
+
+/**
+ * POST /api/suggestions
+ * Hashtags and saved-profile mentions to offer in the preview step. The
+ * dashboard inserts them with insertHashtag / insertMention.
+ */
+export async function POST(req: Request) {
+  try {
+    const { allowed } = rateLimit(clientIp(req));
+    if (!allowed) {
+      return NextResponse.json(
+        { error: "Rate limit exceeded. Try again in 1 minute." },
+        { status: 429 }
+      );
+    }
+
+    const body = await req.json();
+    const parsed = bodySchema.safeParse(body);
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: "Invalid payload", details: parsed.error.flatten() },
+        { status: 400 }
+      );
+    }
+    const { text, limit } = parsed.data;
+
+    const [hashtags, mentions] = await Promise.all([
+      suggestHashtags(text, limit),
+      suggestMentions(text),
+    ]);
+    return NextResponse.json({ hashtags, mentions });
+  } catch (err) {
+    console.error("[suggestions] Error:", err);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,117 @@
+import { NextResponse } from "next/server";
+import { z } from "zod";
+import type { DraftVariant } from "@/generated/prisma/client";
+import { editableContent, type PostFormat } from "@/lib/formats";
+import { prisma } from "@/lib/prisma";
+import { buildSynthesisMessages } from "@/lib/prompts";
+import { getModel, modelFromEnv, NO_MODELS_ERROR } from "@/lib/providers";
+import { clientIp, rateLimit } from "@/lib/rate-limit";
+import { recordCall } from "@/lib/usage";
+import { runVariant, serializeVariant } from "@/lib/variants";
+
+const bodySchema = z.object({
+  draftId: z.string().min(1),
+  variantIds: z.array(z.string().min(1)).min(2).max(6),
+  guidance: z.string().max(1000).optional(),
+  modelId: z.string().min(1).optional(),
+});
+
+/**
+ * POST /api/synthesize
+ * Merges two or more variants of a draft into a single post, saved as a
+ * new variant on the same draft with links back to its sources.
+ */
+export async function POST(req: Request) {
+  try {
+    const { allowed } = rateLimit(clientIp(req));
+    if (!allowed) {
+      return NextResponse.json(
+        { error: "Rate limit exceeded. Try again in 1 minute." },
+        { status: 429 }
+      );
+    }
+
+    const body = await req.json();
+    const parsed = bodySchema.safeParse(body);
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: "Invalid payload", details: parsed.error.flatten() },
+        { status: 400 }
+      );
+    }
+    const { draftId, variantIds, guidance, modelId } = parsed.data;
+
+    const draft = await prisma.draft.findUnique({
+      where: { id: draftId },
+      include: { voiceProfile: true, variants: { where: { id: { in: variantIds } } } },
+    });
+    if (!draft) {
+      return NextResponse.json({ error: "Draft not found" }, { status: 404 });
+    }
+
+    // Keep the caller's order so "Draft A" matches the first pick
+    const sources = variantIds
+      .map((id) => draft.variants.find((v) => v.id === id))
+      .filter((v): v is DraftVariant & { text: string } => !!v?.text);
+    if (sources.length !== variantIds.length) {
+      return NextResponse.json(
+        { error: "Every variant must belong to this draft and have text" },
+        { status: 400 }
+      );
+    }
+
+    // Request override, else SYNTH_MODEL_ID
+    const model = modelId ? getModel(modelId) : modelFromEnv("SYNTH_MODEL_ID");
+    if (!model) {
+      return modelId
+        ? NextResponse.json({ error: "Unknown model" }, { status: 400 })
+        : NextResponse.json({ error: NO_MODELS_ERROR }, { status: 503 });
+    }
+
+    const format = draft.format as PostFormat;
+    const data = await runVariant(
+      model,
+      {
+        messages: buildSynthesisMessages(
+          sources.map((v, i) => ({
+            label: String.fromCharCode(65 + i),
+            modelName: serializeVariant(v).modelName,
+            text: editableContent(v.text, v.structured),
+          })),
+          guidance,
+          draft.voiceProfile,
+          format
+        ),
+        maxTokens: 800,
+      },
+      { format }
+    );
+    await recordCall({ ...data, purpose: "synthesize", draftId: draft.id });
+    if (data.error) {
+      return NextResponse.json(
+        {
+          error: `${model.name} failed: ${data.error}`,
+          errorStatus: data.errorStatus,
+          attempts: data.attempts,
+        },
+        { status: 502 }
+      );
+    }
+
+    const variant = await prisma.draftVariant.create({
+      data: {
+        ...data,
+        draftId,
+        sourceVariantIds: variantIds,
+        instruction: guidance ?? null,
+      },
+    });
+    return NextResponse.json(serializeVariant(variant), { status: 201 });
+  } catch (err) {
+    console.error("[synthesize] Error:", err);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
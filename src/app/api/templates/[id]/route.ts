@@ -0,0 +1,87 @@
+import { NextResponse } from "next/server";
+import { prisma } from "@/lib/prisma";
+import { promptTemplateUpdateSchema } from "@/lib/templates";
+
+type Params = { params: Promise<{ id: string }> };
+
+/**
+ * GET /api/templates/:id
+ * Returns a single prompt template.
+ */
+export async function GET(_req: Request, { params }: Params) {
+  try {
+    const { id } = await params;
+    const template = await prisma.promptTemplate.findUnique({ where: { id } });
+    if (!template) {
+      return NextResponse.json({ error: "Template not found" }, { status: 404 });
+    }
+    return NextResponse.json(template);
+  } catch (err) {
+    console.error("[templates] Error:", err);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * PATCH /api/templates/:id
+ * Updates the given fields of a prompt template.
+ */
+export async function PATCH(req: Request, { params }: Params) {
+  try {
+    const { id } = await params;
+    const body = await req.json();
+    const parsed = promptTemplateUpdateSchema.safeParse(body);
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: "Invalid payload", details: parsed.error.flatten() },
+        { status: 400 }
+      );
+    }
+
+    const existing = await prisma.promptTemplate.findUnique({ where: { id } });
+    if (!existing) {
+      return NextResponse.json({ error: "Template not found" }, { status: 404 });
+    }
+
+    const { voiceProfileId } = parsed.data;
+    if (voiceProfileId && !(await prisma.voiceProfile.findUnique({ where: { id: voiceProfileId } }))) {
+      return NextResponse.json({ error: "Voice profile not found" }, { status: 404 });
+    }
+
+    const template = await prisma.promptTemplate.update({
+      where: { id },
+      data: parsed.data,
+    });
+    return NextResponse.json(template);
+  } catch (err) {
+    console.error("[templates] Error:", err);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * DELETE /api/templates/:id
+ * Deletes a prompt template. Drafts generated from it are unaffected.
+ */
+export async function DELETE(_req: Request, { params }: Params) {
+  try {
+    const { id } = await params;
+    const { count } = await prisma.promptTemplate.deleteMany({ where: { id } });
+    if (count === 0) {
+      return NextResponse.json({ error: "Template not found" }, { status: 404 });
+    }
+    return NextResponse.json({ success: true });
+  } catch (err) {
+    console.error("[templates] Error:", err);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,53 @@
+import { NextResponse } from "next/server";
+import { prisma } from "@/lib/prisma";
+import { promptTemplateSchema } from "@/lib/templates";
+
+/**
+ * GET /api/templates
+ * Lists saved prompt templates.
+ */
+export async function GET() {
+  try {
+    const templates = await prisma.promptTemplate.findMany({
+      orderBy: { name: "asc" },
+    });
+    return NextResponse.json(templates);
+  } catch (err) {
+    console.error("[templates] Error:", err);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/templates
+ * Creates a prompt template.
+ */
+export async function POST(req: Request) {
+  try {
+    const body = await req.json();
+    const parsed = promptTemplateSchema.safeParse(body);
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: "Invalid payload", details: parsed.error.flatten() },
+        { status: 400 }
+      );
+    }
+
+    const { voiceProfileId } = parsed.data;
+    if (voiceProfileId && !(await prisma.voiceProfile.findUnique({ where: { id: voiceProfileId } }))) {
+      return NextResponse.json({ error: "Voice profile not found" }, { status: 404 });
+    }
+
+    const template = await prisma.promptTemplate.create({ data: parsed.data });
+    return NextResponse.json(template, { status: 201 });
+  } catch (err) {
+    console.error("[templates] Error:", err);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
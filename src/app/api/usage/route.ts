@@ -0,0 +1,78 @@
+import { NextResponse } from "next/server";
+import { z } from "zod";
+import { prisma } from "@/lib/prisma";
+import { getModel } from "@/lib/providers";
+
+const querySchema = z.object({
+  days: z.coerce.number().int().min(1).max(365).default(30),
+});
+
+/**
+ * GET /api/usage?days=30
+ * Aggregated provider usage over the window: per model slot (calls,
+ * failures, tokens, estimated cost, average latency), per purpose, and
+ * overall totals. Cost is null for models with no known price.
+ */
+export async function GET(req: Request) {
+  try {
+    const parsed = querySchema.safeParse(
+      Object.fromEntries(new URL(req.url).searchParams)
+    );
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: "Invalid query", details: parsed.error.flatten() },
+        { status: 400 }
+      );
+    }
+    const since = new Date(Date.now() - parsed.data.days * 24 * 60 * 60 * 1000);
+    const where = { createdAt: { gte: since } };
+    const aggregates = {
+      _count: { _all: true },
+      _sum: { promptTokens: true, completionTokens: true, costUsd: true },
+      _avg: { latencyMs: true },
+    } as const;
+
+    const [byModel, failuresByModel, byPurpose, totals] = await Promise.all([
+      prisma.providerCall.groupBy({ by: ["modelId"], where, ...aggregates }),
+      prisma.providerCall.groupBy({
+        by: ["modelId"],
+        where: { ...where, error: { not: null } },
+        _count: { _all: true },
+      }),
+      prisma.providerCall.groupBy({ by: ["purpose"], where, ...aggregates }),
+      prisma.providerCall.aggregate({ where, ...aggregates }),
+    ]);
+
+    const summarize = (row: typeof totals) => ({
+      calls: row._count._all,
+      promptTokens: row._sum.promptTokens ?? 0,
+      completionTokens: row._sum.completionTokens ?? 0,
+      costUsd: row._sum.costUsd,
+      avgLatencyMs: row._avg.latencyMs === null ? null : Math.round(row._avg.latencyMs),
+    });
+
+    return NextResponse.json({
+      since: since.toISOString(),
+      models: byModel
+        .map((row) => {
+          const model = getModel(row.modelId);
+          return {
+            modelId: row.modelId,
+            modelName: model?.name ?? row.modelId,
+            vendor: model?.vendor ?? null,
+            failures: failuresByModel.find((f) => f.modelId === row.modelId)?._count._all ?? 0,
+            ...summarize(row),
+          };
+        })
+        .sort((a, b) => b.calls - a.calls),
+      purposes: byPurpose.map((row) => ({ purpose: row.purpose, ...summarize(row) })),
+      totals: summarize(totals),
+    });
+  } catch (err) {
+    console.error("[usage] Error:", err);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,82 @@
+import { NextResponse } from "next/server";
+import { prisma } from "@/lib/prisma";
+import { voiceProfileUpdateSchema } from "@/lib/voices";
+
+type Params = { params: Promise<{ id: string }> };
+
+/**
+ * GET /api/voices/:id
+ * Returns a single voice profile.
+ */
+export async function GET(_req: Request, { params }: Params) {
+  try {
+    const { id } = await params;
+    const voice = await prisma.voiceProfile.findUnique({ where: { id } });
+    if (!voice) {
+      return NextResponse.json({ error: "Voice profile not found" }, { status: 404 });
+    }
+    return NextResponse.json(voice);
+  } catch (err) {
+    console.error("[voices] Error:", err);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * PATCH /api/voices/:id
+ * Updates the given fields of a voice profile.
+ */
+export async function PATCH(req: Request, { params }: Params) {
+  try {
+    const { id } = await params;
+    const body = await req.json();
+    const parsed = voiceProfileUpdateSchema.safeParse(body);
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: "Invalid payload", details: parsed.error.flatten() },
+        { status: 400 }
+      );
+    }
+
+    const existing = await prisma.voiceProfile.findUnique({ where: { id } });
+    if (!existing) {
+      return NextResponse.json({ error: "Voice profile not found" }, { status: 404 });
+    }
+
+    const voice = await prisma.voiceProfile.update({
+      where: { id },
+      data: parsed.data,
+    });
+    return NextResponse.json(voice);
+  } catch (err) {
+    console.error("[voices] Error:", err);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * DELETE /api/voices/:id
+ * Deletes a voice profile. Drafts that used it keep their text.
+ */
+export async function DELETE(_req: Request, { params }: Params) {
+  try {
+    const { id } = await params;
+    const { count } = await prisma.voiceProfile.deleteMany({ where: { id } });
+    if (count === 0) {
+      return NextResponse.json({ error: "Voice profile not found" }, { status: 404 });
+    }
+    return NextResponse.json({ success: true });
+  } catch (err) {
+    console.error("[voices] Error:", err);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,48 @@
+import { NextResponse } from "next/server";
+import { prisma } from "@/lib/prisma";
+import { voiceProfileSchema } from "@/lib/voices";
+
+/**
+ * GET /api/voices
+ * Lists saved brand voice profiles.
+ */
+export async function GET() {
+  try {
+    const voices = await prisma.voiceProfile.findMany({
+      orderBy: { name: "asc" },
+    });
+    return NextResponse.json(voices);
+  } catch (err) {
+    console.error("[voices] Error:", err);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/voices
+ * Creates a voice profile.
+ */
+export async function POST(req: Request) {
+  try {
+    const body = await req.json();
+    const parsed = voiceProfileSchema.safeParse(body);
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: "Invalid payload", details: parsed.error.flatten() },
+        { status: 400 }
+      );
+    }
+
+    const voice = await prisma.voiceProfile.create({ data: parsed.data });
+    return NextResponse.json(voice, { status: 201 });
+  } catch (err) {
+    console.error("[voices] Error:", err);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,296 @@
+"use client";
+
+import { useState, useEffect, useCallback } from "react";
+import Link from "next/link";
+
+/* ─── Types ──────────────────────────────────────── */
+
+type RowStatus = "queued" | "running" | "done" | "failed";
+
+interface BatchSummary {
+  id: string;
+  name: string | null;
+  createdAt: string;
+  total: number;
+  counts: Partial<Record<RowStatus, number>>;
+}
+
+interface BatchRow {
+  id: string;
+  position: number;
+  topic: string;
+  format: string;
+  targetDate: string | null;
+  status: RowStatus;
+  draftId: string | null;
+  error: string | null;
+}
+
+interface BatchDetail {
+  id: string;
+  name: string | null;
+  rows: BatchRow[];
+}
+
+const STATUS_STYLES: Record<RowStatus, string> = {
+  queued: "bg-stone-100 text-stone-500",
+  running: "bg-amber-50 text-amber-700",
+  done: "bg-emerald-50 text-emerald-700",
+  failed: "bg-red-50 text-red-600",
+};
+
+const POLL_MS = 3_000;
+
+const inputClass =
+  "w-full bg-stone-50 border border-stone-200 rounded-lg px-3 py-2 text-[13px] text-stone-800 placeholder-stone-400 focus:outline-none focus:ring-2 focus:ring-stone-900/10 focus:border-stone-400";
+
+const CSV_PLACEHOLDER = `topic,voice,format,target date
+"Lessons from our first 100 customers",Founder — candid,story,2026-11-03
+"5 onboarding mistakes we stopped making",,listicle,2026-11-05`;
+
+/* ─── Main Component ─────────────────────────────── */
+
+export default function BatchesPage() {
+  const [batches, setBatches] = useState<BatchSummary[]>([]);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [detail, setDetail] = useState<BatchDetail | null>(null);
+  const [name, setName] = useState("");
+  const [content, setContent] = useState("");
+  const [submitting, setSubmitting] = useState(false);
+  const [error, setError] = useState("");
+
+  const loadBatches = useCallback(async () => {
+    try {
+      const res = await fetch("/api/batches");
+      if (!res.ok) throw new Error("Failed to load batches");
+      setBatches(await res.json());
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to load batches");
+    }
+  }, []);
+
+  const loadDetail = useCallback(async (id: string) => {
+    try {
+      const res = await fetch(`/api/batches/${id}`);
+      if (!res.ok) throw new Error("Failed to load batch");
+      setDetail(await res.json());
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to load batch");
+    }
+  }, []);
+
+  useEffect(() => {
+    loadBatches();
+  }, [loadBatches]);
+
+  // Poll while the open batch still has work in flight
+  const inFlight = !!detail?.rows.some((r) => r.status === "queued" || r.status === "running");
+  useEffect(() => {
+    if (!selectedId) return;
+    loadDetail(selectedId);
+    if (!inFlight) return;
+    const timer = setInterval(() => {
+      loadDetail(selectedId);
+      loadBatches();
+    }, POLL_MS);
+    return () => clearInterval(timer);
+  }, [selectedId, inFlight, loadDetail, loadBatches]);
+
+  async function handleFile(file: File) {
+    setContent(await file.text());
+    if (!name) setName(file.name.replace(/\.(csv|json)$/i, ""));
+  }
+
+  async function handleSubmit() {
+    setSubmitting(true);
+    setError("");
+    try {
+      const trimmed = content.trim();
+      let payload: Record<string, unknown>;
+      if (trimmed.startsWith("[")) {
+        try {
+          payload = { rows: JSON.parse(trimmed) };
+        } catch {
+          throw new Error("That looks like JSON but doesn't parse");
+        }
+      } else {
+        payload = { csv: trimmed };
+      }
+      const res = await fetch("/api/batches", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ name: name.trim() || undefined, ...payload }),
+      });
+      if (!res.ok) {
+        const err = await res.json();
+        throw new Error(err.error ?? `HTTP ${res.status}`);
+      }
+      const { id } = await res.json();
+      setContent("");
+      setName("");
+      setSelectedId(id);
+      await loadBatches();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Import failed");
+    } finally {
+      setSubmitting(false);
+    }
+  }
+
+  async function handleRetry() {
+    if (!selectedId) return;
+    try {
+      const res = await fetch(`/api/batches/${selectedId}`, { method: "POST" });
+      if (!res.ok) throw new Error("Retry failed");
+      await loadDetail(selectedId);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Retry failed");
+    }
+  }
+
+  const failedCount = detail?.rows.filter((r) => r.status === "failed").length ?? 0;
+
+  /* ─── Render ─────────────────────────────────── */
+  return (
+    <div className="min-h-screen bg-stone-100/80">
+      <header className="sticky top-0 z-50 bg-white/70 backdrop-blur-xl border-b border-stone-200/60">
+        <div className="max-w-6xl mx-auto px-6 h-14 flex items-center justify-between">
+          <span className="text-sm font-semibold tracking-tight text-stone-900">Bulk Generation</span>
+          <Link href="/dashboard" className="text-[13px] text-stone-500 hover:text-stone-900 font-medium transition-colors">
+            ← Dashboard
+          </Link>
+        </div>
+      </header>
+
+      <main className="max-w-6xl mx-auto px-6 py-6 grid grid-cols-1 md:grid-cols-[240px_1fr] gap-5">
+        {/* ── List ── */}
+        <aside className="card-surface p-3 space-y-1 self-start">
+          <button
+            onClick={() => {
+              setSelectedId(null);
+              setDetail(null);
+            }}
+            className={`w-full text-left px-3 py-2 rounded-lg text-[13px] font-medium ${
+              selectedId === null ? "bg-stone-900 text-white" : "text-stone-600 hover:bg-stone-50"
+            }`}
+          >
+            + New import
+          </button>
+          {batches.map((b) => (
+            <button
+              key={b.id}
+              onClick={() => setSelectedId(b.id)}
+              className={`w-full text-left px-3 py-2 rounded-lg text-[13px] ${
+                selectedId === b.id ? "bg-stone-900 text-white" : "text-stone-700 hover:bg-stone-50"
+              }`}
+            >
+              <span className="block truncate">{b.name ?? new Date(b.createdAt).toLocaleString()}</span>
+              <span className="block text-[11px] opacity-60 tabular-nums">
+                {b.counts.done ?? 0}/{b.total} done{b.counts.failed ? ` · ${b.counts.failed} failed` : ""}
+              </span>
+            </button>
+          ))}
+        </aside>
+
+        <section className="card-surface p-5 space-y-4">
+          {error && (
+            <div className="rounded-lg px-4 py-2.5 text-[13px] font-medium bg-red-50 text-red-700 border border-red-200/60">
+              {error}
+            </div>
+          )}
+
+          {selectedId === null ? (
+            /* ── Import form ── */
+            <>
+              <label className="block space-y-1">
+                <span className="text-[12px] font-medium text-stone-600">Name</span>
+                <input value={name} onChange={(e) => setName(e.target.value)} className={inputClass} placeholder="e.g. November plan" />
+              </label>
+              <label className="block space-y-1">
+                <span className="text-[12px] font-medium text-stone-600">
+                  Topics — CSV with a header row (topic, voice, format, target date) or a JSON array
+                </span>
+                <textarea
+                  value={content}
+                  onChange={(e) => setContent(e.target.value)}
+                  rows={10}
+                  placeholder={CSV_PLACEHOLDER}
+                  className={`${inputClass} resize-y font-mono text-[12px]`}
+                />
+              </label>
+              <div className="flex items-center justify-between">
+                <label className="text-[12px] font-medium text-stone-500 hover:text-stone-900 cursor-pointer">
+                  Load from file…
+                  <input
+                    type="file"
+                    accept=".csv,.json,text/csv,application/json"
+                    className="hidden"
+                    onChange={(e) => {
+                      const file = e.target.files?.[0];
+                      if (file) handleFile(file);
+                      e.target.value = "";
+                    }}
+                  />
+                </label>
+                <button
+                  onClick={handleSubmit}
+                  disabled={submitting || !content.trim()}
+                  className="h-9 px-5 bg-stone-900 hover:bg-stone-800 disabled:bg-stone-200 disabled:text-stone-400 text-white text-[13px] font-medium rounded-lg transition-colors"
+                >
+                  {submitting ? "Importing…" : "Start batch"}
+                </button>
+              </div>
+            </>
+          ) : (
+            /* ── Batch progress ── */
+            detail && (
+              <>
+                <div className="flex items-center justify-between">
+                  <h2 className="text-sm font-semibold text-stone-900">{detail.name ?? "Untitled batch"}</h2>
+                  {failedCount > 0 && !inFlight && (
+                    <button onClick={handleRetry} className="text-[12px] font-medium text-stone-500 hover:text-stone-900">
+                      Retry {failedCount} failed
+                    </button>
+                  )}
+                </div>
+                <table className="w-full text-[12.5px] text-stone-700">
+                  <thead className="text-[11px] text-stone-500 border-b border-stone-100">
+                    <tr>
+                      <th className="px-2 py-2 text-left font-medium w-8">#</th>
+                      <th className="px-2 py-2 text-left font-medium">Topic</th>
+                      <th className="px-2 py-2 text-left font-medium">Format</th>
+                      <th className="px-2 py-2 text-left font-medium">Target</th>
+                      <th className="px-2 py-2 text-left font-medium">Status</th>
+                      <th className="px-2 py-2 text-left font-medium">Draft</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {detail.rows.map((row) => (
+                      <tr key={row.id} className="border-b border-stone-50 last:border-0 align-top">
+                        <td className="px-2 py-2 text-stone-400 tabular-nums">{row.position + 1}</td>
+                        <td className="px-2 py-2 max-w-xs">
+                          <span className="line-clamp-2">{row.topic}</span>
+                          {row.error && <span className="block text-[11px] text-red-600 mt-0.5">{row.error}</span>}
+                        </td>
+                        <td className="px-2 py-2 text-stone-500">{row.format}</td>
+                        <td className="px-2 py-2 text-stone-500 tabular-nums">
+                          {row.targetDate ? new Date(row.targetDate).toLocaleDateString() : "—"}
+                        </td>
+                        <td className="px-2 py-2">
+                          <span className={`text-[10px] font-medium px-1.5 py-0.5 rounded ${STATUS_STYLES[row.status]}`}>
+                            {row.status}
+                          </span>
+                        </td>
+                        <td className="px-2 py-2 font-mono text-[11px] text-stone-500">{row.draftId ?? "—"}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </>
+            )
+          )}
+        </section>
+      </main>
+    </div>
+  );
+}
@@ -0,0 +1,486 @@
+"use client";
+
+import { useState, useEffect, useCallback } from "react";
+import Link from "next/link";
+import { FORMAT_LABELS, POST_FORMATS, type PostFormat } from "@/lib/formats";
+import { LANGUAGE_CODES, LANGUAGES, type Language } from "@/lib/languages";
+
+/* ─── Types ──────────────────────────────────────── */
+
+type CampaignStatus = "outlined" | "generating" | "done" | "failed";
+
+const CADENCE_LABELS = {
+  daily: "Every day",
+  weekdays: "Weekdays",
+  "every-other-day": "Every other day",
+  weekly: "Weekly",
+} as const;
+type Cadence = keyof typeof CADENCE_LABELS;
+
+interface CampaignSummary {
+  id: string;
+  theme: string;
+  postCount: number;
+  status: CampaignStatus;
+  drafted: number;
+  createdAt: string;
+}
+
+interface OutlinePost {
+  title: string;
+  angle: string;
+  keyPoints: string[];
+}
+
+interface SlotVariant {
+  id: string;
+  modelName: string;
+  text: string | null;
+  error: string | null;
+  score: number | null;
+}
+
+interface Slot extends OutlinePost {
+  position: number;
+  date: string;
+  draft: { id: string; variants: SlotVariant[] } | null;
+}
+
+interface CampaignDetail {
+  id: string;
+  theme: string;
+  brief: string | null;
+  cadence: Cadence;
+  format: PostFormat;
+  status: CampaignStatus;
+  voiceProfile: { id: string; name: string } | null;
+  slots: Slot[];
+}
+
+interface VoiceOption {
+  id: string;
+  name: string;
+}
+
+const STATUS_STYLES: Record<CampaignStatus, string> = {
+  outlined: "bg-stone-100 text-stone-500",
+  generating: "bg-amber-50 text-amber-700",
+  done: "bg-emerald-50 text-emerald-700",
+  failed: "bg-red-50 text-red-600",
+};
+
+const POLL_MS = 3_000;
+
+const inputClass =
+  "w-full bg-stone-50 border border-stone-200 rounded-lg px-3 py-2 text-[13px] text-stone-800 placeholder-stone-400 focus:outline-none focus:ring-2 focus:ring-stone-900/10 focus:border-stone-400";
+
+const buttonClass =
+  "h-9 px-5 bg-stone-900 hover:bg-stone-800 disabled:bg-stone-200 disabled:text-stone-400 text-white text-[13px] font-medium rounded-lg transition-colors";
+
+/** Highest-scoring successful variant, else the first one that worked */
+function bestVariant(variants: SlotVariant[]): SlotVariant | null {
+  const ok = variants.filter((v) => !v.error && v.text);
+  return ok.reduce<SlotVariant | null>(
+    (best, v) => (!best || (v.score ?? -1) > (best.score ?? -1) ? v : best),
+    null
+  );
+}
+
+/* ─── Main Component ─────────────────────────────── */
+
+export default function CampaignsPage() {
+  const [campaigns, setCampaigns] = useState<CampaignSummary[]>([]);
+  const [voices, setVoices] = useState<VoiceOption[]>([]);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [detail, setDetail] = useState<CampaignDetail | null>(null);
+  const [outline, setOutline] = useState<OutlinePost[]>([]);
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState("");
+
+  // New campaign form
+  const [theme, setTheme] = useState("");
+  const [brief, setBrief] = useState("");
+  const [postCount, setPostCount] = useState(5);
+  const [cadence, setCadence] = useState<Cadence>("weekly");
+  const [startDate, setStartDate] = useState(() => new Date().toISOString().slice(0, 10));
+  const [voiceProfileId, setVoiceProfileId] = useState("");
+  const [format, setFormat] = useState<PostFormat>("post");
+  const [language, setLanguage] = useState<Language>("en");
+
+  const loadCampaigns = useCallback(async () => {
+    try {
+      const res = await fetch("/api/campaigns");
+      if (!res.ok) throw new Error("Failed to load campaigns");
+      setCampaigns(await res.json());
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to load campaigns");
+    }
+  }, []);
+
+  const loadDetail = useCallback(async (id: string) => {
+    try {
+      const res = await fetch(`/api/campaigns/${id}`);
+      if (!res.ok) throw new Error("Failed to load campaign");
+      const data: CampaignDetail = await res.json();
+      setDetail(data);
+      setOutline(data.slots.map(({ title, angle, keyPoints }) => ({ title, angle, keyPoints })));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to load campaign");
+    }
+  }, []);
+
+  useEffect(() => {
+    loadCampaigns();
+    (async () => {
+      try {
+        const res = await fetch("/api/voices");
+        if (res.ok) setVoices(await res.json());
+      } catch {
+        setVoices([]);
+      }
+    })();
+  }, [loadCampaigns]);
+
+  // Poll while the open campaign is drafting
+  const generating = detail?.status === "generating";
+  useEffect(() => {
+    if (!selectedId) return;
+    loadDetail(selectedId);
+    if (!generating) return;
+    const timer = setInterval(() => {
+      loadDetail(selectedId);
+      loadCampaigns();
+    }, POLL_MS);
+    return () => clearInterval(timer);
+  }, [selectedId, generating, loadDetail, loadCampaigns]);
+
+  async function handleCreate() {
+    setBusy(true);
+    setError("");
+    try {
+      const res = await fetch("/api/campaigns", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          theme: theme.trim(),
+          brief: brief.trim() || undefined,
+          postCount,
+          cadence,
+          startDate,
+          voiceProfileId: voiceProfileId || undefined,
+          format,
+          settings: { language },
+        }),
+      });
+      if (!res.ok) {
+        const err = await res.json();
+        throw new Error(err.error ?? `HTTP ${res.status}`);
+      }
+      const { id } = await res.json();
+      setTheme("");
+      setBrief("");
+      setSelectedId(id);
+      await loadCampaigns();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Planning failed");
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  function updatePost(index: number, patch: Partial<OutlinePost>) {
+    setOutline((prev) => prev.map((p, i) => (i === index ? { ...p, ...patch } : p)));
+  }
+
+  async function handleGenerate() {
+    if (!selectedId) return;
+    setBusy(true);
+    setError("");
+    try {
+      if (detail?.status === "outlined") {
+        const saved = await fetch(`/api/campaigns/${selectedId}`, {
+          method: "PATCH",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({
+            outline: {
+              posts: outline.map((p) => ({ ...p, keyPoints: p.keyPoints.filter((k) => k.trim()) })),
+            },
+          }),
+        });
+        if (!saved.ok) {
+          const err = await saved.json();
+          throw new Error(err.error ?? `HTTP ${saved.status}`);
+        }
+      }
+      const res = await fetch(`/api/campaigns/${selectedId}/generate`, { method: "POST" });
+      if (!res.ok) {
+        const err = await res.json();
+        throw new Error(err.error ?? `HTTP ${res.status}`);
+      }
+      await loadDetail(selectedId);
+      await loadCampaigns();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Generation failed");
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  const missing = detail?.slots.filter((s) => !s.draft || !bestVariant(s.draft.variants)).length ?? 0;
+
+  /* ─── Render ─────────────────────────────────── */
+  return (
+    <div className="min-h-screen bg-stone-100/80">
+      <header className="sticky top-0 z-50 bg-white/70 backdrop-blur-xl border-b border-stone-200/60">
+        <div className="max-w-6xl mx-auto px-6 h-14 flex items-center justify-between">
+          <span className="text-sm font-semibold tracking-tight text-stone-900">Campaigns</span>
+          <Link href="/dashboard" className="text-[13px] text-stone-500 hover:text-stone-900 font-medium transition-colors">
+            ← Dashboard
+          </Link>
+        </div>
+      </header>
+
+      <main className="max-w-6xl mx-auto px-6 py-6 grid grid-cols-1 md:grid-cols-[240px_1fr] gap-5">
+        {/* ── List ── */}
+        <aside className="card-surface p-3 space-y-1 self-start">
+          <button
+            onClick={() => {
+              setSelectedId(null);
+              setDetail(null);
+            }}
+            className={`w-full text-left px-3 py-2 rounded-lg text-[13px] font-medium ${
+              selectedId === null ? "bg-stone-900 text-white" : "text-stone-600 hover:bg-stone-50"
+            }`}
+          >
+            + New campaign
+          </button>
+          {campaigns.map((c) => (
+            <button
+              key={c.id}
+              onClick={() => setSelectedId(c.id)}
+              className={`w-full text-left px-3 py-2 rounded-lg text-[13px] ${
+                selectedId === c.id ? "bg-stone-900 text-white" : "text-stone-700 hover:bg-stone-50"
+              }`}
+            >
+              <span className="block truncate">{c.theme}</span>
+              <span className="block text-[11px] opacity-60 tabular-nums">
+                {c.postCount} posts · {c.status}
+              </span>
+            </button>
+          ))}
+        </aside>
+
+        <section className="card-surface p-5 space-y-4">
+          {error && (
+            <div className="rounded-lg px-4 py-2.5 text-[13px] font-medium bg-red-50 text-red-700 border border-red-200/60">
+              {error}
+            </div>
+          )}
+
+          {selectedId === null ? (
+            /* ── Plan form ── */
+            <>
+              <label className="block space-y-1">
+                <span className="text-[12px] font-medium text-stone-600">Theme</span>
+                <input
+                  value={theme}
+                  onChange={(e) => setTheme(e.target.value)}
+                  className={inputClass}
+                  placeholder="e.g. What we learned scaling support from 10 to 10,000 customers"
+                />
+              </label>
+              <label className="block space-y-1">
+                <span className="text-[12px] font-medium text-stone-600">Brief (optional)</span>
+                <textarea
+                  value={brief}
+                  onChange={(e) => setBrief(e.target.value)}
+                  rows={4}
+                  placeholder="Audience, goals, stories or numbers to include…"
+                  className={`${inputClass} resize-y`}
+                />
+              </label>
+              <div className="grid grid-cols-2 md:grid-cols-6 gap-3">
+                <label className="block space-y-1">
+                  <span className="text-[12px] font-medium text-stone-600">Posts</span>
+                  <input
+                    type="number"
+                    min={2}
+                    max={12}
+                    value={postCount}
+                    onChange={(e) => setPostCount(Number(e.target.value))}
+                    className={inputClass}
+                  />
+                </label>
+                <label className="block space-y-1">
+                  <span className="text-[12px] font-medium text-stone-600">Cadence</span>
+                  <select value={cadence} onChange={(e) => setCadence(e.target.value as Cadence)} className={inputClass}>
+                    {(Object.keys(CADENCE_LABELS) as Cadence[]).map((c) => (
+                      <option key={c} value={c}>{CADENCE_LABELS[c]}</option>
+                    ))}
+                  </select>
+                </label>
+                <label className="block space-y-1">
+                  <span className="text-[12px] font-medium text-stone-600">Starts</span>
+                  <input type="date" value={startDate} onChange={(e) => setStartDate(e.target.value)} className={inputClass} />
+                </label>
+                <label className="block space-y-1">
+                  <span className="text-[12px] font-medium text-stone-600">Voice</span>
+                  <select value={voiceProfileId} onChange={(e) => setVoiceProfileId(e.target.value)} className={inputClass}>
+                    <option value="">Default</option>
+                    {voices.map((v) => (
+                      <option key={v.id} value={v.id}>{v.name}</option>
+                    ))}
+                  </select>
+                </label>
+                <label className="block space-y-1">
+                  <span className="text-[12px] font-medium text-stone-600">Format</span>
+                  <select value={format} onChange={(e) => setFormat(e.target.value as PostFormat)} className={inputClass}>
+                    {POST_FORMATS.map((f) => (
+                      <option key={f} value={f}>{FORMAT_LABELS[f]}</option>
+                    ))}
+                  </select>
+                </label>
+                <label className="block space-y-1">
+                  <span className="text-[12px] font-medium text-stone-600">Language</span>
+                  <select value={language} onChange={(e) => setLanguage(e.target.value as Language)} className={inputClass}>
+                    {LANGUAGE_CODES.map((l) => (
+                      <option key={l} value={l}>{LANGUAGES[l]}</option>
+                    ))}
+                  </select>
+                </label>
+              </div>
+              <div className="flex justify-end">
+                <button onClick={handleCreate} disabled={busy || !theme.trim()} className={buttonClass}>
+                  {busy ? "Planning…" : "Plan outline"}
+                </button>
+              </div>
+            </>
+          ) : (
+            detail && (
+              <>
+                <div className="flex items-start justify-between gap-4">
+                  <div>
+                    <h2 className="text-sm font-semibold text-stone-900">{detail.theme}</h2>
+                    <p className="text-[12px] text-stone-500 mt-0.5">
+                      {detail.slots.length} posts · {CADENCE_LABELS[detail.cadence]} · {FORMAT_LABELS[detail.format]}
+                      {detail.voiceProfile ? ` · ${detail.voiceProfile.name}` : ""}
+                    </p>
+                  </div>
+                  <span className={`text-[10px] font-medium px-1.5 py-0.5 rounded ${STATUS_STYLES[detail.status]}`}>
+                    {detail.status}
+                  </span>
+                </div>
+
+                {detail.status === "outlined" ? (
+                  /* ── Outline review ── */
+                  <>
+                    <p className="text-[12px] text-stone-500">
+                      Review the outline — each post gets its own points so the series doesn&apos;t repeat itself.
+                    </p>
+                    <ol className="space-y-3">
+                      {outline.map((post, i) => (
+                        <li key={i} className="rounded-lg border border-stone-200/80 p-3 space-y-2">
+                          <div className="flex items-center gap-2">
+                            <span className="text-[11px] text-stone-400 tabular-nums w-28 shrink-0">
+                              #{i + 1} · {new Date(detail.slots[i].date).toLocaleDateString()}
+                            </span>
+                            <input
+                              value={post.title}
+                              onChange={(e) => updatePost(i, { title: e.target.value })}
+                              className={`${inputClass} font-medium`}
+                            />
+                          </div>
+                          <input
+                            value={post.angle}
+                            onChange={(e) => updatePost(i, { angle: e.target.value })}
+                            className={inputClass}
+                            placeholder="Angle"
+                          />
+                          <textarea
+                            value={post.keyPoints.join("\n")}
+                            onChange={(e) => updatePost(i, { keyPoints: e.target.value.split("\n") })}
+                            rows={Math.max(2, post.keyPoints.length)}
+                            className={`${inputClass} resize-y text-[12px]`}
+                            placeholder="One key point per line"
+                          />
+                        </li>
+                      ))}
+                    </ol>
+                    <div className="flex justify-end">
+                      <button onClick={handleGenerate} disabled={busy} className={buttonClass}>
+                        {busy ? "Starting…" : `Generate ${outline.length} posts`}
+                      </button>
+                    </div>
+                  </>
+                ) : (
+                  /* ── Series view ── */
+                  <>
+                    {detail.status === "failed" && missing > 0 && (
+                      <div className="flex items-center justify-between rounded-lg bg-red-50 border border-red-200/60 px-4 py-2.5">
+                        <span className="text-[12px] text-red-700">
+                          {missing} post{missing === 1 ? "" : "s"} could not be drafted.
+                        </span>
+                        <button
+                          onClick={handleGenerate}
+                          disabled={busy}
+                          className="text-[12px] font-medium text-red-700 hover:text-red-900"
+                        >
+                          Retry missing
+                        </button>
+                      </div>
+                    )}
+                    <ol className="space-y-3">
+                      {detail.slots.map((slot) => {
+                        const best = slot.draft ? bestVariant(slot.draft.variants) : null;
+                        return (
+                          <li key={slot.position} className="rounded-lg border border-stone-200/80 p-4 space-y-2">
+                            <div className="flex items-center justify-between gap-3">
+                              <div className="min-w-0">
+                                <span className="text-[11px] text-stone-400 tabular-nums">
+                                  #{slot.position + 1} · {new Date(slot.date).toLocaleDateString()}
+                                </span>
+                                <h3 className="text-[13px] font-semibold text-stone-900 truncate">{slot.title}</h3>
+                              </div>
+                              <span
+                                className={`shrink-0 text-[10px] font-medium px-1.5 py-0.5 rounded ${
+                                  best
+                                    ? STATUS_STYLES.done
+                                    : detail.status === "generating"
+                                      ? STATUS_STYLES.generating
+                                      : slot.draft
+                                        ? STATUS_STYLES.failed
+                                        : STATUS_STYLES.outlined
+                                }`}
+                              >
+                                {best ? "drafted" : detail.status === "generating" ? "pending" : slot.draft ? "failed" : "not drafted"}
+                              </span>
+                            </div>
+                            <p className="text-[12px] text-stone-500">{slot.angle}</p>
+                            {best && (
+                              <>
+                                <p className="text-[13px] text-stone-700 whitespace-pre-wrap line-clamp-6">{best.text}</p>
+                                <p className="text-[11px] text-stone-400">
+                                  {best.modelName}
+                                  {best.score != null ? ` · score ${best.score}` : ""}
+                                  {slot.draft && slot.draft.variants.length > 1
+                                    ? ` · ${slot.draft.variants.length} variants`
+                                    : ""}
+                                  {" · "}
+                                  <span className="font-mono">{slot.draft?.id}</span>
+                                </p>
+                              </>
+                            )}
+                          </li>
+                        );
+                      })}
+                    </ol>
+                  </>
+                )}
+              </>
+            )
+          )}
+        </section>
+      </main>
+    </div>
+  );
+}
@@ -0,0 +1,196 @@
+"use client";
+
+import { useState, useEffect, useCallback } from "react";
+import Link from "next/link";
+import { LANGUAGE_CODES, LANGUAGES, type Language } from "@/lib/languages";
+import type { StyleExampleMode } from "@/lib/style-examples";
+
+/* ─── Types ──────────────────────────────────────── */
+
+interface Example {
+  draftId: string;
+  text: string;
+  prompt: string;
+  mode: StyleExampleMode;
+  similarity: number;
+  createdAt: string;
+}
+
+interface VoiceOption {
+  id: string;
+  name: string;
+}
+
+const MODE_LABELS: Record<StyleExampleMode, string> = {
+  auto: "Auto",
+  pinned: "Pinned",
+  excluded: "Excluded",
+};
+
+const MODE_STYLES: Record<StyleExampleMode, string> = {
+  auto: "bg-stone-900 text-white",
+  pinned: "bg-emerald-600 text-white",
+  excluded: "bg-red-600 text-white",
+};
+
+const inputClass =
+  "w-full bg-stone-50 border border-stone-200 rounded-lg px-3 py-2 text-[13px] text-stone-800 placeholder-stone-400 focus:outline-none focus:ring-2 focus:ring-stone-900/10 focus:border-stone-400";
+
+/* ─── Main Component ─────────────────────────────── */
+
+export default function ExamplesPage() {
+  const [examples, setExamples] = useState<Example[]>([]);
+  const [selected, setSelected] = useState<string[]>([]);
+  const [voices, setVoices] = useState<VoiceOption[]>([]);
+  const [voiceId, setVoiceId] = useState("");
+  const [language, setLanguage] = useState<Language | "">("");
+  const [query, setQuery] = useState("");
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState("");
+
+  const load = useCallback(async () => {
+    setLoading(true);
+    try {
+      const params = new URLSearchParams();
+      if (query.trim()) params.set("q", query.trim());
+      if (voiceId) params.set("voiceProfileId", voiceId);
+      if (language) params.set("language", language);
+      const res = await fetch(`/api/style-examples?${params}`);
+      if (!res.ok) throw new Error("Failed to load examples");
+      const data = await res.json();
+      setExamples(data.examples);
+      setSelected(data.selected);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to load examples");
+    } finally {
+      setLoading(false);
+    }
+  }, [query, voiceId, language]);
+
+  // Re-score shortly after the user stops typing
+  useEffect(() => {
+    const timer = setTimeout(load, 300);
+    return () => clearTimeout(timer);
+  }, [load]);
+
+  useEffect(() => {
+    (async () => {
+      try {
+        const res = await fetch("/api/voices");
+        if (res.ok) setVoices(await res.json());
+      } catch {
+        setVoices([]);
+      }
+    })();
+  }, []);
+
+  async function handleMode(draftId: string, mode: StyleExampleMode) {
+    setError("");
+    try {
+      const res = await fetch(`/api/style-examples/${draftId}`, {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ mode }),
+      });
+      if (!res.ok) {
+        const err = await res.json();
+        throw new Error(err.error ?? `HTTP ${res.status}`);
+      }
+      await load();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Update failed");
+    }
+  }
+
+  /* ─── Render ─────────────────────────────────── */
+  return (
+    <div className="min-h-screen bg-stone-100/80">
+      <header className="sticky top-0 z-50 bg-white/70 backdrop-blur-xl border-b border-stone-200/60">
+        <div className="max-w-6xl mx-auto px-6 h-14 flex items-center justify-between">
+          <span className="text-sm font-semibold tracking-tight text-stone-900">Style Examples</span>
+          <Link href="/dashboard" className="text-[13px] text-stone-500 hover:text-stone-900 font-medium transition-colors">
+            ← Dashboard
+          </Link>
+        </div>
+      </header>
+
+      <main className="max-w-6xl mx-auto px-6 py-6 space-y-5">
+        <section className="card-surface p-5 space-y-3">
+          <p className="text-[12px] text-stone-500">
+            Published posts are reused as few-shot examples when generating: pinned posts are always included,
+            then the posts closest in topic to the brief. Excluded posts are never used.
+          </p>
+          <div className="grid grid-cols-1 md:grid-cols-[1fr_180px_160px] gap-2">
+            <input
+              value={query}
+              onChange={(e) => setQuery(e.target.value)}
+              className={inputClass}
+              placeholder="Try a topic to see which examples would be picked…"
+            />
+            <select value={voiceId} onChange={(e) => setVoiceId(e.target.value)} className={inputClass}>
+              <option value="">Any voice</option>
+              {voices.map((v) => (
+                <option key={v.id} value={v.id}>{v.name}</option>
+              ))}
+            </select>
+            <select value={language} onChange={(e) => setLanguage(e.target.value as Language | "")} className={inputClass}>
+              <option value="">Any language</option>
+              {LANGUAGE_CODES.map((l) => (
+                <option key={l} value={l}>{LANGUAGES[l]}</option>
+              ))}
+            </select>
+          </div>
+        </section>
+
+        {error && (
+          <div className="rounded-lg px-4 py-2.5 text-[13px] font-medium bg-red-50 text-red-700 border border-red-200/60">
+            {error}
+          </div>
+        )}
+
+        {!loading && examples.length === 0 && (
+          <p className="text-center text-[13px] text-stone-400 py-10">
+            No published posts yet — examples appear here once posts go live.
+          </p>
+        )}
+
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          {examples.map((ex) => {
+            const isSelected = selected.includes(ex.draftId);
+            return (
+              <article
+                key={ex.draftId}
+                className={`card-surface p-4 space-y-2 ${isSelected ? "ring-2 ring-emerald-500/60" : ""} ${
+                  ex.mode === "excluded" ? "opacity-60" : ""
+                }`}
+              >
+                <div className="flex items-center justify-between gap-2">
+                  <span className="text-[11px] text-stone-400 tabular-nums">
+                    {new Date(ex.createdAt).toLocaleDateString()}
+                    {query.trim() ? ` · similarity ${ex.similarity.toFixed(2)}` : ""}
+                    {isSelected ? " · would be used" : ""}
+                  </span>
+                  <div className="flex rounded-md border border-stone-200 overflow-hidden">
+                    {(Object.keys(MODE_LABELS) as StyleExampleMode[]).map((mode) => (
+                      <button
+                        key={mode}
+                        onClick={() => ex.mode !== mode && handleMode(ex.draftId, mode)}
+                        className={`text-[11px] font-medium px-2 py-0.5 ${
+                          ex.mode === mode ? MODE_STYLES[mode] : "bg-white text-stone-500 hover:bg-stone-50"
+                        }`}
+                      >
+                        {MODE_LABELS[mode]}
+                      </button>
+                    ))}
+                  </div>
+                </div>
+                <p className="text-[11px] text-stone-500 line-clamp-1">Brief: {ex.prompt}</p>
+                <p className="text-[12.5px] text-stone-700 whitespace-pre-wrap line-clamp-6">{ex.text}</p>
+              </article>
+            );
+          })}
+        </div>
+      </main>
+    </div>
+  );
+}
@@ -0,0 +1,279 @@
+"use client";
+
+import { useState, useEffect, useCallback } from "react";
+import Link from "next/link";
+import type { HashtagRuleKind, MentionKind } from "@/lib/hashtags";
+
+/* ─── Types ──────────────────────────────────────── */
+
+interface HashtagRule {
+  id: string;
+  tag: string;
+  kind: HashtagRuleKind;
+}
+
+interface HashtagData {
+  rules: HashtagRule[];
+  history: { tag: string; uses: number }[];
+}
+
+interface MentionProfile {
+  id: string;
+  name: string;
+  kind: MentionKind;
+  urn: string;
+  keywords: string[];
+}
+
+const inputClass =
+  "w-full bg-stone-50 border border-stone-200 rounded-lg px-3 py-2 text-[13px] text-stone-800 placeholder-stone-400 focus:outline-none focus:ring-2 focus:ring-stone-900/10 focus:border-stone-400";
+
+const buttonClass =
+  "h-9 px-4 bg-stone-900 hover:bg-stone-800 disabled:bg-stone-200 disabled:text-stone-400 text-white text-[13px] font-medium rounded-lg transition-colors shrink-0";
+
+/* ─── Main Component ─────────────────────────────── */
+
+export default function HashtagsPage() {
+  const [data, setData] = useState<HashtagData>({ rules: [], history: [] });
+  const [profiles, setProfiles] = useState<MentionProfile[]>([]);
+  const [error, setError] = useState("");
+
+  // Hashtag form
+  const [tag, setTag] = useState("");
+  const [kind, setKind] = useState<HashtagRuleKind>("allow");
+
+  // Profile form
+  const [name, setName] = useState("");
+  const [profileKind, setProfileKind] = useState<MentionKind>("person");
+  const [urn, setUrn] = useState("");
+  const [keywords, setKeywords] = useState("");
+
+  const load = useCallback(async () => {
+    try {
+      const [tagsRes, profilesRes] = await Promise.all([fetch("/api/hashtags"), fetch("/api/mentions")]);
+      if (!tagsRes.ok || !profilesRes.ok) throw new Error("Failed to load hashtags and profiles");
+      setData(await tagsRes.json());
+      setProfiles(await profilesRes.json());
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to load hashtags and profiles");
+    }
+  }, []);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  async function send(url: string, init: RequestInit) {
+    setError("");
+    try {
+      const res = await fetch(url, {
+        ...init,
+        headers: { "Content-Type": "application/json" },
+      });
+      if (!res.ok) {
+        const err = await res.json();
+        throw new Error(err.error ?? `HTTP ${res.status}`);
+      }
+      await load();
+      return true;
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Request failed");
+      return false;
+    }
+  }
+
+  async function handleAddTag(tagName = tag, tagKind = kind) {
+    if (await send("/api/hashtags", { method: "POST", body: JSON.stringify({ tag: tagName, kind: tagKind }) })) {
+      setTag("");
+    }
+  }
+
+  async function handleAddProfile() {
+    const ok = await send("/api/mentions", {
+      method: "POST",
+      body: JSON.stringify({
+        name: name.trim(),
+        kind: profileKind,
+        urn: urn.trim(),
+        keywords: keywords.split(",").map((k) => k.trim()).filter(Boolean),
+      }),
+    });
+    if (ok) {
+      setName("");
+      setUrn("");
+      setKeywords("");
+    }
+  }
+
+  const ruleFor = (t: string) => data.rules.find((r) => r.tag.toLowerCase() === t.toLowerCase());
+
+  /* ─── Render ─────────────────────────────────── */
+  return (
+    <div className="min-h-screen bg-stone-100/80">
+      <header className="sticky top-0 z-50 bg-white/70 backdrop-blur-xl border-b border-stone-200/60">
+        <div className="max-w-6xl mx-auto px-6 h-14 flex items-center justify-between">
+          <span className="text-sm font-semibold tracking-tight text-stone-900">Hashtags & Mentions</span>
+          <Link href="/dashboard" className="text-[13px] text-stone-500 hover:text-stone-900 font-medium transition-colors">
+            ← Dashboard
+          </Link>
+        </div>
+      </header>
+
+      <main className="max-w-6xl mx-auto px-6 py-6 space-y-5">
+        {error && (
+          <div className="rounded-lg px-4 py-2.5 text-[13px] font-medium bg-red-50 text-red-700 border border-red-200/60">
+            {error}
+          </div>
+        )}
+
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-5">
+          {/* ── Allow / deny list ── */}
+          <section className="card-surface p-5 space-y-4">
+            <h2 className="text-[13px] font-semibold text-stone-900">Hashtag list</h2>
+            <div className="flex gap-2">
+              <input
+                value={tag}
+                onChange={(e) => setTag(e.target.value)}
+                onKeyDown={(e) => e.key === "Enter" && tag.trim() && handleAddTag()}
+                className={inputClass}
+                placeholder="#ProductManagement"
+              />
+              <select value={kind} onChange={(e) => setKind(e.target.value as HashtagRuleKind)} className={`${inputClass} w-28`}>
+                <option value="allow">Allow</option>
+                <option value="deny">Deny</option>
+              </select>
+              <button onClick={() => handleAddTag()} disabled={!tag.trim()} className={buttonClass}>
+                Add
+              </button>
+            </div>
+            {(["allow", "deny"] as const).map((k) => (
+              <div key={k} className="space-y-1.5">
+                <p className="text-[11px] font-medium text-stone-500">
+                  {k === "allow" ? "Approved — preferred in suggestions" : "Denied — never suggested"}
+                </p>
+                <div className="flex flex-wrap gap-1.5">
+                  {data.rules.filter((r) => r.kind === k).map((r) => (
+                    <span
+                      key={r.id}
+                      className={`text-[12px] px-2 py-0.5 rounded-md flex items-center gap-1.5 ${
+                        k === "allow" ? "bg-emerald-50 text-emerald-700" : "bg-red-50 text-red-600"
+                      }`}
+                    >
+                      #{r.tag}
+                      <button
+                        onClick={() => send(`/api/hashtags/${r.id}`, { method: "DELETE" })}
+                        className="opacity-50 hover:opacity-100"
+                        aria-label={`Remove #${r.tag}`}
+                      >
+                        ×
+                      </button>
+                    </span>
+                  ))}
+                  {!data.rules.some((r) => r.kind === k) && <span className="text-[12px] text-stone-400">None yet</span>}
+                </div>
+              </div>
+            ))}
+          </section>
+
+          {/* ── Usage history ── */}
+          <section className="card-surface p-5 space-y-3">
+            <h2 className="text-[13px] font-semibold text-stone-900">Used in published posts</h2>
+            {data.history.length === 0 ? (
+              <p className="text-[12px] text-stone-400">No hashtags in published posts yet.</p>
+            ) : (
+              <table className="w-full text-[12.5px] text-stone-700">
+                <tbody>
+                  {data.history.slice(0, 30).map((h) => {
+                    const rule = ruleFor(h.tag);
+                    return (
+                      <tr key={h.tag} className="border-b border-stone-50 last:border-0">
+                        <td className="py-1.5">#{h.tag}</td>
+                        <td className="py-1.5 text-stone-500 tabular-nums text-right">{h.uses}</td>
+                        <td className="py-1.5 text-right">
+                          {rule ? (
+                            <span className="text-[11px] text-stone-400">{rule.kind === "allow" ? "approved" : "denied"}</span>
+                          ) : (
+                            <span className="space-x-2">
+                              <button onClick={() => handleAddTag(h.tag, "allow")} className="text-[11px] font-medium text-stone-500 hover:text-emerald-700">
+                                Approve
+                              </button>
+                              <button onClick={() => handleAddTag(h.tag, "deny")} className="text-[11px] font-medium text-stone-500 hover:text-red-600">
+                                Deny
+                              </button>
+                            </span>
+                          )}
+                        </td>
+                      </tr>
+                    );
+                  })}
+                </tbody>
+              </table>
+            )}
+          </section>
+        </div>
+
+        {/* ── Mention profiles ── */}
+        <section className="card-surface p-5 space-y-4">
+          <h2 className="text-[13px] font-semibold text-stone-900">People & companies</h2>
+          <div className="grid grid-cols-1 md:grid-cols-[1fr_140px_1.3fr_1fr_auto] gap-2">
+            <input value={name} onChange={(e) => setName(e.target.value)} className={inputClass} placeholder="Display name" />
+            <select value={profileKind} onChange={(e) => setProfileKind(e.target.value as MentionKind)} className={inputClass}>
+              <option value="person">Person</option>
+              <option value="organization">Company page</option>
+            </select>
+            <input
+              value={urn}
+              onChange={(e) => setUrn(e.target.value)}
+              className={`${inputClass} font-mono text-[12px]`}
+              placeholder={profileKind === "person" ? "urn:li:person:…" : "urn:li:organization:…"}
+            />
+            <input
+              value={keywords}
+              onChange={(e) => setKeywords(e.target.value)}
+              className={inputClass}
+              placeholder="Keywords, comma separated"
+            />
+            <button onClick={handleAddProfile} disabled={!name.trim() || !urn.trim()} className={buttonClass}>
+              Save
+            </button>
+          </div>
+          {profiles.length === 0 ? (
+            <p className="text-[12px] text-stone-400">
+              Saved profiles are suggested as mentions when a post names them or one of their keywords.
+            </p>
+          ) : (
+            <table className="w-full text-[12.5px] text-stone-700">
+              <thead className="text-[11px] text-stone-500 border-b border-stone-100">
+                <tr>
+                  <th className="px-2 py-2 text-left font-medium">Name</th>
+                  <th className="px-2 py-2 text-left font-medium">Type</th>
+                  <th className="px-2 py-2 text-left font-medium">URN</th>
+                  <th className="px-2 py-2 text-left font-medium">Keywords</th>
+                  <th className="px-2 py-2" />
+                </tr>
+              </thead>
+              <tbody>
+                {profiles.map((p) => (
+                  <tr key={p.id} className="border-b border-stone-50 last:border-0">
+                    <td className="px-2 py-2 font-medium text-stone-900">{p.name}</td>
+                    <td className="px-2 py-2 text-stone-500">{p.kind === "person" ? "Person" : "Company page"}</td>
+                    <td className="px-2 py-2 font-mono text-[11px] text-stone-500">{p.urn}</td>
+                    <td className="px-2 py-2 text-stone-500">{p.keywords.join(", ") || "—"}</td>
+                    <td className="px-2 py-2 text-right">
+                      <button
+                        onClick={() => send(`/api/mentions/${p.id}`, { method: "DELETE" })}
+                        className="text-[11px] font-medium text-stone-400 hover:text-red-600"
+                      >
+                        Delete
+                      </button>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+        </section>
+      </main>
+    </div>
+  );
+}
@@ -0,0 +1,183 @@
+"use client";
+
+import { useState, useEffect } from "react";
+import Link from "next/link";
+
+/* ─── Types ──────────────────────────────────────── */
+
+interface LinkedInIdentity {
+  id: string;
+  urn: string;
+  kind: "person" | "organization";
+  name: string;
+  isDefault: boolean;
+}
+
+interface LinkedInAccount {
+  id: string;
+  name: string | null;
+  memberUrn: string;
+  expiresAt: string | null;
+  expired: boolean;
+  identities: LinkedInIdentity[];
+}
+
+interface EnvTarget {
+  urn: string;
+  name: string;
+  source: "oauth" | "env";
+}
+
+/* ─── Main Component ─────────────────────────────── */
+
+export default function LinkedInAccountsPage() {
+  const [accounts, setAccounts] = useState<LinkedInAccount[]>([]);
+  const [envTarget, setEnvTarget] = useState<EnvTarget | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState("");
+
+  async function load() {
+    try {
+      const res = await fetch("/api/linkedin/status");
+      if (!res.ok) throw new Error("Failed to load LinkedIn accounts");
+      const data: { accounts: LinkedInAccount[]; targets: EnvTarget[] } = await res.json();
+      setAccounts(data.accounts);
+      setEnvTarget(data.targets.find((t) => t.source === "env") ?? null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to load LinkedIn accounts");
+    } finally {
+      setLoading(false);
+    }
+  }
+
+  useEffect(() => {
+    load();
+  }, []);
+
+  async function send(url: string, init: RequestInit) {
+    setError("");
+    try {
+      const res = await fetch(url, {
+        ...init,
+        headers: { "Content-Type": "application/json" },
+      });
+      if (!res.ok) {
+        const err = await res.json();
+        throw new Error(err.error ?? `HTTP ${res.status}`);
+      }
+      await load();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Request failed");
+    }
+  }
+
+  async function handleDisconnect(account: LinkedInAccount) {
+    if (!confirm(`Disconnect ${account.name ?? "this LinkedIn account"} and its pages?`)) return;
+    await send(`/api/linkedin/accounts/${account.id}`, { method: "DELETE" });
+  }
+
+  async function handleToggleDefault(identity: LinkedInIdentity) {
+    await send(`/api/linkedin/identities/${identity.id}`, {
+      method: "PATCH",
+      body: JSON.stringify({ isDefault: !identity.isDefault }),
+    });
+  }
+
+  /* ─── Render ─────────────────────────────────── */
+  return (
+    <div className="min-h-screen bg-stone-100/80">
+      <header className="sticky top-0 z-50 bg-white/70 backdrop-blur-xl border-b border-stone-200/60">
+        <div className="max-w-6xl mx-auto px-6 h-14 flex items-center justify-between">
+          <span className="text-sm font-semibold tracking-tight text-stone-900">LinkedIn Accounts</span>
+          <Link href="/dashboard" className="text-[13px] text-stone-500 hover:text-stone-900 font-medium transition-colors">
+            ← Dashboard
+          </Link>
+        </div>
+      </header>
+
+      <main className="max-w-6xl mx-auto px-6 py-6 space-y-5">
+        <div className="flex items-center justify-between gap-4">
+          <p className="text-[12px] text-stone-500">
+            Posts go to the default identities unless you pick others in Preview & Publish. Company pages
+            appear for members who administer them.
+          </p>
+          <a
+            href="/api/linkedin/auth"
+            className="shrink-0 h-9 px-4 inline-flex items-center bg-stone-900 hover:bg-stone-800 text-white text-[13px] font-medium rounded-lg transition-colors"
+          >
+            {accounts.length ? "Connect another account" : "Connect LinkedIn"}
+          </a>
+        </div>
+
+        {error && (
+          <div className="rounded-lg px-4 py-2.5 text-[13px] font-medium bg-red-50 text-red-700 border border-red-200/60">
+            {error}
+          </div>
+        )}
+
+        {!loading && accounts.length === 0 && !envTarget && (
+          <p className="text-center text-[13px] text-stone-400 py-10">
+            No LinkedIn account connected — publishing is a dry run until you connect one.
+          </p>
+        )}
+
+        <div className="space-y-3">
+          {accounts.map((account) => (
+            <section key={account.id} className="card-surface p-4 space-y-3">
+              <div className="flex items-center gap-2">
+                <span className="text-[13px] font-semibold text-stone-900">{account.name ?? account.memberUrn}</span>
+                {account.expired ? (
+                  <a href="/api/linkedin/auth" className="text-[10px] font-medium px-1.5 py-0.5 rounded bg-amber-50 text-amber-700">
+                    expired — reconnect
+                  </a>
+                ) : (
+                  account.expiresAt && (
+                    <span className="text-[11px] text-stone-400">
+                      token valid until {new Date(account.expiresAt).toLocaleDateString()}
+                    </span>
+                  )
+                )}
+                <button
+                  onClick={() => handleDisconnect(account)}
+                  className="ml-auto text-[12px] font-medium text-stone-400 hover:text-red-600"
+                >
+                  Disconnect
+                </button>
+              </div>
+              <ul className="divide-y divide-stone-100">
+                {account.identities.map((identity) => (
+                  <li key={identity.id} className="flex items-center gap-2 py-2">
+                    <span className="text-[13px] text-stone-800">{identity.name}</span>
+                    <span className="text-[10px] font-medium px-1.5 py-0.5 rounded bg-stone-100 text-stone-500">
+                      {identity.kind === "organization" ? "page" : "member"}
+                    </span>
+                    <label className="ml-auto flex items-center gap-1.5 text-[12px] text-stone-500">
+                      <input
+                        type="checkbox"
+                        checked={identity.isDefault}
+                        onChange={() => handleToggleDefault(identity)}
+                        className="accent-stone-900"
+                      />
+                      Default
+                    </label>
+                  </li>
+                ))}
+              </ul>
+            </section>
+          ))}
+
+          {envTarget && (
+            <section className="card-surface p-4">
+              <p className="text-[13px] text-stone-800">
+                {envTarget.name}{" "}
+                <span className="text-[11px] text-stone-400">
+                  · from LINKEDIN_ACCESS_TOKEN and LINKEDIN_AUTHOR_URN
+                </span>
+              </p>
+            </section>
+          )}
+        </div>
+      </main>
+    </div>
+  );
+}
@@ -1,18 +1,110 @@
 "use client";
 
 import { useState, useEffect, useMemo } from "react";
+import Link from "next/link";
+import { formatEmphasis, type EmphasisStyle } from "@/lib/commentary";
+import { formatCost, formatLatency } from "@/lib/format";
+import { FORMAT_LABELS, POST_FORMATS, type PostFormat, type StructuredPost } from "@/lib/formats";
+import { insertHashtag, insertMention } from "@/lib/hashtags";
+import { LANGUAGE_CODES, LANGUAGES, type Language } from "@/lib/languages";
+import type { LintSeverity, LintWarning } from "@/lib/lint";
+import { MAX_POST_IMAGES, type PostMedia } from "@/lib/media";
+import { missingVariables, renderTemplate, templateVariables, variableLabel } from "@/lib/templates";
+import { iterateStream, parseSSE } from "@/lib/sse";
 
 /* ─── Types ──────────────────────────────────────── */
 
-type Model = "openai" | "gemini" | "claude" | "geminiDirect" | "groq";
+interface Variant {
+  id: string;
+  modelId: string;
+  modelName: string;
+  vendor: string;
+  model: string;
+  format: PostFormat;
+  structured: StructuredPost | null;
+  usedFallback: boolean;
+  text: string | null;
+  error: string | null;
+  errorStatus: number | null;
+  attempts: number;
+  latencyMs: number | null;
+  costUsd: number | null;
+  parentId: string | null;
+  instruction: string | null;
+  score: number | null;
+  scoreDetails: { scores: Record<string, number>; rationale: string } | null;
+}
+
+/** One output card — streamed text until the persisted variant arrives */
+interface Slot {
+  key: string;
+  modelName: string;
+  vendor: string;
+  /** 1-based sample number when a model runs more than once */
+  sample: number;
+  partial: string;
+  variant: Variant | null;
+  revisions: Variant[];
+}
+
+interface ModelOption {
+  id: string;
+  name: string;
+  vendor: string;
+}
+
+/** The generated variant followed by its refinements, oldest first */
+function variantChain(slot: Slot): Variant[] {
+  return slot.variant ? [slot.variant, ...slot.revisions] : [];
+}
+
+const REFINE_PRESETS = [
+  "Make it shorter",
+  "Stronger opening hook",
+  "Add a clear call to action",
+  "More conversational",
+  "Add a concrete example",
+];
+
+interface SourceInfo {
+  id: string;
+  kind: string;
+  name: string;
+  summary: string;
+  charCount: number;
+}
 
-interface GenerateResponse {
+interface VoiceOption {
   id: string;
-  openai: string;
-  gemini: string;
-  claude: string;
-  geminiDirect: string;
-  groq: string;
+  name: string;
+}
+
+interface PromptTemplate {
+  id: string;
+  name: string;
+  body: string;
+  format: PostFormat;
+  voiceProfileId: string | null;
+}
+
+interface Suggestions {
+  hashtags: { tag: string; source: "allowed" | "history" | "suggested"; uses: number }[];
+  mentions: { profile: { id: string; name: string; kind: string; urn: string }; markup: string }[];
+}
+
+interface PublishTargetOption {
+  urn: string;
+  kind: "person" | "organization";
+  name: string;
+  isDefault: boolean;
+  /** oauth: connected account · env: LINKEDIN_ACCESS_TOKEN fallback */
+  source: "oauth" | "env";
+}
+
+interface LinkedInStatus {
+  connected: boolean;
+  accounts: { id: string; name: string | null; expired: boolean }[];
+  targets: PublishTargetOption[];
 }
 
 interface CanvaDesign {
@@ -21,51 +113,50 @@ interface CanvaDesign {
   thumbnail?: { url: string; width: number; height: number };
 }
 
-const MODEL_LABELS: Record<
-  Model,
-  { name: string; tag: string; border: string; bg: string; text: string; dot: string }
-> = {
-  openai: {
-    name: "GPT-OSS 120B",
-    tag: "OpenAI",
-    border: "border-emerald-400",
-    bg: "bg-emerald-50",
-    text: "text-emerald-700",
-    dot: "bg-emerald-500",
-  },
-  gemini: {
-    name: "Gemma 3 27B",
-    tag: "Google",
-    border: "border-sky-400",
-    bg: "bg-sky-50",
-    text: "text-sky-700",
-    dot: "bg-sky-500",
-  },
-  claude: {
-    name: "GLM 4.5 Air",
-    tag: "Zhipu AI",
-    border: "border-amber-400",
-    bg: "bg-amber-50",
-    text: "text-amber-700",
-    dot: "bg-amber-500",
-  },
-  geminiDirect: {
-    name: "Gemini 2.0 Flash",
-    tag: "Google",
-    border: "border-violet-400",
-    bg: "bg-violet-50",
-    text: "text-violet-700",
-    dot: "bg-violet-500",
-  },
-  groq: {
-    name: "Llama 3.3 70B",
-    tag: "Groq",
-    border: "border-rose-400",
-    bg: "bg-rose-50",
-    text: "text-rose-700",
-    dot: "bg-rose-500",
-  },
-};
+/** A Canva design exported for the post: one PNG per page, or one PDF */
+interface DesignAttachment {
+  design: CanvaDesign;
+  format: "png" | "pdf";
+  urls: string[];
+  exportedAt: string;
+}
+
+/** What the attached designs post as: the PDF as a carousel, else every PNG page */
+function attachmentMedia(attachments: DesignAttachment[]): PostMedia | null {
+  const pdf = attachments.find((a) => a.format === "pdf");
+  if (pdf) {
+    return { kind: "document", url: pdf.urls[0], title: pdf.design.title || "Document", exportedAt: pdf.exportedAt };
+  }
+  const urls = attachments.flatMap((a) => a.urls);
+  // The oldest export's links expire first
+  const exportedAt = attachments.map((a) => a.exportedAt).sort()[0];
+  return urls.length ? { kind: "image", urls, exportedAt } : null;
+}
+
+/** Card accents, assigned to models in registry order */
+const MODEL_COLORS: { border: string; bg: string; text: string; dot: string }[] = [
+  { border: "border-emerald-400", bg: "bg-emerald-50", text: "text-emerald-700", dot: "bg-emerald-500" },
+  { border: "border-sky-400", bg: "bg-sky-50", text: "text-sky-700", dot: "bg-sky-500" },
+  { border: "border-amber-400", bg: "bg-amber-50", text: "text-amber-700", dot: "bg-amber-500" },
+  { border: "border-violet-400", bg: "bg-violet-50", text: "text-violet-700", dot: "bg-violet-500" },
+  { border: "border-rose-400", bg: "bg-rose-50", text: "text-rose-700", dot: "bg-rose-500" },
+  { border: "border-teal-400", bg: "bg-teal-50", text: "text-teal-700", dot: "bg-teal-500" },
+  { border: "border-orange-400", bg: "bg-orange-50", text: "text-orange-700", dot: "bg-orange-500" },
+];
+
+function modelColor(index: number) {
+  return MODEL_COLORS[index % MODEL_COLORS.length];
+}
+
+/** "Amisha Sharma" → "AS" */
+function initials(name: string): string {
+  return name
+    .split(/\s+/)
+    .filter(Boolean)
+    .slice(0, 2)
+    .map((w) => w[0].toUpperCase())
+    .join("");
+}
 
 const STEPS = [
   { label: "Generate", icon: "M9.663 17h4.673M12 3v1m6.364 1.636l-.707.707M21 12h-1M4 12H3m3.343-5.657l-.707-.707m2.828 9.9a5 5 0 117.072 0l-.548.547A3.374 3.374 0 0014 18.469V19a2 2 0 11-4 0v-.531c0-.895-.356-1.754-.988-2.386l-.548-.547z" },
@@ -74,6 +165,12 @@ const STEPS = [
   { label: "Publish", icon: "M12 19l9 2-9-18-9 18 9-2zm0 0v-8" },
 ];
 
+const LINT_STYLES: Record<LintSeverity, string> = {
+  error: "bg-red-50 text-red-600",
+  warning: "bg-amber-50 text-amber-700",
+  info: "bg-stone-100 text-stone-500",
+};
+
 /* ─── Markdown-like text formatter ─────────────── */
 
 function FormatText({ text }: { text: string }) {
@@ -83,18 +180,24 @@ function FormatText({ text }: { text: string }) {
     const elements: React.ReactNode[] = [];
 
     lines.forEach((line, li) => {
-      // Process inline **bold**
+      // Process inline **bold** and @[Name](urn) mentions
       const processInline = (s: string): React.ReactNode[] => {
         const out: React.ReactNode[] = [];
-        const re = /\*\*(.+?)\*\*/g;
+        const re = /\*\*(.+?)\*\*|@\[([^\]]+)\]\((urn:li:[^)\s]+)\)/g;
         let last = 0;
         let m: RegExpExecArray | null;
         while ((m = re.exec(s))) {
           if (m.index > last) out.push(s.slice(last, m.index));
           out.push(
-            <strong key={`${li}-${m.index}`} className="font-semibold text-stone-900">
-              {m[1]}
-            </strong>
+            m[2] ? (
+              <span key={`${li}-${m.index}`} className="font-semibold text-sky-700" title={m[3]}>
+                {m[2]}
+              </span>
+            ) : (
+              <strong key={`${li}-${m.index}`} className="font-semibold text-stone-900">
+                {m[1]}
+              </strong>
+            )
           );
           last = m.index + m[0].length;
         }
@@ -148,31 +251,131 @@ function FormatText({ text }: { text: string }) {
   return <div className="formatted-text">{parts}</div>;
 }
 
+/* ─── Format-aware post body ─────────────────────── */
+
+/** Post text plus what LinkedIn shows beneath it for polls and carousels */
+function PostBody({ text, structured }: { text: string; structured: StructuredPost | null }) {
+  return (
+    <>
+      <FormatText text={text} />
+      {structured?.format === "poll" && (
+        <div className="mt-3 rounded-lg border border-stone-200 p-3 space-y-2">
+          <p className="text-[12.5px] font-semibold text-stone-900">{structured.question}</p>
+          {structured.options.map((option) => (
+            <div
+              key={option}
+              className="rounded-full border border-stone-300 px-3 py-1.5 text-center text-[12px] font-medium text-stone-700"
+            >
+              {option}
+            </div>
+          ))}
+          <p className="text-[11px] text-stone-400">Poll · 3 days</p>
+        </div>
+      )}
+      {structured?.format === "carousel" && (
+        <div className="mt-3 flex gap-2 overflow-x-auto pb-1">
+          <div className="shrink-0 w-40 aspect-square rounded-lg bg-stone-900 p-3 flex items-end">
+            <p className="text-[13px] font-semibold text-white leading-snug">{structured.title}</p>
+          </div>
+          {structured.slides.map((slide, i) => (
+            <div key={i} className="shrink-0 w-40 aspect-square rounded-lg border border-stone-200 bg-stone-50 p-3 flex flex-col">
+              <span className="text-[10px] text-stone-400 tabular-nums">{i + 1} / {structured.slides.length}</span>
+              <p className="mt-1 text-[12px] font-semibold text-stone-900 leading-snug">{slide.heading}</p>
+              <p className="mt-1 text-[11px] text-stone-600 leading-snug overflow-hidden">{slide.body}</p>
+            </div>
+          ))}
+        </div>
+      )}
+    </>
+  );
+}
+
 /* ─── Main Component ─────────────────────────────── */
 
 export default function DashboardPage() {
   const [step, setStep] = useState(0);
   const [prompt, setPrompt] = useState("");
-  const [outputs, setOutputs] = useState<GenerateResponse | null>(null);
-  const [selected, setSelected] = useState<Model | null>(null);
+  const [voices, setVoices] = useState<VoiceOption[]>([]);
+  const [voiceId, setVoiceId] = useState("");
+  const [templates, setTemplates] = useState<PromptTemplate[]>([]);
+  const [template, setTemplate] = useState<PromptTemplate | null>(null);
+  const [templateValues, setTemplateValues] = useState<Record<string, string>>({});
+  const [sources, setSources] = useState<SourceInfo[]>([]);
+  const [uploadingSource, setUploadingSource] = useState(false);
+  const [pasteOpen, setPasteOpen] = useState(false);
+  const [pasteText, setPasteText] = useState("");
+  const [draftId, setDraftId] = useState<string | null>(null);
+  const [slots, setSlots] = useState<Slot[]>([]);
+  const [selected, setSelected] = useState<string | null>(null);
+  const [models, setModels] = useState<ModelOption[]>([]);
+  const [settingsOpen, setSettingsOpen] = useState(false);
+  const [runModelIds, setRunModelIds] = useState<string[]>([]);
+  const [samples, setSamples] = useState(1);
+  const [temperature, setTemperature] = useState<number | null>(null);
+  const [maxTokens, setMaxTokens] = useState(800);
+  const [styleExamples, setStyleExamples] = useState(3);
+  const [format, setFormat] = useState<PostFormat>("post");
+  const [draftFormat, setDraftFormat] = useState<PostFormat>("post");
+  const [language, setLanguage] = useState<Language>("en");
+  const [draftLanguage, setDraftLanguage] = useState<Language>("en");
+  const [translateTo, setTranslateTo] = useState<Language[]>([]);
+  const [translating, setTranslating] = useState(false);
+  const [translations, setTranslations] = useState<{ id: string; language: Language; variant: Variant }[]>([]);
+  const [refineInstruction, setRefineInstruction] = useState("");
+  const [refineModelId, setRefineModelId] = useState("");
+  const [refining, setRefining] = useState(false);
+  const [judge, setJudge] = useState(false);
+  const [judging, setJudging] = useState(false);
+  const [sortByScore, setSortByScore] = useState(true);
+  const [mergeMode, setMergeMode] = useState(false);
+  const [mergeIds, setMergeIds] = useState<string[]>([]);
+  const [mergeGuidance, setMergeGuidance] = useState("");
+  const [mergeModelId, setMergeModelId] = useState("");
+  const [synthesizing, setSynthesizing] = useState(false);
   const [generating, setGenerating] = useState(false);
   const [publishing, setPublishing] = useState(false);
   const [published, setPublished] = useState(false);
+  const [scheduleAt, setScheduleAt] = useState("");
+  const [scheduling, setScheduling] = useState(false);
+  const [scheduledFor, setScheduledFor] = useState<string | null>(null);
+  const [lint, setLint] = useState<{ warnings: LintWarning[]; blocked: boolean } | null>(null);
+  // Preview-step edits (inserted hashtags/mentions) to the selected variant's text
+  const [edit, setEdit] = useState<{ variantId: string; text: string } | null>(null);
+  const [suggestions, setSuggestions] = useState<Suggestions | null>(null);
+  const [suggesting, setSuggesting] = useState(false);
   const [status, setStatus] = useState<{
     type: "success" | "error" | "info";
     message: string;
   } | null>(null);
 
+  const [linkedin, setLinkedin] = useState<LinkedInStatus | null>(null);
+  const [targetUrns, setTargetUrns] = useState<string[]>([]);
+  const [emphasis, setEmphasis] = useState<EmphasisStyle>("strip");
+
   // Canva
   const [canvaConnected, setCanvaConnected] = useState(false);
   const [canvaChecking, setCanvaChecking] = useState(true);
   const [designs, setDesigns] = useState<CanvaDesign[]>([]);
   const [continuation, setContinuation] = useState<string | null>(null);
   const [loadingDesigns, setLoadingDesigns] = useState(false);
-  const [selectedDesign, setSelectedDesign] = useState<CanvaDesign | null>(null);
-  const [exportedImageUrl, setExportedImageUrl] = useState<string | null>(null);
+  const [exportFormat, setExportFormat] = useState<"png" | "pdf">("png");
+  const [attachments, setAttachments] = useState<DesignAttachment[]>([]);
   const [exporting, setExporting] = useState(false);
 
+  useEffect(() => {
+    (async () => {
+      try {
+        const res = await fetch("/api/linkedin/status");
+        const data: LinkedInStatus = await res.json();
+        setLinkedin(data);
+        const defaults = data.targets.filter((t) => t.isDefault);
+        setTargetUrns((defaults.length ? defaults : data.targets.slice(0, 1)).map((t) => t.urn));
+      } catch {
+        setLinkedin({ connected: false, accounts: [], targets: [] });
+      }
+    })();
+  }, []);
+
   useEffect(() => {
     (async () => {
       try {
@@ -187,6 +390,43 @@ export default function DashboardPage() {
     })();
   }, []);
 
+  useEffect(() => {
+    (async () => {
+      try {
+        const res = await fetch("/api/models");
+        if (res.ok) {
+          const list: ModelOption[] = await res.json();
+          setModels(list);
+          setRunModelIds(list.map((m) => m.id));
+        }
+      } catch {
+        setModels([]);
+      }
+    })();
+  }, []);
+
+  useEffect(() => {
+    (async () => {
+      try {
+        const res = await fetch("/api/voices");
+        if (res.ok) setVoices(await res.json());
+      } catch {
+        setVoices([]);
+      }
+    })();
+  }, []);
+
+  useEffect(() => {
+    (async () => {
+      try {
+        const res = await fetch("/api/templates");
+        if (res.ok) setTemplates(await res.json());
+      } catch {
+        setTemplates([]);
+      }
+    })();
+  }, []);
+
   useEffect(() => {
     const params = new URLSearchParams(window.location.search);
     if (params.get("canva_connected") === "true") {
@@ -199,35 +439,117 @@ export default function DashboardPage() {
       setStatus({ type: "error", message: `Canva connection failed: ${err}` });
       window.history.replaceState({}, "", "/dashboard");
     }
+    if (params.get("linkedin_connected") === "true") {
+      setStatus({ type: "success", message: "LinkedIn account connected successfully." });
+      window.history.replaceState({}, "", "/dashboard");
+    }
+    const linkedinErr = params.get("linkedin_error");
+    if (linkedinErr) {
+      setStatus({ type: "error", message: `LinkedIn connection failed: ${linkedinErr}` });
+      window.history.replaceState({}, "", "/dashboard");
+    }
   }, []);
 
   /* ── Handlers ────────────────────────────────── */
 
+  /** Start from a saved template: apply its defaults and fill its variables in a form */
+  function handlePickTemplate(id: string) {
+    const picked = templates.find((t) => t.id === id) ?? null;
+    setTemplate(picked);
+    setTemplateValues({});
+    if (!picked) return;
+    setPrompt(renderTemplate(picked.body, {}));
+    setFormat(picked.format);
+    if (picked.voiceProfileId && voices.some((v) => v.id === picked.voiceProfileId)) {
+      setVoiceId(picked.voiceProfileId);
+    }
+  }
+
+  function handleTemplateValue(name: string, value: string) {
+    if (!template) return;
+    const next = { ...templateValues, [name]: value };
+    setTemplateValues(next);
+    setPrompt(renderTemplate(template.body, next));
+  }
+
   async function handleGenerate() {
-    if (!prompt.trim()) return;
+    if (!prompt.trim() || (template && missingVariables(template.body, templateValues).length > 0)) return;
     setGenerating(true);
-    setOutputs(null);
+    setDraftId(null);
+    setSlots([]);
     setSelected(null);
-    setSelectedDesign(null);
-    setExportedImageUrl(null);
+    setAttachments([]);
     setPublished(false);
+    setScheduledFor(null);
     setStep(0);
-    setStatus({ type: "info", message: "Generating content from 5 AI models in parallel…" });
+    setStatus({
+      type: "info",
+      message: runModelIds.length
+        ? `Generating ${runModelIds.length * samples} outputs from ${runModelIds.length} models in parallel…`
+        : "Generating content from all models in parallel…",
+    });
 
     try {
       const res = await fetch("/api/generate", {
         method: "POST",
         headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({ prompt }),
+        body: JSON.stringify({
+          prompt,
+          voiceProfileId: voiceId || undefined,
+          sourceIds: sources.map((src) => src.id),
+          stream: true,
+          judge,
+          modelIds: runModelIds.length > 0 ? runModelIds : undefined,
+          samples,
+          temperature: temperature ?? undefined,
+          maxTokens,
+          styleExamples,
+          format,
+          language,
+        }),
       });
-      if (!res.ok) {
-        const err = await res.json();
+      if (!res.ok || !res.body) {
+        const err = await res.json().catch(() => ({}));
         throw new Error(err.error ?? `HTTP ${res.status}`);
       }
-      const data: GenerateResponse = await res.json();
-      setOutputs(data);
-      setStep(1);
-      setStatus({ type: "success", message: "All 5 models responded. Choose the version you prefer." });
+
+      let slotCount = 0;
+      for await (const { event, data } of parseSSE(iterateStream(res.body))) {
+        const payload = JSON.parse(data);
+        if (event === "draft") {
+          slotCount = payload.slots.length;
+          setDraftId(payload.id);
+          setDraftFormat(payload.format);
+          setDraftLanguage(language);
+          setTranslations([]);
+          setSlots(
+            payload.slots.map((slot: Pick<Slot, "key" | "modelName" | "vendor" | "sample">) => ({
+              ...slot,
+              partial: "",
+              variant: null,
+              revisions: [],
+            }))
+          );
+          setStep(1);
+        } else if (event === "token") {
+          setSlots((prev) =>
+            prev.map((slot) =>
+              slot.key === payload.key ? { ...slot, partial: slot.partial + payload.delta } : slot
+            )
+          );
+        } else if (event === "variant") {
+          setSlots((prev) =>
+            prev.map((slot) => (slot.key === payload.key ? { ...slot, variant: payload.variant } : slot))
+          );
+        } else if (event === "scores") {
+          if (payload.variants) applyScores(payload.variants);
+          else setStatus({ type: "error", message: `Ranking failed: ${payload.judgeError}` });
+        } else if (event === "error") {
+          throw new Error(payload.error);
+        } else if (event === "done") {
+          setStatus({ type: "success", message: `All ${slotCount} outputs are in. Choose the version you prefer.` });
+        }
+      }
     } catch (err) {
       setStatus({ type: "error", message: err instanceof Error ? err.message : "Generation failed." });
     } finally {
@@ -235,12 +557,169 @@ export default function DashboardPage() {
     }
   }
 
-  function handleModelSelect(model: Model) {
-    setSelected(model);
+  /** Upload a file or pasted text as grounding material */
+  async function handleAddSource(input: File | string) {
+    setUploadingSource(true);
+    setStatus({ type: "info", message: "Reading and summarizing source…" });
+    try {
+      let res: Response;
+      if (typeof input === "string") {
+        res = await fetch("/api/sources", {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({
+            kind: /^\s*</.test(input) ? "html" : "text",
+            content: input,
+          }),
+        });
+      } else {
+        const form = new FormData();
+        form.append("file", input);
+        res = await fetch("/api/sources", { method: "POST", body: form });
+      }
+      if (!res.ok) {
+        const err = await res.json();
+        if (err.content) {
+          // Summarizing failed — keep the extracted text to retry from
+          setPasteText(err.content);
+          setPasteOpen(true);
+        }
+        throw new Error(err.error ?? `HTTP ${res.status}`);
+      }
+      const source: SourceInfo = await res.json();
+      setSources((prev) => [...prev, source]);
+      setPasteText("");
+      setPasteOpen(false);
+      setStatus({ type: "success", message: `Source “${source.name}” attached.` });
+    } catch (err) {
+      setStatus({ type: "error", message: err instanceof Error ? err.message : "Failed to add source." });
+    } finally {
+      setUploadingSource(false);
+    }
+  }
+
+  function handleVariantSelect(variantId: string) {
+    setSelected(variantId);
     setStep(2);
     if (canvaConnected && designs.length === 0) loadDesigns();
   }
 
+  /** Merge judged variants back into their cards */
+  function applyScores(judged: Variant[]) {
+    setSlots((prev) =>
+      prev.map((slot) => {
+        const updated = slot.variant && judged.find((v) => v.id === slot.variant!.id);
+        return updated ? { ...slot, variant: updated } : slot;
+      })
+    );
+  }
+
+  async function handleJudge() {
+    if (!draftId) return;
+    setJudging(true);
+    setStatus({ type: "info", message: "Ranking outputs with the AI judge…" });
+    try {
+      const res = await fetch("/api/judge", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ draftId }),
+      });
+      if (!res.ok) {
+        const err = await res.json();
+        throw new Error(err.error ?? `HTTP ${res.status}`);
+      }
+      const data = await res.json();
+      applyScores(data.variants);
+      setStatus({ type: "success", message: "Outputs ranked. Hover a score for the judge's notes." });
+    } catch (err) {
+      setStatus({ type: "error", message: err instanceof Error ? err.message : "Ranking failed." });
+    } finally {
+      setJudging(false);
+    }
+  }
+
+  function toggleMerge(variantId: string) {
+    setMergeIds((prev) =>
+      prev.includes(variantId) ? prev.filter((id) => id !== variantId) : [...prev, variantId]
+    );
+  }
+
+  async function handleSynthesize() {
+    if (!draftId || mergeIds.length < 2) return;
+    setSynthesizing(true);
+    setStatus({ type: "info", message: `Combining ${mergeIds.length} outputs…` });
+    try {
+      const res = await fetch("/api/synthesize", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          draftId,
+          variantIds: mergeIds,
+          guidance: mergeGuidance.trim() || undefined,
+          modelId: mergeModelId || undefined,
+        }),
+      });
+      if (!res.ok) {
+        const err = await res.json();
+        throw new Error(err.error ?? `HTTP ${res.status}`);
+      }
+      const variant: Variant = await res.json();
+      setSlots((prev) => [
+        ...prev,
+        { key: variant.id, modelName: "Synthesis", vendor: variant.modelName, sample: 1, partial: "", variant, revisions: [] },
+      ]);
+      setMergeMode(false);
+      setMergeIds([]);
+      setMergeGuidance("");
+      handleVariantSelect(variant.id);
+      setStatus({ type: "success", message: "Merged post ready." });
+    } catch (err) {
+      setStatus({ type: "error", message: err instanceof Error ? err.message : "Synthesis failed." });
+    } finally {
+      setSynthesizing(false);
+    }
+  }
+
+  async function handleRefine(instruction: string) {
+    if (!selectedVariant || !instruction.trim()) return;
+    setRefining(true);
+    setStatus({ type: "info", message: "Refining selected post…" });
+    try {
+      const res = await fetch("/api/refine", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          variantId: selectedVariant.id,
+          instruction,
+          modelId: refineModelId || undefined,
+        }),
+      });
+      if (!res.ok) {
+        const err = await res.json();
+        throw new Error(err.error ?? `HTTP ${res.status}`);
+      }
+      const revision: Variant = await res.json();
+      setSlots((prev) =>
+        prev.map((slot, i) =>
+          i === selectedIndex ? { ...slot, revisions: [...slot.revisions, revision] } : slot
+        )
+      );
+      setSelected(revision.id);
+      setRefineInstruction("");
+      setStatus({ type: "success", message: "Revision ready. Step back with ← to compare." });
+    } catch (err) {
+      setStatus({ type: "error", message: err instanceof Error ? err.message : "Refinement failed." });
+    } finally {
+      setRefining(false);
+    }
+  }
+
+  /** Move the selection along the current card's revision history */
+  function stepRevision(delta: number) {
+    const next = selectedChain[selectedPosition + delta];
+    if (next) setSelected(next.id);
+  }
+
   async function loadDesigns(cont?: string) {
     setLoadingDesigns(true);
     try {
@@ -257,40 +736,58 @@ export default function DashboardPage() {
     }
   }
 
+  /** Attach a design in the chosen format, or detach it if already attached */
   async function handleDesignSelect(design: CanvaDesign) {
-    setSelectedDesign(design);
+    if (attachments.some((a) => a.design.id === design.id)) {
+      setAttachments((prev) => prev.filter((a) => a.design.id !== design.id));
+      return;
+    }
+    const format = exportFormat;
     setExporting(true);
-    setStatus({ type: "info", message: "Exporting design from Canva…" });
+    setStatus({ type: "info", message: `Exporting design from Canva as ${format.toUpperCase()}…` });
     try {
       const res = await fetch("/api/canva/export", {
         method: "POST",
         headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({ designId: design.id }),
+        body: JSON.stringify({ designId: design.id, format }),
       });
-      if (!res.ok) throw new Error("Export failed");
-      const data = await res.json();
-      setExportedImageUrl(data.imageUrl);
+      if (!res.ok) throw new Error("Failed to export design from Canva.");
+      const data: { urls: string[]; exportedAt: string } = await res.json();
+      const attachment = { design, format, urls: data.urls, exportedAt: data.exportedAt };
+
+      if (format === "pdf") {
+        // A document post carries nothing else
+        setAttachments([attachment]);
+        setStatus({ type: "success", message: "PDF exported — it will post as a swipeable carousel." });
+      } else {
+        const images = attachments.filter((a) => a.format === "png");
+        if (images.flatMap((a) => a.urls).length + data.urls.length > MAX_POST_IMAGES) {
+          throw new Error(`LinkedIn posts can have at most ${MAX_POST_IMAGES} images.`);
+        }
+        setAttachments([...images, attachment]);
+        setStatus({
+          type: "success",
+          message: `Design exported (${data.urls.length} page${data.urls.length > 1 ? "s" : ""}). Attach more or review your post below.`,
+        });
+      }
       setStep(3);
-      setStatus({ type: "success", message: "Design exported. Review your post below." });
-    } catch {
-      setStatus({ type: "error", message: "Failed to export design from Canva." });
-      setSelectedDesign(null);
+    } catch (err) {
+      setStatus({ type: "error", message: err instanceof Error ? err.message : "Failed to export design from Canva." });
     } finally {
       setExporting(false);
     }
   }
 
   function handleSkipDesign() {
-    setSelectedDesign(null);
-    setExportedImageUrl(null);
+    setAttachments([]);
     setStep(3);
     setStatus(null);
   }
 
   async function handlePublish() {
-    if (!outputs || !selected) return;
-    const text = outputs[selected];
-    if (!text || text.startsWith("[")) {
+    if (!draftId || !selected) return;
+    const text = selectedText;
+    if (!text || selectedVariant?.error) {
       setStatus({ type: "error", message: "Selected model returned an error." });
       return;
     }
@@ -301,20 +798,24 @@ export default function DashboardPage() {
         method: "POST",
         headers: { "Content-Type": "application/json" },
         body: JSON.stringify({
-          draftId: outputs.id,
-          selectedModel: selected,
+          draftId,
+          variantId: selected,
           text,
-          imageUrl: exportedImageUrl ?? undefined,
+          media: media ?? undefined,
+          targetUrns,
+          emphasis,
         }),
       });
       if (!res.ok) {
         const err = await res.json();
+        if (err.warnings) setLint({ warnings: err.warnings, blocked: true });
         throw new Error(err.error ?? `HTTP ${res.status}`);
       }
       const data = await res.json();
-      setPublished(!data.dryRun);
+      // After a partial failure, publishing again retries only the failed targets
+      setPublished(!data.dryRun && data.failed.length === 0);
       setStatus({
-        type: data.dryRun ? "info" : "success",
+        type: data.dryRun ? "info" : data.failed.length > 0 ? "error" : "success",
         message: data.message ?? "Published successfully!",
       });
     } catch (err) {
@@ -324,18 +825,191 @@ export default function DashboardPage() {
     }
   }
 
+  async function handleSchedule() {
+    if (!draftId || !selected || !scheduleAt) return;
+    const text = selectedText;
+    if (!text || selectedVariant?.error) {
+      setStatus({ type: "error", message: "Selected model returned an error." });
+      return;
+    }
+    setScheduling(true);
+    try {
+      const res = await fetch("/api/publish-jobs", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          draftId,
+          variantId: selected,
+          text,
+          media: media ?? undefined,
+          targetUrns,
+          emphasis,
+          scheduledAt: new Date(scheduleAt).toISOString(),
+        }),
+      });
+      if (!res.ok) {
+        const err = await res.json();
+        if (err.warnings) setLint({ warnings: err.warnings, blocked: true });
+        throw new Error(err.details?.fieldErrors?.scheduledAt?.[0] ?? err.error ?? `HTTP ${res.status}`);
+      }
+      const job = await res.json();
+      setScheduledFor(job.scheduledAt);
+      setStatus({ type: "success", message: `Scheduled for ${new Date(job.scheduledAt).toLocaleString()}.` });
+    } catch (err) {
+      setStatus({ type: "error", message: err instanceof Error ? err.message : "Scheduling failed." });
+    } finally {
+      setScheduling(false);
+    }
+  }
+
+  async function handleSuggest() {
+    setSuggesting(true);
+    try {
+      const res = await fetch("/api/suggestions", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ text: selectedText }),
+      });
+      if (!res.ok) {
+        const err = await res.json();
+        throw new Error(err.error ?? `HTTP ${res.status}`);
+      }
+      setSuggestions(await res.json());
+    } catch (err) {
+      setStatus({ type: "error", message: err instanceof Error ? err.message : "Suggestions failed." });
+    } finally {
+      setSuggesting(false);
+    }
+  }
+
+  function handleInsertHashtag(tag: string) {
+    if (!selected) return;
+    setEdit({ variantId: selected, text: insertHashtag(selectedText, tag) });
+    setSuggestions((prev) => prev && { ...prev, hashtags: prev.hashtags.filter((h) => h.tag !== tag) });
+  }
+
+  function handleInsertMention(profile: Suggestions["mentions"][number]["profile"]) {
+    if (!selected) return;
+    setEdit({ variantId: selected, text: insertMention(selectedText, profile) });
+    setSuggestions((prev) => prev && { ...prev, mentions: prev.mentions.filter((m) => m.profile.id !== profile.id) });
+  }
+
+  async function handleTranslate() {
+    if (!draftId || !selected || translateTo.length === 0) return;
+    setTranslating(true);
+    setStatus({ type: "info", message: `Translating into ${translateTo.map((l) => LANGUAGES[l]).join(", ")}…` });
+    try {
+      const res = await fetch(`/api/drafts/${draftId}/translate`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ languages: translateTo, variantId: selected, text: selectedText }),
+      });
+      if (!res.ok) {
+        const err = await res.json();
+        throw new Error(err.error ?? `HTTP ${res.status}`);
+      }
+      const data: { drafts: { id: string; language: Language; variants: Variant[] }[]; errors: string[] } =
+        await res.json();
+      setTranslations((prev) => [
+        ...prev.filter((t) => !data.drafts.some((d) => d.language === t.language)),
+        ...data.drafts.map((d) => ({ id: d.id, language: d.language, variant: d.variants[0] })),
+      ]);
+      setTranslateTo([]);
+      setStatus(
+        data.errors.length > 0
+          ? { type: "error", message: `Some translations failed — ${data.errors.join("; ")}` }
+          : { type: "success", message: "Translations saved as linked drafts." }
+      );
+    } catch (err) {
+      setStatus({ type: "error", message: err instanceof Error ? err.message : "Translation failed." });
+    } finally {
+      setTranslating(false);
+    }
+  }
+
+  /** Switch the preview to a translated draft so it can be published on its own */
+  function handleOpenTranslation(translation: { id: string; language: Language; variant: Variant }) {
+    setDraftId(translation.id);
+    setDraftFormat(translation.variant.format);
+    setDraftLanguage(translation.language);
+    setSlots([
+      {
+        key: translation.variant.id,
+        modelName: `${LANGUAGES[translation.language]} translation`,
+        vendor: translation.variant.modelName,
+        sample: 1,
+        partial: "",
+        variant: translation.variant,
+        revisions: [],
+      },
+    ]);
+    setSelected(translation.variant.id);
+    setTranslations([]);
+    setEdit(null);
+    setSuggestions(null);
+    setLint(null);
+    setPublished(false);
+    setScheduledFor(null);
+    setStatus(null);
+  }
+
   function handleStartOver() {
     setStep(0);
     setPrompt("");
-    setOutputs(null);
+    setSources([]);
+    setDraftId(null);
+    setSlots([]);
     setSelected(null);
-    setSelectedDesign(null);
-    setExportedImageUrl(null);
+    setAttachments([]);
     setPublished(false);
+    setScheduledFor(null);
+    setLint(null);
+    setEdit(null);
+    setSuggestions(null);
+    setTranslations([]);
+    setTranslateTo([]);
     setStatus(null);
   }
 
-  const selectedText = outputs && selected ? outputs[selected] : "";
+  const selectedIndex = slots.findIndex((slot) => variantChain(slot).some((v) => v.id === selected));
+  const selectedChain = selectedIndex >= 0 ? variantChain(slots[selectedIndex]) : [];
+  const selectedPosition = selectedChain.findIndex((v) => v.id === selected);
+  const selectedVariant = selectedPosition >= 0 ? selectedChain[selectedPosition] : null;
+  const selectedText = edit && edit.variantId === selected ? edit.text : selectedVariant?.text ?? "";
+  const media = attachmentMedia(attachments);
+  const targets = linkedin?.targets ?? [];
+  const linkedinExpired = !linkedin?.connected && !!linkedin?.accounts.some((a) => a.expired);
+  const authorName = targets.find((t) => targetUrns.includes(t.urn))?.name ?? "Amisha Sharma";
+
+  // Re-check the post whenever the preview shows different text
+  useEffect(() => {
+    if (step < 3 || !selectedText) return;
+    let cancelled = false;
+    (async () => {
+      try {
+        const res = await fetch("/api/lint", {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({ text: selectedText, emphasis }),
+        });
+        if (res.ok && !cancelled) setLint(await res.json());
+      } catch {
+        if (!cancelled) setLint(null);
+      }
+    })();
+    return () => {
+      cancelled = true;
+    };
+  }, [step, selectedText, emphasis]);
+
+  const scores = slots.map((slot) => slot.variant?.score ?? null);
+  const hasScores = scores.some((sc) => sc !== null);
+  const topScore = hasScores ? Math.max(...scores.map((sc) => sc ?? 0)) : null;
+  const orderedSlots = slots
+    .map((slot, index) => ({ slot, index }))
+    .sort((a, b) =>
+      sortByScore && hasScores ? (b.slot.variant?.score ?? -1) - (a.slot.variant?.score ?? -1) : a.index - b.index
+    );
 
   /* ─── Render ─────────────────────────────────── */
   return (
@@ -354,6 +1028,62 @@ export default function DashboardPage() {
             </span>
           </div>
           <div className="flex items-center gap-2">
+            <Link
+              href="/dashboard/campaigns"
+              className="text-[11px] font-medium px-2.5 py-1 rounded-md text-stone-500 hover:text-stone-900 hover:bg-stone-50 transition-colors"
+            >
+              Campaigns
+            </Link>
+            <Link
+              href="/dashboard/templates"
+              className="text-[11px] font-medium px-2.5 py-1 rounded-md text-stone-500 hover:text-stone-900 hover:bg-stone-50 transition-colors"
+            >
+              Templates
+            </Link>
+            <Link
+              href="/dashboard/hashtags"
+              className="text-[11px] font-medium px-2.5 py-1 rounded-md text-stone-500 hover:text-stone-900 hover:bg-stone-50 transition-colors"
+            >
+              Hashtags
+            </Link>
+            <Link
+              href="/dashboard/scheduled"
+              className="text-[11px] font-medium px-2.5 py-1 rounded-md text-stone-500 hover:text-stone-900 hover:bg-stone-50 transition-colors"
+            >
+              Scheduled
+            </Link>
+            <Link
+              href="/dashboard/batches"
+              className="text-[11px] font-medium px-2.5 py-1 rounded-md text-stone-500 hover:text-stone-900 hover:bg-stone-50 transition-colors"
+            >
+              Batches
+            </Link>
+            <Link
+              href="/dashboard/usage"
+              className="text-[11px] font-medium px-2.5 py-1 rounded-md text-stone-500 hover:text-stone-900 hover:bg-stone-50 transition-colors"
+            >
+              Usage
+            </Link>
+            {linkedin && (
+              <Link
+                href="/dashboard/linkedin"
+                title={
+                  linkedin.connected
+                    ? `Can post as ${targets.map((t) => t.name).join(", ")} — click to manage accounts`
+                    : linkedinExpired
+                    ? "LinkedIn session expired — click to reconnect"
+                    : "Click to connect LinkedIn"
+                }
+                className={`flex items-center gap-1.5 text-[11px] font-medium px-2.5 py-1 rounded-md ${
+                  linkedin.connected ? "bg-sky-50 text-sky-700" : linkedinExpired ? "bg-amber-50 text-amber-700" : "bg-stone-50 text-stone-400"
+                }`}
+              >
+                <div className={`w-1.5 h-1.5 rounded-full ${
+                  linkedin.connected ? "bg-sky-500" : linkedinExpired ? "bg-amber-500" : "bg-stone-300"
+                }`} />
+                LinkedIn
+              </Link>
+            )}
             {!canvaChecking && (
               <div className={`flex items-center gap-1.5 text-[11px] font-medium px-2.5 py-1 rounded-md ${
                 canvaConnected ? "bg-violet-50 text-violet-600" : "bg-stone-50 text-stone-400"
@@ -434,48 +1164,370 @@ export default function DashboardPage() {
           <div className="flex items-center gap-2 mb-3">
             <span className="w-5 h-5 rounded bg-stone-900 text-white flex items-center justify-center text-[10px] font-bold">1</span>
             <h2 className="text-sm font-semibold text-stone-900">Content Prompt</h2>
+            <div className="ml-auto flex items-center gap-2">
+              <select
+                value={template?.id ?? ""}
+                onChange={(e) => handlePickTemplate(e.target.value)}
+                disabled={generating}
+                className="h-7 px-2 bg-stone-50 border border-stone-200 rounded-md text-[11px] text-stone-600 focus:outline-none focus:ring-2 focus:ring-stone-900/10 focus:border-stone-400"
+              >
+                <option value="">{templates.length ? "Start from a template…" : "No templates yet"}</option>
+                {templates.map((t) => (
+                  <option key={t.id} value={t.id}>{t.name}</option>
+                ))}
+              </select>
+              <Link href="/dashboard/templates" className="text-[11px] text-stone-400 hover:text-stone-900 font-medium">
+                Manage
+              </Link>
+            </div>
           </div>
+          {template && (
+            <div className="mb-2 rounded-lg border border-stone-200 bg-stone-50/60 p-3 space-y-2">
+              {templateVariables(template.body).length > 0 ? (
+                <div className="grid grid-cols-1 sm:grid-cols-2 gap-2">
+                  {templateVariables(template.body).map((name) => (
+                    <label key={name} className="block space-y-1">
+                      <span className="text-[11px] font-medium text-stone-500">{variableLabel(name)}</span>
+                      <input
+                        value={templateValues[name] ?? ""}
+                        onChange={(e) => handleTemplateValue(name, e.target.value)}
+                        disabled={generating}
+                        className="w-full bg-white border border-stone-200 rounded-md px-2.5 py-1.5 text-[12.5px] text-stone-800 focus:outline-none focus:ring-2 focus:ring-stone-900/10 focus:border-stone-400"
+                      />
+                    </label>
+                  ))}
+                </div>
+              ) : (
+                <p className="text-[11px] text-stone-400">This template has no variables.</p>
+              )}
+              <div className="flex items-center justify-between">
+                <span className="text-[11px] text-stone-400">
+                  {missingVariables(template.body, templateValues).length
+                    ? `Fill in ${missingVariables(template.body, templateValues).map(variableLabel).join(", ")} to generate`
+                    : "Prompt ready — detach the template to edit it freely"}
+                </span>
+                <button
+                  onClick={() => {
+                    setTemplate(null);
+                    setTemplateValues({});
+                  }}
+                  disabled={generating}
+                  className="text-[11px] font-medium text-stone-500 hover:text-stone-900"
+                >
+                  Detach template
+                </button>
+              </div>
+            </div>
+          )}
           <textarea
             value={prompt}
             onChange={(e) => setPrompt(e.target.value)}
             placeholder="Describe the LinkedIn post you want to create…"
             rows={3}
             className="w-full bg-stone-50 border border-stone-200 rounded-lg px-4 py-3 text-[13px] text-stone-800 placeholder-stone-400 focus:outline-none focus:ring-2 focus:ring-stone-900/10 focus:border-stone-400 resize-none leading-relaxed"
-            disabled={generating}
+            disabled={generating || !!template}
           />
-          <div className="flex items-center justify-between mt-3">
-            <span className="text-[11px] text-stone-400 tabular-nums">{prompt.length} chars</span>
+
+          {/* Sources */}
+          <div className="flex flex-wrap items-center gap-1.5 mt-2">
+            {sources.map((src) => (
+              <span
+                key={src.id}
+                title={src.summary}
+                className="flex items-center gap-1.5 text-[11px] font-medium px-2 py-1 rounded-md bg-stone-50 border border-stone-200 text-stone-600"
+              >
+                {src.name}
+                <span className="text-stone-400 tabular-nums">{src.charCount.toLocaleString()} chars</span>
+                <button
+                  onClick={() => setSources((prev) => prev.filter((x) => x.id !== src.id))}
+                  disabled={generating}
+                  className="text-stone-400 hover:text-stone-900"
+                  aria-label={`Remove ${src.name}`}
+                >
+                  ×
+                </button>
+              </span>
+            ))}
+            <label className={`text-[11px] font-medium px-2 py-1 rounded-md text-stone-500 hover:text-stone-900 cursor-pointer ${uploadingSource || generating ? "pointer-events-none opacity-50" : ""}`}>
+              + Attach file
+              <input
+                type="file"
+                accept=".md,.markdown,.txt,.html,.htm,.pdf"
+                className="hidden"
+                onChange={(e) => {
+                  const file = e.target.files?.[0];
+                  if (file) handleAddSource(file);
+                  e.target.value = "";
+                }}
+              />
+            </label>
             <button
-              onClick={handleGenerate}
-              disabled={generating || !prompt.trim()}
-              className="h-9 px-5 bg-stone-900 hover:bg-stone-800 disabled:bg-stone-200 disabled:text-stone-400 text-white text-[13px] font-medium rounded-lg transition-colors flex items-center gap-2"
+              onClick={() => setPasteOpen((open) => !open)}
+              disabled={uploadingSource || generating}
+              className="text-[11px] font-medium px-2 py-1 rounded-md text-stone-500 hover:text-stone-900 disabled:opacity-50"
             >
-              {generating ? <><Spinner /> Generating…</> : "Generate"}
+              + Paste notes or article
             </button>
+            {uploadingSource && (
+              <span className="flex items-center gap-1.5 text-[11px] text-stone-400">
+                <Spinner /> Summarizing…
+              </span>
+            )}
+          </div>
+          {pasteOpen && (
+            <div className="mt-2 flex items-start gap-2">
+              <textarea
+                value={pasteText}
+                onChange={(e) => setPasteText(e.target.value)}
+                placeholder="Paste notes, Markdown or article HTML…"
+                rows={4}
+                className="flex-1 bg-stone-50 border border-stone-200 rounded-lg px-3 py-2 text-[12px] text-stone-800 placeholder-stone-400 focus:outline-none focus:ring-2 focus:ring-stone-900/10 focus:border-stone-400 resize-y"
+              />
+              <button
+                onClick={() => handleAddSource(pasteText)}
+                disabled={uploadingSource || !pasteText.trim()}
+                className="h-9 px-4 bg-stone-900 hover:bg-stone-800 disabled:bg-stone-200 disabled:text-stone-400 text-white text-[13px] font-medium rounded-lg transition-colors"
+              >
+                Add
+              </button>
+            </div>
+          )}
+
+          {/* Generation settings */}
+          {settingsOpen && (
+            <div className="mt-3 rounded-lg border border-stone-200 bg-stone-50/60 p-3 space-y-3">
+              <div className="flex flex-wrap items-center gap-1.5">
+                <span className="text-[11px] font-medium text-stone-500 mr-1">Models</span>
+                {models.map((m) => {
+                  const on = runModelIds.includes(m.id);
+                  return (
+                    <button
+                      key={m.id}
+                      onClick={() =>
+                        setRunModelIds((prev) => (on ? prev.filter((id) => id !== m.id) : [...prev, m.id]))
+                      }
+                      disabled={generating}
+                      className={`text-[11px] font-medium px-2 py-1 rounded-md border transition-colors ${
+                        on
+                          ? "bg-stone-900 border-stone-900 text-white"
+                          : "bg-white border-stone-200 text-stone-500 hover:text-stone-900"
+                      }`}
+                    >
+                      {m.name}
+                    </button>
+                  );
+                })}
+              </div>
+              <div className="flex flex-wrap items-center gap-5 text-[12px] text-stone-600">
+                <label className="flex items-center gap-2">
+                  Samples per model
+                  <select
+                    value={samples}
+                    onChange={(e) => setSamples(Number(e.target.value))}
+                    disabled={generating}
+                    className="h-7 px-2 bg-white border border-stone-200 rounded-md text-[12px]"
+                  >
+                    {[1, 2, 3].map((n) => (
+                      <option key={n} value={n}>{n}</option>
+                    ))}
+                  </select>
+                </label>
+                <label className="flex items-center gap-2">
+                  <input
+                    type="checkbox"
+                    checked={temperature !== null}
+                    onChange={(e) => setTemperature(e.target.checked ? 0.7 : null)}
+                    disabled={generating}
+                    className="accent-stone-900"
+                  />
+                  Temperature
+                  <input
+                    type="range"
+                    min={0}
+                    max={2}
+                    step={0.1}
+                    value={temperature ?? 0.7}
+                    onChange={(e) => setTemperature(Number(e.target.value))}
+                    disabled={generating || temperature === null}
+                    className="w-28 accent-stone-900 disabled:opacity-40"
+                  />
+                  <span className="w-12 tabular-nums text-stone-400">
+                    {temperature === null ? "default" : temperature.toFixed(1)}
+                  </span>
+                </label>
+                <label className="flex items-center gap-2">
+                  Max tokens
+                  <input
+                    type="number"
+                    min={100}
+                    max={4000}
+                    step={100}
+                    value={maxTokens}
+                    onChange={(e) => setMaxTokens(Math.min(4000, Math.max(100, Number(e.target.value) || 800)))}
+                    disabled={generating}
+                    className="h-7 w-20 px-2 bg-white border border-stone-200 rounded-md text-[12px] tabular-nums"
+                  />
+                </label>
+                <label className="flex items-center gap-2" title="Past published posts used as style examples">
+                  Style examples
+                  <select
+                    value={styleExamples}
+                    onChange={(e) => setStyleExamples(Number(e.target.value))}
+                    disabled={generating}
+                    className="h-7 px-2 bg-white border border-stone-200 rounded-md text-[12px]"
+                  >
+                    {[0, 1, 2, 3, 4, 5].map((n) => (
+                      <option key={n} value={n}>{n === 0 ? "Off" : n}</option>
+                    ))}
+                  </select>
+                  <Link href="/dashboard/examples" className="text-stone-400 hover:text-stone-900">
+                    Manage
+                  </Link>
+                </label>
+              </div>
+            </div>
+          )}
+
+          <div className="flex items-center justify-between mt-3">
+            <div className="flex items-center gap-3">
+              <span className="text-[11px] text-stone-400 tabular-nums">{prompt.length} chars</span>
+              <button
+                onClick={() => setSettingsOpen((open) => !open)}
+                className="text-[11px] font-medium text-stone-500 hover:text-stone-900"
+              >
+                {settingsOpen ? "Hide settings" : `Settings · ${runModelIds.length} models × ${samples}`}
+              </button>
+            </div>
+            <div className="flex items-center gap-2">
+              <label className="flex items-center gap-1.5 text-[12px] text-stone-500 mr-1">
+                <input
+                  type="checkbox"
+                  checked={judge}
+                  onChange={(e) => setJudge(e.target.checked)}
+                  disabled={generating}
+                  className="accent-stone-900"
+                />
+                Rank with AI judge
+              </label>
+              <select
+                value={format}
+                onChange={(e) => setFormat(e.target.value as PostFormat)}
+                disabled={generating}
+                className="h-9 px-3 bg-stone-50 border border-stone-200 rounded-lg text-[12px] text-stone-700 focus:outline-none focus:ring-2 focus:ring-stone-900/10 focus:border-stone-400"
+              >
+                {POST_FORMATS.map((f) => (
+                  <option key={f} value={f}>{FORMAT_LABELS[f]}</option>
+                ))}
+              </select>
+              <select
+                value={language}
+                onChange={(e) => setLanguage(e.target.value as Language)}
+                disabled={generating}
+                className="h-9 px-3 bg-stone-50 border border-stone-200 rounded-lg text-[12px] text-stone-700 focus:outline-none focus:ring-2 focus:ring-stone-900/10 focus:border-stone-400"
+              >
+                {LANGUAGE_CODES.map((l) => (
+                  <option key={l} value={l}>{LANGUAGES[l]}</option>
+                ))}
+              </select>
+              <select
+                value={voiceId}
+                onChange={(e) => setVoiceId(e.target.value)}
+                disabled={generating}
+                className="h-9 px-3 bg-stone-50 border border-stone-200 rounded-lg text-[12px] text-stone-700 focus:outline-none focus:ring-2 focus:ring-stone-900/10 focus:border-stone-400"
+              >
+                <option value="">Default voice</option>
+                {voices.map((v) => (
+                  <option key={v.id} value={v.id}>{v.name}</option>
+                ))}
+              </select>
+              <Link
+                href="/dashboard/voices"
+                className="text-[12px] text-stone-500 hover:text-stone-900 font-medium transition-colors"
+              >
+                Manage
+              </Link>
+              <button
+                onClick={handleGenerate}
+                disabled={
+                  generating ||
+                  !prompt.trim() ||
+                  (template !== null && missingVariables(template.body, templateValues).length > 0) ||
+                  (models.length > 0 && runModelIds.length === 0)
+                }
+                className="h-9 px-5 bg-stone-900 hover:bg-stone-800 disabled:bg-stone-200 disabled:text-stone-400 text-white text-[13px] font-medium rounded-lg transition-colors flex items-center gap-2"
+              >
+                {generating ? <><Spinner /> Generating…</> : "Generate"}
+              </button>
+            </div>
           </div>
         </section>
 
         {/* ── Step 2: Model Cards ── */}
-        {outputs && step >= 1 && (
+        {draftId && step >= 1 && (
           <section>
             <div className="flex items-center gap-2 mb-3 px-1">
               <span className="w-5 h-5 rounded bg-stone-900 text-white flex items-center justify-center text-[10px] font-bold">2</span>
               <h2 className="text-sm font-semibold text-stone-900">Select Output</h2>
+              <div className="ml-auto flex items-center gap-3">
+                <button
+                  onClick={() => {
+                    setMergeMode((on) => !on);
+                    setMergeIds([]);
+                  }}
+                  disabled={generating}
+                  className={`text-[12px] font-medium transition-colors disabled:text-stone-300 ${
+                    mergeMode ? "text-stone-900" : "text-stone-500 hover:text-stone-900"
+                  }`}
+                >
+                  {mergeMode ? "Cancel combine" : "Combine outputs"}
+                </button>
+                {hasScores ? (
+                  <label className="flex items-center gap-1.5 text-[12px] text-stone-500">
+                    <input
+                      type="checkbox"
+                      checked={sortByScore}
+                      onChange={(e) => setSortByScore(e.target.checked)}
+                      className="accent-stone-900"
+                    />
+                    Sort by score
+                  </label>
+                ) : (
+                  <button
+                    onClick={handleJudge}
+                    disabled={judging || generating}
+                    className="text-[12px] text-stone-500 hover:text-stone-900 font-medium transition-colors disabled:text-stone-300 flex items-center gap-1.5"
+                  >
+                    {judging ? <><Spinner /> Ranking…</> : "Rank with AI judge"}
+                  </button>
+                )}
+              </div>
             </div>
             <div className="grid grid-cols-1 md:grid-cols-2 xl:grid-cols-3 gap-4">
-              {(Object.keys(MODEL_LABELS) as Model[]).map((model) => {
-                const text = outputs[model];
-                const isError = text.startsWith("[");
-                const isSelected = selected === model;
-                const m = MODEL_LABELS[model];
+              {orderedSlots.map(({ slot, index: i }) => {
+                const chain = variantChain(slot);
+                const variant = chain.find((v) => v.id === selected) ?? chain[chain.length - 1] ?? null;
+                const revision = variant ? chain.indexOf(variant) : 0;
+                const isLoading = !variant;
+                const text = variant ? variant.text ?? "" : slot.partial;
+                const isError = !!variant?.error;
+                // A reply that failed to parse can still be opened, fixed and refined
+                const canEdit = !isError || !!variant?.text;
+                const mergePosition = variant ? mergeIds.indexOf(variant.id) : -1;
+                const isSelected = !!variant && (mergeMode ? mergePosition >= 0 : selected === variant.id);
+                const m = modelColor(i);
                 return (
                   <button
-                    key={model}
-                    onClick={() => !isError && handleModelSelect(model)}
-                    disabled={isError}
+                    key={slot.key}
+                    onClick={() =>
+                      variant &&
+                      (mergeMode ? !isError && toggleMerge(variant.id) : canEdit && handleVariantSelect(variant.id))
+                    }
+                    disabled={isLoading || !canEdit}
                     className={`text-left rounded-xl border p-4 transition-all group ${
                       isSelected
                         ? `${m.border} border-2 bg-white shadow-md`
+                        : isLoading
+                        ? "border-stone-200 bg-white cursor-wait"
                         : isError
                         ? "border-stone-200 bg-stone-50 opacity-50 cursor-not-allowed"
                         : "border-stone-200 bg-white hover:border-stone-300 hover:shadow-sm"
@@ -485,12 +1537,46 @@ export default function DashboardPage() {
                     <div className="flex items-center justify-between mb-3">
                       <div className="flex items-center gap-2">
                         <div className={`w-2 h-2 rounded-full ${m.dot}`} />
-                        <span className="text-[13px] font-semibold text-stone-900">{m.name}</span>
+                        <span className="text-[13px] font-semibold text-stone-900">{slot.modelName}</span>
                         <span className={`text-[10px] font-medium px-1.5 py-0.5 rounded ${m.bg} ${m.text}`}>
-                          {m.tag}
+                          {slot.vendor}
                         </span>
+                        {slot.variant?.score != null && (
+                          <span
+                            title={
+                              slot.variant.scoreDetails
+                                ? `${Object.entries(slot.variant.scoreDetails.scores)
+                                    .map(([k, v]) => `${k}: ${v}`)
+                                    .join(" · ")}\n${slot.variant.scoreDetails.rationale}`
+                                : undefined
+                            }
+                            className={`text-[10px] font-semibold px-1.5 py-0.5 rounded tabular-nums ${
+                              slot.variant.score === topScore
+                                ? "bg-stone-900 text-white"
+                                : "bg-stone-100 text-stone-600"
+                            }`}
+                          >
+                            {slot.variant.score === topScore ? "Top pick · " : ""}
+                            {slot.variant.score.toFixed(1)}
+                          </span>
+                        )}
+                        {slot.sample > 1 && (
+                          <span className="text-[10px] font-medium px-1.5 py-0.5 rounded bg-stone-100 text-stone-500">
+                            #{slot.sample}
+                          </span>
+                        )}
+                        {revision > 0 && (
+                          <span className="text-[10px] font-medium px-1.5 py-0.5 rounded bg-stone-100 text-stone-500">
+                            Rev {revision}
+                          </span>
+                        )}
                       </div>
-                      {isSelected && (
+                      {isSelected && mergeMode && (
+                        <div className="w-5 h-5 rounded-full bg-stone-900 flex items-center justify-center text-[10px] font-bold text-white">
+                          {String.fromCharCode(65 + mergePosition)}
+                        </div>
+                      )}
+                      {isSelected && !mergeMode && (
                         <div className="w-5 h-5 rounded-full bg-stone-900 flex items-center justify-center">
                           <svg className="w-3 h-3 text-white" fill="none" stroke="currentColor" strokeWidth="3" viewBox="0 0 24 24">
                             <path strokeLinecap="round" strokeLinejoin="round" d="M5 13l4 4L19 7" />
@@ -502,18 +1588,158 @@ export default function DashboardPage() {
                           Failed
                         </span>
                       )}
+                      {isLoading && (
+                        <span className="flex items-center gap-1.5 text-[10px] font-medium text-stone-400">
+                          <Spinner /> Writing…
+                        </span>
+                      )}
                     </div>
                     {/* Card Body — formatted */}
                     <div className="text-[12.5px] text-stone-600 leading-relaxed max-h-72 overflow-y-auto pr-1">
-                      <FormatText text={text} />
+                      {isError ? (
+                        <>
+                          <p className="text-red-600">{variant.error}</p>
+                          <p className="mt-1.5 text-[11px] text-stone-400 tabular-nums">
+                            {variant.errorStatus ? `HTTP ${variant.errorStatus} · ` : ""}
+                            {variant.attempts} {variant.attempts === 1 ? "attempt" : "attempts"}
+                          </p>
+                          {variant.text && (
+                            <pre className="mt-2 whitespace-pre-wrap font-sans text-[11.5px] text-stone-500">
+                              {variant.text}
+                            </pre>
+                          )}
+                        </>
+                      ) : isLoading && !text ? (
+                        <p className="text-stone-400 animate-pulse">Waiting for response…</p>
+                      ) : isLoading && draftFormat !== "post" ? (
+                        <p className="text-stone-400 animate-pulse">
+                          Writing {FORMAT_LABELS[draftFormat].toLowerCase()}…
+                        </p>
+                      ) : (
+                        <PostBody text={text} structured={variant?.structured ?? null} />
+                      )}
                     </div>
                     <div className="mt-3 pt-2 border-t border-stone-100 text-[11px] text-stone-400 tabular-nums">
                       {text.length} characters
+                      {variant?.latencyMs != null && ` · ${formatLatency(variant.latencyMs)}`}
+                      {variant?.costUsd != null && ` · ${formatCost(variant.costUsd)}`}
+                      {variant?.usedFallback && ` · via ${variant.model}`}
+                      {!isError && variant && variant.attempts > 1 && ` · ${variant.attempts} attempts`}
                     </div>
                   </button>
                 );
               })}
             </div>
+
+            {/* Combine */}
+            {mergeMode && (
+              <div className="card-surface p-4 mt-4">
+                <div className="flex items-center justify-between mb-3">
+                  <h3 className="text-[13px] font-semibold text-stone-900">Combine outputs</h3>
+                  <span className="text-[11px] text-stone-400">
+                    {mergeIds.length < 2 ? "Pick at least two cards" : `${mergeIds.length} selected`}
+                  </span>
+                </div>
+                <div className="flex items-center gap-2">
+                  <input
+                    value={mergeGuidance}
+                    onChange={(e) => setMergeGuidance(e.target.value)}
+                    placeholder="Optional guidance, e.g. hook from A, body from B, end with a question"
+                    disabled={synthesizing}
+                    className="flex-1 h-9 bg-stone-50 border border-stone-200 rounded-lg px-3 text-[13px] text-stone-800 placeholder-stone-400 focus:outline-none focus:ring-2 focus:ring-stone-900/10 focus:border-stone-400"
+                  />
+                  <select
+                    value={mergeModelId}
+                    onChange={(e) => setMergeModelId(e.target.value)}
+                    disabled={synthesizing}
+                    className="h-9 px-3 bg-stone-50 border border-stone-200 rounded-lg text-[12px] text-stone-700 focus:outline-none"
+                  >
+                    <option value="">Default model</option>
+                    {models.map((m) => (
+                      <option key={m.id} value={m.id}>{m.name}</option>
+                    ))}
+                  </select>
+                  <button
+                    onClick={handleSynthesize}
+                    disabled={synthesizing || mergeIds.length < 2}
+                    className="h-9 px-4 bg-stone-900 hover:bg-stone-800 disabled:bg-stone-200 disabled:text-stone-400 text-white text-[13px] font-medium rounded-lg transition-colors flex items-center gap-2"
+                  >
+                    {synthesizing ? <><Spinner /> Combining…</> : "Synthesize"}
+                  </button>
+                </div>
+              </div>
+            )}
+
+            {/* Refine */}
+            {selectedVariant && !mergeMode && (
+              <div className="card-surface p-4 mt-4">
+                <div className="flex items-center justify-between mb-3">
+                  <div className="flex items-center gap-2">
+                    <h3 className="text-[13px] font-semibold text-stone-900">Refine selection</h3>
+                    {selectedVariant.instruction && (
+                      <span className="text-[11px] text-stone-400 truncate max-w-xs">“{selectedVariant.instruction}”</span>
+                    )}
+                  </div>
+                  <div className="flex items-center gap-2 text-[11px] text-stone-500 tabular-nums">
+                    <button
+                      onClick={() => stepRevision(-1)}
+                      disabled={selectedPosition <= 0}
+                      className="px-1.5 hover:text-stone-900 disabled:text-stone-300"
+                    >
+                      ←
+                    </button>
+                    Version {selectedPosition + 1} of {selectedChain.length}
+                    <button
+                      onClick={() => stepRevision(1)}
+                      disabled={selectedPosition >= selectedChain.length - 1}
+                      className="px-1.5 hover:text-stone-900 disabled:text-stone-300"
+                    >
+                      →
+                    </button>
+                  </div>
+                </div>
+                <div className="flex flex-wrap gap-1.5 mb-3">
+                  {REFINE_PRESETS.map((preset) => (
+                    <button
+                      key={preset}
+                      onClick={() => handleRefine(preset)}
+                      disabled={refining}
+                      className="text-[11px] font-medium px-2.5 py-1 rounded-md bg-stone-50 border border-stone-200 text-stone-600 hover:border-stone-300 hover:text-stone-900 disabled:opacity-50"
+                    >
+                      {preset}
+                    </button>
+                  ))}
+                </div>
+                <div className="flex items-center gap-2">
+                  <input
+                    value={refineInstruction}
+                    onChange={(e) => setRefineInstruction(e.target.value)}
+                    onKeyDown={(e) => e.key === "Enter" && handleRefine(refineInstruction)}
+                    placeholder="Or describe a change…"
+                    disabled={refining}
+                    className="flex-1 h-9 bg-stone-50 border border-stone-200 rounded-lg px-3 text-[13px] text-stone-800 placeholder-stone-400 focus:outline-none focus:ring-2 focus:ring-stone-900/10 focus:border-stone-400"
+                  />
+                  <select
+                    value={refineModelId}
+                    onChange={(e) => setRefineModelId(e.target.value)}
+                    disabled={refining}
+                    className="h-9 px-3 bg-stone-50 border border-stone-200 rounded-lg text-[12px] text-stone-700 focus:outline-none"
+                  >
+                    <option value="">Same model</option>
+                    {models.map((m) => (
+                      <option key={m.id} value={m.id}>{m.name}</option>
+                    ))}
+                  </select>
+                  <button
+                    onClick={() => handleRefine(refineInstruction)}
+                    disabled={refining || !refineInstruction.trim()}
+                    className="h-9 px-4 bg-stone-900 hover:bg-stone-800 disabled:bg-stone-200 disabled:text-stone-400 text-white text-[13px] font-medium rounded-lg transition-colors flex items-center gap-2"
+                  >
+                    {refining ? <><Spinner /> Refining…</> : "Refine"}
+                  </button>
+                </div>
+              </div>
+            )}
           </section>
         )}
 
@@ -560,6 +1786,27 @@ export default function DashboardPage() {
                   </div>
                 )}
 
+                <div className="flex flex-wrap items-center gap-1.5">
+                  <span className="text-[12px] font-medium text-stone-500 mr-1">Attach as</span>
+                  {([["png", "Images"], ["pdf", "PDF carousel"]] as const).map(([value, label]) => (
+                    <button
+                      key={value}
+                      onClick={() => setExportFormat(value)}
+                      disabled={exporting}
+                      className={`text-[12px] font-medium px-2.5 py-1 rounded-md transition-colors ${
+                        exportFormat === value ? "bg-violet-50 text-violet-700" : "text-stone-400 hover:text-stone-700"
+                      }`}
+                    >
+                      {label}
+                    </button>
+                  ))}
+                  <span className="text-[11px] text-stone-400 ml-1">
+                    {exportFormat === "pdf"
+                      ? "One multi-page design, posted as a document"
+                      : `Each page becomes an image — pick several designs, up to ${MAX_POST_IMAGES} images`}
+                  </span>
+                </div>
+
                 {designs.length === 0 && !loadingDesigns ? (
                   <div className="text-center py-10">
                     <button
@@ -572,37 +1819,46 @@ export default function DashboardPage() {
                 ) : (
                   <>
                     <div className="grid grid-cols-2 sm:grid-cols-3 md:grid-cols-4 lg:grid-cols-5 gap-3">
-                      {designs.map((d) => (
-                        <button
-                          key={d.id}
-                          onClick={() => handleDesignSelect(d)}
-                          disabled={exporting}
-                          className={`group relative rounded-lg overflow-hidden border transition-all ${
-                            selectedDesign?.id === d.id
-                              ? "border-violet-500 ring-2 ring-violet-200 shadow-sm"
-                              : "border-stone-200 hover:border-stone-300 hover:shadow-sm"
-                          }`}
-                        >
-                          <div className="aspect-[4/3] bg-stone-100 flex items-center justify-center overflow-hidden">
-                            {d.thumbnail?.url ? (
-                              /* eslint-disable-next-line @next/next/no-img-element */
-                              <img src={d.thumbnail.url} alt={d.title} className="w-full h-full object-cover" />
-                            ) : (
-                              <span className="text-[11px] text-stone-400">No preview</span>
-                            )}
-                          </div>
-                          <div className="px-2 py-1.5 bg-white">
-                            <p className="text-[11px] font-medium text-stone-700 truncate">{d.title || "Untitled"}</p>
-                          </div>
-                          {selectedDesign?.id === d.id && (
-                            <div className="absolute top-1.5 right-1.5 w-5 h-5 bg-violet-600 rounded-full flex items-center justify-center">
-                              <svg className="w-3 h-3 text-white" fill="none" stroke="currentColor" strokeWidth="3" viewBox="0 0 24 24">
-                                <path strokeLinecap="round" strokeLinejoin="round" d="M5 13l4 4L19 7" />
-                              </svg>
+                      {designs.map((d) => {
+                        const attached = attachments.find((a) => a.design.id === d.id);
+                        return (
+                          <button
+                            key={d.id}
+                            onClick={() => handleDesignSelect(d)}
+                            disabled={exporting}
+                            title={attached ? "Click to remove" : undefined}
+                            className={`group relative rounded-lg overflow-hidden border transition-all ${
+                              attached
+                                ? "border-violet-500 ring-2 ring-violet-200 shadow-sm"
+                                : "border-stone-200 hover:border-stone-300 hover:shadow-sm"
+                            }`}
+                          >
+                            <div className="aspect-[4/3] bg-stone-100 flex items-center justify-center overflow-hidden">
+                              {d.thumbnail?.url ? (
+                                /* eslint-disable-next-line @next/next/no-img-element */
+                                <img src={d.thumbnail.url} alt={d.title} className="w-full h-full object-cover" />
+                              ) : (
+                                <span className="text-[11px] text-stone-400">No preview</span>
+                              )}
                             </div>
-                          )}
-                        </button>
-                      ))}
+                            <div className="px-2 py-1.5 bg-white">
+                              <p className="text-[11px] font-medium text-stone-700 truncate">{d.title || "Untitled"}</p>
+                            </div>
+                            {attached && (
+                              <div className="absolute top-1.5 right-1.5 flex items-center gap-1">
+                                <span className="text-[10px] font-medium px-1.5 py-0.5 rounded bg-violet-600 text-white">
+                                  {attached.format === "pdf" ? "PDF" : `${attached.urls.length} img`}
+                                </span>
+                                <div className="w-5 h-5 bg-violet-600 rounded-full flex items-center justify-center">
+                                  <svg className="w-3 h-3 text-white" fill="none" stroke="currentColor" strokeWidth="3" viewBox="0 0 24 24">
+                                    <path strokeLinecap="round" strokeLinejoin="round" d="M5 13l4 4L19 7" />
+                                  </svg>
+                                </div>
+                              </div>
+                            )}
+                          </button>
+                        );
+                      })}
                     </div>
                     <div className="flex justify-center">
                       {loadingDesigns ? (
@@ -639,10 +1895,10 @@ export default function DashboardPage() {
                 {/* Author */}
                 <div className="flex items-center gap-3 px-5 pt-5 pb-3">
                   <div className="w-11 h-11 rounded-full bg-gradient-to-br from-stone-100 to-stone-200 flex items-center justify-center text-stone-600 font-semibold text-sm ring-1 ring-stone-200/60">
-                    AS
+                    {initials(authorName)}
                   </div>
                   <div>
-                    <p className="text-[13px] font-semibold text-stone-900 leading-tight">Amisha Sharma</p>
+                    <p className="text-[13px] font-semibold text-stone-900 leading-tight">{authorName}</p>
                     <p className="text-[11px] text-stone-400 leading-tight mt-0.5">Just now · Public</p>
                   </div>
                 </div>
@@ -650,19 +1906,48 @@ export default function DashboardPage() {
                 {/* Text Content */}
                 <div className="px-5 pb-4">
                   <div className="text-[13px] text-stone-700 leading-[1.65]">
-                    <FormatText text={selectedText} />
+                    <PostBody
+                      text={emphasis === "unicode" ? formatEmphasis(selectedText, "unicode") : selectedText}
+                      structured={selectedVariant?.structured ?? null}
+                    />
                   </div>
                 </div>
 
-                {/* Image */}
-                {exportedImageUrl && (
-                  <div className="border-t border-stone-100">
-                    {/* eslint-disable-next-line @next/next/no-img-element */}
-                    <img
-                      src={exportedImageUrl}
-                      alt="Design"
-                      className="w-full object-contain max-h-[420px] bg-stone-50"
-                    />
+                {/* Images */}
+                {media?.kind === "image" && (
+                  <div className={`border-t border-stone-100 ${media.urls.length > 1 ? "grid grid-cols-2 gap-0.5 bg-stone-100" : ""}`}>
+                    {media.urls.slice(0, 4).map((url, i) => (
+                      <div key={url} className="relative">
+                        {/* eslint-disable-next-line @next/next/no-img-element */}
+                        <img
+                          src={url}
+                          alt={`Design page ${i + 1}`}
+                          className={`w-full bg-stone-50 ${media.urls.length > 1 ? "aspect-square object-cover" : "object-contain max-h-[420px]"}`}
+                        />
+                        {i === 3 && media.urls.length > 4 && (
+                          <div className="absolute inset-0 bg-stone-900/50 flex items-center justify-center text-white text-lg font-semibold">
+                            +{media.urls.length - 4}
+                          </div>
+                        )}
+                      </div>
+                    ))}
+                  </div>
+                )}
+
+                {/* Document carousel */}
+                {media?.kind === "document" && (
+                  <div className="border-t border-stone-100 bg-stone-50">
+                    <p className="px-5 py-2 text-[12px] font-medium text-stone-700">
+                      {media.title} <span className="text-stone-400 font-normal">· PDF carousel</span>
+                    </p>
+                    {attachments[0]?.design.thumbnail?.url && (
+                      /* eslint-disable-next-line @next/next/no-img-element */
+                      <img
+                        src={attachments[0].design.thumbnail.url}
+                        alt={media.title}
+                        className="w-full object-contain max-h-[420px]"
+                      />
+                    )}
                   </div>
                 )}
 
@@ -687,19 +1972,215 @@ export default function DashboardPage() {
               {/* Meta info */}
               <div className="flex items-center justify-between text-[11px] text-stone-400 mt-2 px-1">
                 <div className="flex items-center gap-3">
-                  {selected && (
+                  {selectedVariant && (
                     <span className="flex items-center gap-1.5">
-                      <div className={`w-1.5 h-1.5 rounded-full ${MODEL_LABELS[selected].dot}`} />
-                      {MODEL_LABELS[selected].name}
+                      <div className={`w-1.5 h-1.5 rounded-full ${modelColor(selectedIndex).dot}`} />
+                      {selectedVariant.modelName}
                     </span>
                   )}
-                  {selectedDesign && (
-                    <span>Design: {selectedDesign.title || "Untitled"}</span>
+                  {attachments.length > 0 && (
+                    <span>Design: {attachments.map((a) => a.design.title || "Untitled").join(", ")}</span>
                   )}
                 </div>
                 <span className="tabular-nums">{selectedText.length} chars</span>
               </div>
 
+              {/* LinkedIn checks */}
+              {lint && lint.warnings.length > 0 && (
+                <div className="mt-3 bg-white border border-stone-200/60 rounded-lg divide-y divide-stone-100">
+                  {lint.warnings.map((w, i) => (
+                    <div key={i} className="flex items-start gap-2.5 px-3 py-2 text-[12px]">
+                      <span className={`shrink-0 text-[10px] font-medium px-1.5 py-0.5 rounded ${LINT_STYLES[w.severity]}`}>
+                        {w.severity}
+                      </span>
+                      <div className="min-w-0">
+                        <p className="text-stone-700">
+                          {w.message}
+                          {w.line ? <span className="text-stone-400"> (line {w.line})</span> : null}
+                        </p>
+                        {w.excerpt && <p className="text-[11px] text-stone-400 font-mono truncate">{w.excerpt}</p>}
+                      </div>
+                    </div>
+                  ))}
+                  {lint.blocked && (
+                    <p className="px-3 py-2 text-[11px] font-medium text-red-600">
+                      Fix the flagged issues before publishing.
+                    </p>
+                  )}
+                </div>
+              )}
+
+              {/* Hashtags & mentions */}
+              <div className="mt-3 bg-white border border-stone-200/60 rounded-lg px-3 py-2.5 space-y-2">
+                <div className="flex items-center justify-between">
+                  <span className="text-[12px] font-medium text-stone-600">Hashtags & mentions</span>
+                  <div className="flex items-center gap-3">
+                    {edit?.variantId === selected && (
+                      <button
+                        onClick={() => setEdit(null)}
+                        className="text-[11px] font-medium text-stone-400 hover:text-stone-700"
+                      >
+                        Undo inserts
+                      </button>
+                    )}
+                    <button
+                      onClick={handleSuggest}
+                      disabled={suggesting || published || !selectedText}
+                      className="text-[11px] font-medium text-stone-500 hover:text-stone-900 disabled:text-stone-300 flex items-center gap-1.5"
+                    >
+                      {suggesting ? <><Spinner /> Suggesting…</> : suggestions ? "Refresh" : "Suggest"}
+                    </button>
+                  </div>
+                </div>
+                {suggestions && (
+                  <div className="flex flex-wrap gap-1.5">
+                    {suggestions.hashtags.map((h) => (
+                      <button
+                        key={h.tag}
+                        onClick={() => handleInsertHashtag(h.tag)}
+                        title={h.uses ? `Used in ${h.uses} published post${h.uses > 1 ? "s" : ""}` : h.source}
+                        className={`text-[11px] font-medium px-2 py-0.5 rounded-md border transition-colors ${
+                          h.source === "allowed"
+                            ? "border-emerald-200 bg-emerald-50 text-emerald-700 hover:bg-emerald-100"
+                            : "border-stone-200 bg-stone-50 text-stone-600 hover:bg-stone-100"
+                        }`}
+                      >
+                        + #{h.tag}
+                        {h.uses > 0 && <span className="opacity-60 tabular-nums"> · {h.uses}</span>}
+                      </button>
+                    ))}
+                    {suggestions.mentions.map((m) => (
+                      <button
+                        key={m.profile.id}
+                        onClick={() => handleInsertMention(m.profile)}
+                        title={m.profile.urn}
+                        className="text-[11px] font-medium px-2 py-0.5 rounded-md border border-sky-200 bg-sky-50 text-sky-700 hover:bg-sky-100 transition-colors"
+                      >
+                        + @{m.profile.name}
+                      </button>
+                    ))}
+                    {suggestions.hashtags.length === 0 && suggestions.mentions.length === 0 && (
+                      <span className="text-[11px] text-stone-400">Nothing more to suggest.</span>
+                    )}
+                  </div>
+                )}
+              </div>
+
+              {/* Translations */}
+              <div className="mt-3 bg-white border border-stone-200/60 rounded-lg px-3 py-2.5 space-y-2">
+                <div className="flex items-center justify-between gap-3">
+                  <span className="text-[12px] font-medium text-stone-600">
+                    Translate <span className="text-stone-400 font-normal">· this post is in {LANGUAGES[draftLanguage]}</span>
+                  </span>
+                  <button
+                    onClick={handleTranslate}
+                    disabled={translating || translateTo.length === 0 || !selectedText}
+                    className="text-[11px] font-medium text-stone-500 hover:text-stone-900 disabled:text-stone-300 flex items-center gap-1.5"
+                  >
+                    {translating ? <><Spinner /> Translating…</> : "Translate"}
+                  </button>
+                </div>
+                <div className="flex flex-wrap gap-1.5">
+                  {LANGUAGE_CODES.filter((l) => l !== draftLanguage).map((l) => (
+                    <button
+                      key={l}
+                      onClick={() =>
+                        setTranslateTo((prev) => (prev.includes(l) ? prev.filter((x) => x !== l) : [...prev, l]))
+                      }
+                      disabled={translating}
+                      className={`text-[11px] font-medium px-2 py-0.5 rounded-md border transition-colors ${
+                        translateTo.includes(l)
+                          ? "border-stone-900 bg-stone-900 text-white"
+                          : "border-stone-200 bg-stone-50 text-stone-600 hover:bg-stone-100"
+                      }`}
+                    >
+                      {LANGUAGES[l]}
+                    </button>
+                  ))}
+                </div>
+                {translations.map((t) => (
+                  <div key={t.id} className="border-t border-stone-100 pt-2">
+                    <div className="flex items-center justify-between mb-1">
+                      <span className="text-[11px] font-medium text-stone-500">{LANGUAGES[t.language]}</span>
+                      <button
+                        onClick={() => handleOpenTranslation(t)}
+                        className="text-[11px] font-medium text-stone-500 hover:text-stone-900"
+                      >
+                        Open to publish →
+                      </button>
+                    </div>
+                    <p className="text-[12px] text-stone-600 whitespace-pre-wrap line-clamp-3">{t.variant.text}</p>
+                  </div>
+                ))}
+              </div>
+
+              {/* Grounding sources */}
+              {sources.length > 0 && (
+                <details className="mt-2 px-1 text-[11px] text-stone-400">
+                  <summary className="cursor-pointer hover:text-stone-700">
+                    Based on {sources.length} source{sources.length > 1 ? "s" : ""}: {sources.map((src) => src.name).join(", ")}
+                  </summary>
+                  <div className="mt-2 space-y-2">
+                    {sources.map((src) => (
+                      <div key={src.id} className="bg-white border border-stone-200/60 rounded-lg px-3 py-2">
+                        <p className="font-medium text-stone-600 mb-1">{src.name}</p>
+                        <p className="whitespace-pre-wrap text-stone-500 leading-relaxed">{src.summary}</p>
+                      </div>
+                    ))}
+                  </div>
+                </details>
+              )}
+
+              {linkedin && !linkedin.connected && (
+                <p className="mt-4 text-[12px] text-stone-500">
+                  {linkedinExpired ? "Your LinkedIn session expired. " : "LinkedIn isn't connected, so publishing is a dry run. "}
+                  <a href="/api/linkedin/auth" className="font-medium text-sky-700 hover:text-sky-900">
+                    {linkedinExpired ? "Reconnect LinkedIn" : "Connect LinkedIn"}
+                  </a>
+                </p>
+              )}
+
+              {targets.length > 0 && (
+                <div className="mt-4 flex flex-wrap items-center gap-1.5">
+                  <span className="text-[12px] font-medium text-stone-500 mr-1">Post as</span>
+                  {targets.map((t) => {
+                    const on = targetUrns.includes(t.urn);
+                    return (
+                      <button
+                        key={t.urn}
+                        onClick={() =>
+                          setTargetUrns((prev) => (on ? prev.filter((u) => u !== t.urn) : [...prev, t.urn]))
+                        }
+                        disabled={publishing || published || !!scheduledFor}
+                        className={`text-[12px] font-medium px-2.5 py-1 rounded-md border transition-colors ${
+                          on
+                            ? "bg-sky-50 border-sky-200 text-sky-700"
+                            : "border-stone-200 text-stone-400 hover:text-stone-700"
+                        }`}
+                      >
+                        {t.name}
+                        {t.kind === "organization" && <span className="ml-1 text-[10px] opacity-70">page</span>}
+                      </button>
+                    );
+                  })}
+                  <Link href="/dashboard/linkedin" className="ml-1 text-[11px] text-stone-400 hover:text-stone-700">
+                    Manage
+                  </Link>
+                </div>
+              )}
+
+              <label className="mt-3 flex items-center gap-2 text-[12px] text-stone-500">
+                <input
+                  type="checkbox"
+                  checked={emphasis === "unicode"}
+                  onChange={(e) => setEmphasis(e.target.checked ? "unicode" : "strip")}
+                  disabled={publishing || published || !!scheduledFor}
+                  className="accent-stone-900"
+                />
+                Keep bold & italic as Unicode letters
+                <span className="text-stone-400">— short phrases only, so screen readers can still read the post</span>
+              </label>
+
               {/* Actions */}
               <div className="flex items-center justify-between mt-5 mb-8">
                 <button
@@ -708,28 +2189,61 @@ export default function DashboardPage() {
                 >
                   ← New post
                 </button>
-                <button
-                  onClick={handlePublish}
-                  disabled={publishing || published}
-                  className={`h-11 px-7 text-[14px] font-semibold rounded-xl transition-all flex items-center gap-2 ${
-                    published
-                      ? "bg-emerald-600 text-white cursor-default"
-                      : "bg-stone-900 hover:bg-stone-800 disabled:bg-stone-200 disabled:text-stone-400 text-white shadow-sm"
-                  }`}
-                >
-                  {publishing ? (
-                    <><Spinner /> Publishing…</>
-                  ) : published ? (
-                    <>
-                      <svg className="w-4 h-4" fill="none" stroke="currentColor" strokeWidth="2.5" viewBox="0 0 24 24">
-                        <path strokeLinecap="round" strokeLinejoin="round" d="M5 13l4 4L19 7" />
-                      </svg>
-                      Published
-                    </>
+                <div className="flex items-center gap-3">
+                  {scheduledFor ? (
+                    <span className="text-[12px] text-stone-500">
+                      Scheduled for {new Date(scheduledFor).toLocaleString()} ·{" "}
+                      <Link href="/dashboard/scheduled" className="font-medium text-stone-700 hover:text-stone-900">
+                        Manage
+                      </Link>
+                    </span>
                   ) : (
-                    "Publish to LinkedIn"
+                    !published && (
+                      <div className="flex items-center gap-1.5">
+                        <input
+                          type="datetime-local"
+                          value={scheduleAt}
+                          onChange={(e) => setScheduleAt(e.target.value)}
+                          disabled={scheduling || publishing}
+                          className="h-9 px-2.5 bg-stone-50 border border-stone-200 rounded-lg text-[12px] text-stone-700 focus:outline-none focus:ring-2 focus:ring-stone-900/10 focus:border-stone-400"
+                        />
+                        <button
+                          onClick={handleSchedule}
+                          disabled={
+                            !scheduleAt || scheduling || publishing || !!lint?.blocked || (targets.length > 0 && targetUrns.length === 0)
+                          }
+                          className="h-9 px-4 text-[13px] font-medium rounded-lg border border-stone-200 text-stone-700 hover:bg-stone-50 disabled:text-stone-300 transition-colors flex items-center gap-2"
+                        >
+                          {scheduling ? <><Spinner /> Scheduling…</> : "Schedule"}
+                        </button>
+                      </div>
+                    )
                   )}
-                </button>
+                  <button
+                    onClick={handlePublish}
+                    disabled={
+                      publishing || published || !!scheduledFor || !!lint?.blocked || (targets.length > 0 && targetUrns.length === 0)
+                    }
+                    className={`h-11 px-7 text-[14px] font-semibold rounded-xl transition-all flex items-center gap-2 ${
+                      published
+                        ? "bg-emerald-600 text-white cursor-default"
+                        : "bg-stone-900 hover:bg-stone-800 disabled:bg-stone-200 disabled:text-stone-400 text-white shadow-sm"
+                    }`}
+                  >
+                    {publishing ? (
+                      <><Spinner /> Publishing…</>
+                    ) : published ? (
+                      <>
+                        <svg className="w-4 h-4" fill="none" stroke="currentColor" strokeWidth="2.5" viewBox="0 0 24 24">
+                          <path strokeLinecap="round" strokeLinejoin="round" d="M5 13l4 4L19 7" />
+                        </svg>
+                        Published
+                      </>
+                    ) : (
+                      "Publish to LinkedIn"
+                    )}
+                  </button>
+                </div>
               </div>
             </div>
           </section>
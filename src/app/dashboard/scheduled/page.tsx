@@ -0,0 +1,223 @@
+"use client";
+
+import { useState, useEffect, useCallback } from "react";
+import Link from "next/link";
+import { describeMedia, type PostMedia } from "@/lib/media";
+import type { PublishJobStatus } from "@/lib/publishing";
+
+/* ─── Types ──────────────────────────────────────── */
+
+interface PublishJob {
+  id: string;
+  draftId: string;
+  text: string;
+  media: PostMedia | null;
+  /** Empty means the default LinkedIn identities */
+  targetUrns: string[];
+  scheduledAt: string;
+  status: PublishJobStatus;
+  attempts: number;
+  lastError: string | null;
+  linkedinPostId: string | null;
+  publishedAt: string | null;
+  draft: { prompt: string; format: string; language: string };
+}
+
+const STATUS_STYLES: Record<PublishJobStatus, string> = {
+  scheduled: "bg-sky-50 text-sky-700",
+  running: "bg-amber-50 text-amber-700",
+  published: "bg-emerald-50 text-emerald-700",
+  failed: "bg-red-50 text-red-600",
+  cancelled: "bg-stone-100 text-stone-500",
+};
+
+const FILTERS: { value: PublishJobStatus | ""; label: string }[] = [
+  { value: "", label: "All" },
+  { value: "scheduled", label: "Upcoming" },
+  { value: "published", label: "Published" },
+  { value: "failed", label: "Failed" },
+  { value: "cancelled", label: "Cancelled" },
+];
+
+/** ISO timestamp → value for a datetime-local input, in local time */
+function toLocalInput(iso: string): string {
+  const d = new Date(iso);
+  const pad = (n: number) => String(n).padStart(2, "0");
+  return `${d.getFullYear()}-${pad(d.getMonth() + 1)}-${pad(d.getDate())}T${pad(d.getHours())}:${pad(d.getMinutes())}`;
+}
+
+/* ─── Main Component ─────────────────────────────── */
+
+export default function ScheduledPage() {
+  const [jobs, setJobs] = useState<PublishJob[]>([]);
+  const [filter, setFilter] = useState<PublishJobStatus | "">("scheduled");
+  const [editing, setEditing] = useState<{ id: string; at: string } | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState("");
+
+  const load = useCallback(async () => {
+    try {
+      const res = await fetch(`/api/publish-jobs${filter ? `?status=${filter}` : ""}`);
+      if (!res.ok) throw new Error("Failed to load scheduled posts");
+      setJobs(await res.json());
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to load scheduled posts");
+    } finally {
+      setLoading(false);
+    }
+  }, [filter]);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  async function send(url: string, init: RequestInit) {
+    setError("");
+    try {
+      const res = await fetch(url, {
+        ...init,
+        headers: { "Content-Type": "application/json" },
+      });
+      if (!res.ok) {
+        const err = await res.json();
+        throw new Error(err.details?.fieldErrors?.scheduledAt?.[0] ?? err.error ?? `HTTP ${res.status}`);
+      }
+      await load();
+      return true;
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Request failed");
+      return false;
+    }
+  }
+
+  async function handleReschedule() {
+    if (!editing) return;
+    const ok = await send(`/api/publish-jobs/${editing.id}`, {
+      method: "PATCH",
+      body: JSON.stringify({ scheduledAt: new Date(editing.at).toISOString() }),
+    });
+    if (ok) setEditing(null);
+  }
+
+  async function handleCancel(id: string) {
+    if (!confirm("Cancel this scheduled post?")) return;
+    await send(`/api/publish-jobs/${id}/cancel`, { method: "POST" });
+  }
+
+  /* ─── Render ─────────────────────────────────── */
+  return (
+    <div className="min-h-screen bg-stone-100/80">
+      <header className="sticky top-0 z-50 bg-white/70 backdrop-blur-xl border-b border-stone-200/60">
+        <div className="max-w-6xl mx-auto px-6 h-14 flex items-center justify-between">
+          <span className="text-sm font-semibold tracking-tight text-stone-900">Scheduled Posts</span>
+          <Link href="/dashboard" className="text-[13px] text-stone-500 hover:text-stone-900 font-medium transition-colors">
+            ← Dashboard
+          </Link>
+        </div>
+      </header>
+
+      <main className="max-w-6xl mx-auto px-6 py-6 space-y-5">
+        <div className="flex items-center gap-1.5">
+          {FILTERS.map((f) => (
+            <button
+              key={f.value}
+              onClick={() => setFilter(f.value)}
+              className={`text-[12px] font-medium px-3 py-1.5 rounded-lg ${
+                filter === f.value ? "bg-stone-900 text-white" : "text-stone-500 hover:bg-white"
+              }`}
+            >
+              {f.label}
+            </button>
+          ))}
+          <button onClick={load} className="ml-auto text-[12px] font-medium text-stone-500 hover:text-stone-900">
+            Refresh
+          </button>
+        </div>
+
+        {error && (
+          <div className="rounded-lg px-4 py-2.5 text-[13px] font-medium bg-red-50 text-red-700 border border-red-200/60">
+            {error}
+          </div>
+        )}
+
+        {!loading && jobs.length === 0 && (
+          <p className="text-center text-[13px] text-stone-400 py-10">
+            Nothing here. Schedule a post from the publish step on the dashboard.
+          </p>
+        )}
+
+        <div className="space-y-3">
+          {jobs.map((job) => {
+            const editable = job.status === "scheduled" || job.status === "failed";
+            return (
+              <article key={job.id} className="card-surface p-4 space-y-2">
+                <div className="flex items-center gap-2 flex-wrap">
+                  <span className={`text-[10px] font-medium px-1.5 py-0.5 rounded ${STATUS_STYLES[job.status]}`}>
+                    {job.status}
+                  </span>
+                  <span className="text-[12px] font-medium text-stone-800 tabular-nums">
+                    {new Date(job.publishedAt ?? job.scheduledAt).toLocaleString()}
+                  </span>
+                  {job.attempts > 0 && (
+                    <span className="text-[11px] text-stone-400">
+                      {job.attempts} attempt{job.attempts > 1 ? "s" : ""}
+                    </span>
+                  )}
+                  {job.media && <span className="text-[11px] text-stone-400">· with {describeMedia(job.media)}</span>}
+                  {job.targetUrns.length > 1 && (
+                    <span className="text-[11px] text-stone-400">· {job.targetUrns.length} accounts</span>
+                  )}
+                  {job.linkedinPostId?.startsWith("dry-run-") && (
+                    <span className="text-[11px] text-stone-400">· dry run</span>
+                  )}
+                  {editable && (
+                    <div className="ml-auto flex items-center gap-2">
+                      {editing?.id === job.id ? (
+                        <>
+                          <input
+                            type="datetime-local"
+                            value={editing.at}
+                            onChange={(e) => setEditing({ id: job.id, at: e.target.value })}
+                            className="h-8 px-2 bg-stone-50 border border-stone-200 rounded-md text-[12px] text-stone-700"
+                          />
+                          <button
+                            onClick={handleReschedule}
+                            disabled={!editing.at}
+                            className="text-[12px] font-medium text-stone-700 hover:text-stone-900"
+                          >
+                            Save
+                          </button>
+                          <button onClick={() => setEditing(null)} className="text-[12px] text-stone-400 hover:text-stone-700">
+                            Close
+                          </button>
+                        </>
+                      ) : (
+                        <button
+                          onClick={() => setEditing({ id: job.id, at: toLocalInput(job.scheduledAt) })}
+                          className="text-[12px] font-medium text-stone-500 hover:text-stone-900"
+                        >
+                          {job.status === "failed" ? "Retry at…" : "Reschedule"}
+                        </button>
+                      )}
+                      <button
+                        onClick={() => handleCancel(job.id)}
+                        className="text-[12px] font-medium text-stone-400 hover:text-red-600"
+                      >
+                        Cancel
+                      </button>
+                    </div>
+                  )}
+                </div>
+                <p className="text-[11px] text-stone-500 line-clamp-1">Brief: {job.draft.prompt}</p>
+                <p className="text-[12.5px] text-stone-700 whitespace-pre-wrap line-clamp-4">{job.text}</p>
+                {job.lastError && (
+                  <p className="text-[11px] text-red-600 bg-red-50 rounded px-2 py-1">{job.lastError}</p>
+                )}
+              </article>
+            );
+          })}
+        </div>
+      </main>
+    </div>
+  );
+}
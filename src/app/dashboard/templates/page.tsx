@@ -0,0 +1,252 @@
+"use client";
+
+import { useState, useEffect } from "react";
+import Link from "next/link";
+import { FORMAT_LABELS, POST_FORMATS, type PostFormat } from "@/lib/formats";
+import { templateVariables } from "@/lib/templates";
+
+/* ─── Types ──────────────────────────────────────── */
+
+interface PromptTemplate {
+  id: string;
+  name: string;
+  body: string;
+  format: PostFormat;
+  voiceProfileId: string | null;
+}
+
+interface VoiceOption {
+  id: string;
+  name: string;
+}
+
+interface TemplateForm {
+  name: string;
+  body: string;
+  format: PostFormat;
+  voiceProfileId: string;
+}
+
+const EMPTY_FORM: TemplateForm = {
+  name: "",
+  body: "",
+  format: "post",
+  voiceProfileId: "",
+};
+
+function toForm(t: PromptTemplate): TemplateForm {
+  return {
+    name: t.name,
+    body: t.body,
+    format: t.format,
+    voiceProfileId: t.voiceProfileId ?? "",
+  };
+}
+
+function toPayload(f: TemplateForm) {
+  return {
+    name: f.name.trim(),
+    body: f.body.trim(),
+    format: f.format,
+    voiceProfileId: f.voiceProfileId || null,
+  };
+}
+
+const inputClass =
+  "w-full bg-stone-50 border border-stone-200 rounded-lg px-3 py-2 text-[13px] text-stone-800 placeholder-stone-400 focus:outline-none focus:ring-2 focus:ring-stone-900/10 focus:border-stone-400";
+
+/* ─── Main Component ─────────────────────────────── */
+
+export default function TemplatesPage() {
+  const [templates, setTemplates] = useState<PromptTemplate[]>([]);
+  const [voices, setVoices] = useState<VoiceOption[]>([]);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [form, setForm] = useState<TemplateForm>(EMPTY_FORM);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState("");
+
+  async function loadTemplates() {
+    try {
+      const res = await fetch("/api/templates");
+      if (!res.ok) throw new Error("Failed to load templates");
+      setTemplates(await res.json());
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to load templates");
+    }
+  }
+
+  useEffect(() => {
+    loadTemplates();
+    (async () => {
+      try {
+        const res = await fetch("/api/voices");
+        if (res.ok) setVoices(await res.json());
+      } catch {
+        setVoices([]);
+      }
+    })();
+  }, []);
+
+  function startEdit(t: PromptTemplate | null) {
+    setEditingId(t?.id ?? null);
+    setForm(t ? toForm(t) : EMPTY_FORM);
+    setError("");
+  }
+
+  async function handleSave() {
+    setSaving(true);
+    setError("");
+    try {
+      const res = await fetch(editingId ? `/api/templates/${editingId}` : "/api/templates", {
+        method: editingId ? "PATCH" : "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(toPayload(form)),
+      });
+      if (!res.ok) {
+        const err = await res.json();
+        throw new Error(err.error ?? `HTTP ${res.status}`);
+      }
+      const saved: PromptTemplate = await res.json();
+      setEditingId(saved.id);
+      await loadTemplates();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Save failed");
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  async function handleDelete() {
+    if (!editingId || !confirm("Delete this template?")) return;
+    try {
+      const res = await fetch(`/api/templates/${editingId}`, { method: "DELETE" });
+      if (!res.ok) throw new Error("Delete failed");
+      startEdit(null);
+      await loadTemplates();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Delete failed");
+    }
+  }
+
+  const field = (key: keyof TemplateForm) => ({
+    value: form[key],
+    onChange: (e: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement | HTMLSelectElement>) =>
+      setForm((prev) => ({ ...prev, [key]: e.target.value })),
+  });
+
+  const variables = templateVariables(form.body);
+
+  /* ─── Render ─────────────────────────────────── */
+  return (
+    <div className="min-h-screen bg-stone-100/80">
+      <header className="sticky top-0 z-50 bg-white/70 backdrop-blur-xl border-b border-stone-200/60">
+        <div className="max-w-6xl mx-auto px-6 h-14 flex items-center justify-between">
+          <span className="text-sm font-semibold tracking-tight text-stone-900">Prompt Templates</span>
+          <Link href="/dashboard" className="text-[13px] text-stone-500 hover:text-stone-900 font-medium transition-colors">
+            ← Dashboard
+          </Link>
+        </div>
+      </header>
+
+      <main className="max-w-6xl mx-auto px-6 py-6 grid grid-cols-1 md:grid-cols-[240px_1fr] gap-5">
+        {/* ── List ── */}
+        <aside className="card-surface p-3 space-y-1 self-start">
+          <button
+            onClick={() => startEdit(null)}
+            className={`w-full text-left px-3 py-2 rounded-lg text-[13px] font-medium ${
+              editingId === null ? "bg-stone-900 text-white" : "text-stone-600 hover:bg-stone-50"
+            }`}
+          >
+            + New template
+          </button>
+          {templates.map((t) => (
+            <button
+              key={t.id}
+              onClick={() => startEdit(t)}
+              className={`w-full text-left px-3 py-2 rounded-lg text-[13px] ${
+                editingId === t.id ? "bg-stone-900 text-white" : "text-stone-700 hover:bg-stone-50"
+              }`}
+            >
+              {t.name}
+            </button>
+          ))}
+        </aside>
+
+        {/* ── Form ── */}
+        <section className="card-surface p-5 space-y-4">
+          {error && (
+            <div className="rounded-lg px-4 py-2.5 text-[13px] font-medium bg-red-50 text-red-700 border border-red-200/60">
+              {error}
+            </div>
+          )}
+
+          <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+            <label className="block space-y-1">
+              <span className="text-[12px] font-medium text-stone-600">Name</span>
+              <input {...field("name")} className={inputClass} placeholder="e.g. Weekly product update" />
+            </label>
+            <label className="block space-y-1">
+              <span className="text-[12px] font-medium text-stone-600">Default format</span>
+              <select {...field("format")} className={inputClass}>
+                {POST_FORMATS.map((f) => (
+                  <option key={f} value={f}>{FORMAT_LABELS[f]}</option>
+                ))}
+              </select>
+            </label>
+            <label className="block space-y-1">
+              <span className="text-[12px] font-medium text-stone-600">Default voice</span>
+              <select {...field("voiceProfileId")} className={inputClass}>
+                <option value="">Default voice</option>
+                {voices.map((v) => (
+                  <option key={v.id} value={v.id}>{v.name}</option>
+                ))}
+              </select>
+            </label>
+          </div>
+
+          <label className="block space-y-1">
+            <span className="text-[12px] font-medium text-stone-600">
+              Prompt — use {"{{variable}}"} for the parts that change each time
+            </span>
+            <textarea
+              {...field("body")}
+              rows={8}
+              className={`${inputClass} resize-y font-mono text-[12.5px]`}
+              placeholder={"Write a post announcing {{feature}} for {{audience}}. Mention that it ships on {{date}}."}
+            />
+          </label>
+
+          <div className="flex flex-wrap items-center gap-1.5">
+            <span className="text-[11px] font-medium text-stone-500">Variables:</span>
+            {variables.length === 0 ? (
+              <span className="text-[11px] text-stone-400">none</span>
+            ) : (
+              variables.map((v) => (
+                <span key={v} className="text-[11px] font-mono px-1.5 py-0.5 rounded bg-stone-100 text-stone-600">
+                  {v}
+                </span>
+              ))
+            )}
+          </div>
+
+          <div className="flex items-center justify-between pt-1">
+            {editingId ? (
+              <button onClick={handleDelete} className="text-[13px] text-red-500 hover:text-red-700 font-medium">
+                Delete
+              </button>
+            ) : (
+              <span />
+            )}
+            <button
+              onClick={handleSave}
+              disabled={saving || !form.name.trim() || !form.body.trim()}
+              className="h-9 px-5 bg-stone-900 hover:bg-stone-800 disabled:bg-stone-200 disabled:text-stone-400 text-white text-[13px] font-medium rounded-lg transition-colors"
+            >
+              {saving ? "Saving…" : editingId ? "Save changes" : "Create template"}
+            </button>
+          </div>
+        </section>
+      </main>
+    </div>
+  );
+}
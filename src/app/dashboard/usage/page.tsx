@@ -0,0 +1,174 @@
+"use client";
+
+import { useState, useEffect } from "react";
+import Link from "next/link";
+import { formatCost, formatLatency } from "@/lib/format";
+
+/* ─── Types ──────────────────────────────────────── */
+
+interface UsageTotals {
+  calls: number;
+  promptTokens: number;
+  completionTokens: number;
+  costUsd: number | null;
+  avgLatencyMs: number | null;
+}
+
+interface ModelUsage extends UsageTotals {
+  modelId: string;
+  modelName: string;
+  vendor: string | null;
+  failures: number;
+}
+
+interface PurposeUsage extends UsageTotals {
+  purpose: string;
+}
+
+interface UsageReport {
+  since: string;
+  models: ModelUsage[];
+  purposes: PurposeUsage[];
+  totals: UsageTotals;
+}
+
+const WINDOWS = [7, 30, 90];
+
+/* ─── Main Component ─────────────────────────────── */
+
+export default function UsagePage() {
+  const [days, setDays] = useState(30);
+  const [report, setReport] = useState<UsageReport | null>(null);
+  const [error, setError] = useState("");
+
+  useEffect(() => {
+    (async () => {
+      try {
+        const res = await fetch(`/api/usage?days=${days}`);
+        if (!res.ok) throw new Error("Failed to load usage");
+        setReport(await res.json());
+        setError("");
+      } catch (err) {
+        setError(err instanceof Error ? err.message : "Failed to load usage");
+      }
+    })();
+  }, [days]);
+
+  const cell = "px-3 py-2 text-right tabular-nums";
+
+  /* ─── Render ─────────────────────────────────── */
+  return (
+    <div className="min-h-screen bg-stone-100/80">
+      <header className="sticky top-0 z-50 bg-white/70 backdrop-blur-xl border-b border-stone-200/60">
+        <div className="max-w-6xl mx-auto px-6 h-14 flex items-center justify-between">
+          <span className="text-sm font-semibold tracking-tight text-stone-900">Usage &amp; Cost</span>
+          <Link href="/dashboard" className="text-[13px] text-stone-500 hover:text-stone-900 font-medium transition-colors">
+            ← Dashboard
+          </Link>
+        </div>
+      </header>
+
+      <main className="max-w-6xl mx-auto px-6 py-6 space-y-5">
+        <div className="flex items-center gap-1">
+          {WINDOWS.map((d) => (
+            <button
+              key={d}
+              onClick={() => setDays(d)}
+              className={`h-8 px-3 rounded-lg text-[12px] font-medium transition-colors ${
+                days === d ? "bg-stone-900 text-white" : "text-stone-600 hover:bg-white"
+              }`}
+            >
+              Last {d} days
+            </button>
+          ))}
+        </div>
+
+        {error && (
+          <div className="rounded-lg px-4 py-2.5 text-[13px] font-medium bg-red-50 text-red-700 border border-red-200/60">
+            {error}
+          </div>
+        )}
+
+        {report && (
+          <>
+            <section className="grid grid-cols-2 md:grid-cols-4 gap-4">
+              {[
+                { label: "Calls", value: report.totals.calls.toLocaleString() },
+                {
+                  label: "Tokens",
+                  value: (report.totals.promptTokens + report.totals.completionTokens).toLocaleString(),
+                },
+                {
+                  label: "Estimated cost",
+                  value: report.totals.costUsd != null ? formatCost(report.totals.costUsd) : "—",
+                },
+                {
+                  label: "Avg latency",
+                  value: report.totals.avgLatencyMs != null ? formatLatency(report.totals.avgLatencyMs) : "—",
+                },
+              ].map((stat) => (
+                <div key={stat.label} className="card-surface p-4">
+                  <p className="text-[11px] font-medium text-stone-500">{stat.label}</p>
+                  <p className="mt-1 text-lg font-semibold text-stone-900 tabular-nums">{stat.value}</p>
+                </div>
+              ))}
+            </section>
+
+            <section className="card-surface p-4">
+              <h2 className="text-[13px] font-semibold text-stone-900 mb-3">By model</h2>
+              {report.models.length === 0 ? (
+                <p className="text-[13px] text-stone-400">No provider calls in this window.</p>
+              ) : (
+                <table className="w-full text-[12.5px] text-stone-700">
+                  <thead className="text-[11px] text-stone-500 border-b border-stone-100">
+                    <tr>
+                      <th className="px-3 py-2 text-left font-medium">Model</th>
+                      <th className="px-3 py-2 text-right font-medium">Calls</th>
+                      <th className="px-3 py-2 text-right font-medium">Failed</th>
+                      <th className="px-3 py-2 text-right font-medium">Prompt tokens</th>
+                      <th className="px-3 py-2 text-right font-medium">Completion tokens</th>
+                      <th className="px-3 py-2 text-right font-medium">Avg latency</th>
+                      <th className="px-3 py-2 text-right font-medium">Est. cost</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {report.models.map((m) => (
+                      <tr key={m.modelId} className="border-b border-stone-50 last:border-0">
+                        <td className="px-3 py-2">
+                          <span className="font-medium text-stone-900">{m.modelName}</span>
+                          {m.vendor && <span className="ml-1.5 text-[11px] text-stone-400">{m.vendor}</span>}
+                        </td>
+                        <td className={cell}>{m.calls}</td>
+                        <td className={`${cell} ${m.failures ? "text-red-600" : ""}`}>
+                          {m.failures ? `${m.failures} (${Math.round((m.failures / m.calls) * 100)}%)` : "0"}
+                        </td>
+                        <td className={cell}>{m.promptTokens.toLocaleString()}</td>
+                        <td className={cell}>{m.completionTokens.toLocaleString()}</td>
+                        <td className={cell}>{m.avgLatencyMs != null ? formatLatency(m.avgLatencyMs) : "—"}</td>
+                        <td className={cell}>{m.costUsd != null ? formatCost(m.costUsd) : "—"}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              )}
+            </section>
+
+            {report.purposes.length > 0 && (
+              <section className="card-surface p-4">
+                <h2 className="text-[13px] font-semibold text-stone-900 mb-3">By purpose</h2>
+                <div className="flex flex-wrap gap-2">
+                  {report.purposes.map((p) => (
+                    <span key={p.purpose} className="text-[12px] px-2.5 py-1 rounded-md bg-stone-50 text-stone-600 tabular-nums">
+                      <span className="font-medium text-stone-900 capitalize">{p.purpose}</span> · {p.calls} calls
+                      {p.costUsd != null && ` · ${formatCost(p.costUsd)}`}
+                    </span>
+                  ))}
+                </div>
+              </section>
+            )}
+          </>
+        )}
+      </main>
+    </div>
+  );
+}
@@ -0,0 +1,259 @@
+"use client";
+
+import { useState, useEffect } from "react";
+import Link from "next/link";
+
+/* ─── Types ──────────────────────────────────────── */
+
+type HashtagPolicy = "none" | "end" | "inline";
+
+interface VoiceProfile {
+  id: string;
+  name: string;
+  tone: string | null;
+  audience: string | null;
+  doRules: string[];
+  dontRules: string[];
+  examplePosts: string[];
+  hashtagPolicy: HashtagPolicy;
+  systemPrompt: string | null;
+}
+
+/** Editable form state — list fields are edited as plain text */
+interface VoiceForm {
+  name: string;
+  tone: string;
+  audience: string;
+  doRules: string;
+  dontRules: string;
+  examplePosts: string;
+  hashtagPolicy: HashtagPolicy;
+  systemPrompt: string;
+}
+
+const EMPTY_FORM: VoiceForm = {
+  name: "",
+  tone: "",
+  audience: "",
+  doRules: "",
+  dontRules: "",
+  examplePosts: "",
+  hashtagPolicy: "none",
+  systemPrompt: "",
+};
+
+const HASHTAG_OPTIONS: { value: HashtagPolicy; label: string }[] = [
+  { value: "none", label: "No hashtags" },
+  { value: "end", label: "3–5 at the end" },
+  { value: "inline", label: "1–3 inline" },
+];
+
+/** Example posts are separated by a line containing only "---" */
+const EXAMPLE_SEPARATOR = /^\s*---\s*$/m;
+
+function toForm(v: VoiceProfile): VoiceForm {
+  return {
+    name: v.name,
+    tone: v.tone ?? "",
+    audience: v.audience ?? "",
+    doRules: v.doRules.join("\n"),
+    dontRules: v.dontRules.join("\n"),
+    examplePosts: v.examplePosts.join("\n---\n"),
+    hashtagPolicy: v.hashtagPolicy,
+    systemPrompt: v.systemPrompt ?? "",
+  };
+}
+
+function toPayload(f: VoiceForm) {
+  const lines = (s: string) => s.split("\n").map((l) => l.trim()).filter(Boolean);
+  return {
+    name: f.name.trim(),
+    tone: f.tone.trim() || null,
+    audience: f.audience.trim() || null,
+    doRules: lines(f.doRules),
+    dontRules: lines(f.dontRules),
+    examplePosts: f.examplePosts.split(EXAMPLE_SEPARATOR).map((p) => p.trim()).filter(Boolean),
+    hashtagPolicy: f.hashtagPolicy,
+    systemPrompt: f.systemPrompt.trim() || null,
+  };
+}
+
+const inputClass =
+  "w-full bg-stone-50 border border-stone-200 rounded-lg px-3 py-2 text-[13px] text-stone-800 placeholder-stone-400 focus:outline-none focus:ring-2 focus:ring-stone-900/10 focus:border-stone-400";
+
+/* ─── Main Component ─────────────────────────────── */
+
+export default function VoicesPage() {
+  const [voices, setVoices] = useState<VoiceProfile[]>([]);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [form, setForm] = useState<VoiceForm>(EMPTY_FORM);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState("");
+
+  async function loadVoices() {
+    try {
+      const res = await fetch("/api/voices");
+      if (!res.ok) throw new Error("Failed to load voice profiles");
+      setVoices(await res.json());
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to load voice profiles");
+    }
+  }
+
+  useEffect(() => {
+    loadVoices();
+  }, []);
+
+  function startEdit(v: VoiceProfile | null) {
+    setEditingId(v?.id ?? null);
+    setForm(v ? toForm(v) : EMPTY_FORM);
+    setError("");
+  }
+
+  async function handleSave() {
+    setSaving(true);
+    setError("");
+    try {
+      const res = await fetch(editingId ? `/api/voices/${editingId}` : "/api/voices", {
+        method: editingId ? "PATCH" : "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(toPayload(form)),
+      });
+      if (!res.ok) {
+        const err = await res.json();
+        throw new Error(err.error ?? `HTTP ${res.status}`);
+      }
+      const saved: VoiceProfile = await res.json();
+      setEditingId(saved.id);
+      await loadVoices();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Save failed");
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  async function handleDelete() {
+    if (!editingId || !confirm("Delete this voice profile?")) return;
+    try {
+      const res = await fetch(`/api/voices/${editingId}`, { method: "DELETE" });
+      if (!res.ok) throw new Error("Delete failed");
+      startEdit(null);
+      await loadVoices();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Delete failed");
+    }
+  }
+
+  const field = (key: keyof VoiceForm) => ({
+    value: form[key],
+    onChange: (e: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement | HTMLSelectElement>) =>
+      setForm((prev) => ({ ...prev, [key]: e.target.value })),
+  });
+
+  /* ─── Render ─────────────────────────────────── */
+  return (
+    <div className="min-h-screen bg-stone-100/80">
+      <header className="sticky top-0 z-50 bg-white/70 backdrop-blur-xl border-b border-stone-200/60">
+        <div className="max-w-6xl mx-auto px-6 h-14 flex items-center justify-between">
+          <span className="text-sm font-semibold tracking-tight text-stone-900">Voice Profiles</span>
+          <Link href="/dashboard" className="text-[13px] text-stone-500 hover:text-stone-900 font-medium transition-colors">
+            ← Dashboard
+          </Link>
+        </div>
+      </header>
+
+      <main className="max-w-6xl mx-auto px-6 py-6 grid grid-cols-1 md:grid-cols-[240px_1fr] gap-5">
+        {/* ── List ── */}
+        <aside className="card-surface p-3 space-y-1 self-start">
+          <button
+            onClick={() => startEdit(null)}
+            className={`w-full text-left px-3 py-2 rounded-lg text-[13px] font-medium ${
+              editingId === null ? "bg-stone-900 text-white" : "text-stone-600 hover:bg-stone-50"
+            }`}
+          >
+            + New profile
+          </button>
+          {voices.map((v) => (
+            <button
+              key={v.id}
+              onClick={() => startEdit(v)}
+              className={`w-full text-left px-3 py-2 rounded-lg text-[13px] ${
+                editingId === v.id ? "bg-stone-900 text-white" : "text-stone-700 hover:bg-stone-50"
+              }`}
+            >
+              {v.name}
+            </button>
+          ))}
+        </aside>
+
+        {/* ── Form ── */}
+        <section className="card-surface p-5 space-y-4">
+          {error && (
+            <div className="rounded-lg px-4 py-2.5 text-[13px] font-medium bg-red-50 text-red-700 border border-red-200/60">
+              {error}
+            </div>
+          )}
+
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+            <label className="block space-y-1">
+              <span className="text-[12px] font-medium text-stone-600">Name</span>
+              <input {...field("name")} className={inputClass} placeholder="e.g. Founder — candid" />
+            </label>
+            <label className="block space-y-1">
+              <span className="text-[12px] font-medium text-stone-600">Hashtags</span>
+              <select {...field("hashtagPolicy")} className={inputClass}>
+                {HASHTAG_OPTIONS.map((o) => (
+                  <option key={o.value} value={o.value}>{o.label}</option>
+                ))}
+              </select>
+            </label>
+            <label className="block space-y-1">
+              <span className="text-[12px] font-medium text-stone-600">Tone</span>
+              <input {...field("tone")} className={inputClass} placeholder="Warm, direct, a little dry" />
+            </label>
+            <label className="block space-y-1">
+              <span className="text-[12px] font-medium text-stone-600">Audience</span>
+              <input {...field("audience")} className={inputClass} placeholder="B2B SaaS founders and operators" />
+            </label>
+            <label className="block space-y-1">
+              <span className="text-[12px] font-medium text-stone-600">Do — one rule per line</span>
+              <textarea {...field("doRules")} rows={4} className={`${inputClass} resize-none`} />
+            </label>
+            <label className="block space-y-1">
+              <span className="text-[12px] font-medium text-stone-600">Don&apos;t — one rule per line</span>
+              <textarea {...field("dontRules")} rows={4} className={`${inputClass} resize-none`} />
+            </label>
+          </div>
+
+          <label className="block space-y-1">
+            <span className="text-[12px] font-medium text-stone-600">Example posts — separate with a line containing ---</span>
+            <textarea {...field("examplePosts")} rows={6} className={`${inputClass} resize-y`} />
+          </label>
+
+          <label className="block space-y-1">
+            <span className="text-[12px] font-medium text-stone-600">System prompt — leave empty to use the default</span>
+            <textarea {...field("systemPrompt")} rows={3} className={`${inputClass} resize-y`} />
+          </label>
+
+          <div className="flex items-center justify-between pt-1">
+            {editingId ? (
+              <button onClick={handleDelete} className="text-[13px] text-red-500 hover:text-red-700 font-medium">
+                Delete
+              </button>
+            ) : (
+              <span />
+            )}
+            <button
+              onClick={handleSave}
+              disabled={saving || !form.name.trim()}
+              className="h-9 px-5 bg-stone-900 hover:bg-stone-800 disabled:bg-stone-200 disabled:text-stone-400 text-white text-[13px] font-medium rounded-lg transition-colors"
+            >
+              {saving ? "Saving…" : editingId ? "Save changes" : "Create profile"}
+            </button>
+          </div>
+        </section>
+      </main>
+    </div>
+  );
+}
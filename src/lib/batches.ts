@@ -0,0 +1,256 @@
+/**
+ * Bulk generation from a topic list. Each row moves
+ * queued → running → done | failed and records the draft it produced.
+ */
+
+import { z } from "zod";
+import { POST_FORMATS, type PostFormat } from "@/lib/formats";
+import { generateDraft, generationSettingsSchema, prepareGeneration } from "@/lib/generation";
+import { prisma } from "@/lib/prisma";
+import { waitForRateLimit } from "@/lib/rate-limit";
+
+/** Rows per import — keeps one batch to an afternoon of quota */
+export const MAX_BATCH_ROWS = 200;
+
+/** Rows generated at once; each row still fans out to every selected model */
+const CONCURRENCY = Math.max(1, Number(process.env.BATCH_CONCURRENCY ?? 2));
+/** Rows left "running" longer than this were orphaned by a restart */
+const STALE_RUNNING_MS = 10 * 60_000;
+/**
+ * A pass stops claiming rows after this long, so rows it started can
+ * finish within the 5-minute function limit; the cron takes the rest
+ */
+const CLAIM_WINDOW_MS = 3 * 60_000;
+/** Rate-limit key for rows the cron generates — the requester's IP isn't stored */
+const WORKER_RATE_KEY = "batch-worker";
+
+/** One topic row after column mapping, before voice names are resolved */
+export const batchRowSchema = z.object({
+  topic: z.string().trim().min(1).max(15000),
+  voice: z.string().trim().optional(),
+  format: z.enum(POST_FORMATS).default("post"),
+  targetDate: z.coerce.date().optional(),
+});
+export type BatchRowInput = z.infer<typeof batchRowSchema>;
+
+/** Spreadsheet headers we accept for each field (compared lowercase, without spaces/_/-) */
+const COLUMN_ALIASES: Record<keyof BatchRowInput, string[]> = {
+  topic: ["topic", "prompt", "brief", "idea"],
+  voice: ["voice", "voiceprofile", "voiceprofileid"],
+  format: ["format", "type"],
+  targetDate: ["targetdate", "date", "publishdate", "publishon"],
+};
+
+const normalizeHeader = (h: string) => h.toLowerCase().replace(/[\s_-]/g, "");
+
+/** Minimal RFC 4180 parser: quoted fields, escaped quotes, CRLF or LF */
+export function parseCsv(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = "";
+  let quoted = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const ch = text[i];
+    if (quoted) {
+      if (ch === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (ch === '"') {
+        quoted = false;
+      } else {
+        field += ch;
+      }
+    } else if (ch === '"') {
+      quoted = true;
+    } else if (ch === ",") {
+      row.push(field);
+      field = "";
+    } else if (ch === "\n" || ch === "\r") {
+      if (ch === "\r" && text[i + 1] === "\n") i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = "";
+    } else {
+      field += ch;
+    }
+  }
+  if (field || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+  return rows.filter((r) => r.some((cell) => cell.trim()));
+}
+
+/** Map arbitrary spreadsheet/JSON keys onto BatchRowInput fields */
+function mapColumns(record: Record<string, unknown>): Record<string, unknown> {
+  const mapped: Record<string, unknown> = {};
+  for (const [key, value] of Object.entries(record)) {
+    const field = (Object.keys(COLUMN_ALIASES) as (keyof BatchRowInput)[]).find((f) =>
+      COLUMN_ALIASES[f].includes(normalizeHeader(key))
+    );
+    // Empty cells mean "use the default", not an empty value
+    if (field && value !== "" && value !== null) mapped[field] = value;
+  }
+  return mapped;
+}
+
+/** Turn CSV text (header row required) into one record per line */
+export function csvRecords(content: string): Record<string, string>[] {
+  const [header, ...lines] = parseCsv(content);
+  if (!header) return [];
+  return lines.map((cells) =>
+    Object.fromEntries(header.map((h, i) => [h, cells[i]?.trim() ?? ""]))
+  );
+}
+
+/**
+ * Validate imported rows — objects keyed by any accepted column name, or
+ * plain topic strings. Errors name the offending (1-based) row.
+ */
+export function parseBatchRecords(
+  records: unknown[]
+): { ok: true; rows: BatchRowInput[] } | { ok: false; error: string } {
+  if (records.length === 0) return { ok: false, error: "No rows found" };
+  if (records.length > MAX_BATCH_ROWS) {
+    return { ok: false, error: `Too many rows (max ${MAX_BATCH_ROWS})` };
+  }
+
+  const rows: BatchRowInput[] = [];
+  for (const [i, record] of records.entries()) {
+    const fields =
+      typeof record === "string"
+        ? { topic: record }
+        : mapColumns(record && typeof record === "object" ? (record as Record<string, unknown>) : {});
+    const parsed = batchRowSchema.safeParse(fields);
+    if (!parsed.success) {
+      const issue = parsed.error.issues[0];
+      return { ok: false, error: `Row ${i + 1}: ${issue.path.join(".") || "row"} — ${issue.message}` };
+    }
+    rows.push(parsed.data);
+  }
+  return { ok: true, rows };
+}
+
+/** Atomically move the next queued row to "running" so parallel workers never share one */
+async function claimNextRow(batchId: string) {
+  for (;;) {
+    const next = await prisma.batchRow.findFirst({
+      where: { batchId, status: "queued" },
+      orderBy: { position: "asc" },
+    });
+    if (!next) return null;
+    const { count } = await prisma.batchRow.updateMany({
+      where: { id: next.id, status: "queued" },
+      data: { status: "running", startedAt: new Date() },
+    });
+    if (count === 1) return next;
+  }
+}
+
+/**
+ * Work through a batch's queued rows, CONCURRENCY at a time, claiming
+ * new ones until `claimUntil`. Every row goes through the same
+ * prepare → generate pipeline as /api/generate and spends one request
+ * from `ip`'s rate-limit budget, waiting when it's exhausted. Progress
+ * lives on the rows, so this is safe to call again to resume. Returns
+ * the number of rows it worked on.
+ */
+export async function processBatch(
+  batchId: string,
+  ip: string,
+  claimUntil = Date.now() + CLAIM_WINDOW_MS
+): Promise<number> {
+  const batch = await prisma.batch.findUnique({ where: { id: batchId } });
+  if (!batch) return 0;
+  const { judge = false, ...settings } = generationSettingsSchema.parse(batch.settings);
+
+  let processed = 0;
+  const claim = () => (Date.now() < claimUntil ? claimNextRow(batchId) : null);
+  const worker = async () => {
+    for (let row = await claim(); row; row = await claim()) {
+      processed++;
+      try {
+        await waitForRateLimit(ip);
+        const result = await prepareGeneration({
+          ...settings,
+          prompt: row.topic,
+          voiceProfileId: row.voiceProfileId ?? undefined,
+          format: row.format as PostFormat,
+          targetDate: row.targetDate ?? undefined,
+        });
+        if (!result.ok) throw new Error(result.error);
+
+        const draft = await generateDraft(result.prepared, judge);
+        const allFailed = draft.variants.every((v) => v.error);
+        await prisma.batchRow.update({
+          where: { id: row.id },
+          data: {
+            status: allFailed ? "failed" : "done",
+            draftId: draft.id,
+            error: allFailed ? "Every model failed for this topic" : null,
+            finishedAt: new Date(),
+          },
+        });
+      } catch (err) {
+        console.error(`[batches] Row ${row.id} failed:`, err);
+        await prisma.batchRow.update({
+          where: { id: row.id },
+          data: {
+            status: "failed",
+            error: err instanceof Error ? err.message : "Generation failed",
+            finishedAt: new Date(),
+          },
+        });
+      }
+    }
+  };
+
+  await Promise.all(Array.from({ length: CONCURRENCY }, worker));
+  return processed;
+}
+
+/**
+ * Cron pass over every batch: put rows orphaned by a cut-off run back in
+ * the queue, then work through queued rows, oldest batch first, until the
+ * claim window that opened at `startedAt` closes.
+ */
+export async function runBatchWorker(
+  startedAt = Date.now()
+): Promise<{ requeued: number; processed: number }> {
+  const claimUntil = startedAt + CLAIM_WINDOW_MS;
+  const { count: requeued } = await prisma.batchRow.updateMany({
+    where: { status: "running", startedAt: { lt: new Date(Date.now() - STALE_RUNNING_MS) } },
+    data: { status: "queued", startedAt: null },
+  });
+
+  let processed = 0;
+  while (Date.now() < claimUntil) {
+    const next = await prisma.batchRow.findFirst({
+      where: { status: "queued" },
+      orderBy: [{ batch: { createdAt: "asc" } }, { position: "asc" }],
+      select: { batchId: true },
+    });
+    if (!next) break;
+    const count = await processBatch(next.batchId, WORKER_RATE_KEY, claimUntil);
+    if (count === 0) break;
+    processed += count;
+  }
+  return { requeued, processed };
+}
+
+/** Put failed rows — and rows orphaned mid-run by a restart — back in the queue */
+export async function requeueBatch(batchId: string): Promise<number> {
+  const { count } = await prisma.batchRow.updateMany({
+    where: {
+      batchId,
+      OR: [
+        { status: "failed" },
+        { status: "running", startedAt: { lt: new Date(Date.now() - STALE_RUNNING_MS) } },
+      ],
+    },
+    data: { status: "queued", error: null, startedAt: null, finishedAt: null },
+  });
+  return count;
+}
@@ -0,0 +1,205 @@
+/**
+ * Campaigns: a themed series of posts planned as one outline, then
+ * drafted slot by slot so each post knows what the others cover.
+ * Status moves outlined → generating → done | failed.
+ */
+
+import { z } from "zod";
+import type { VoiceProfile } from "@/generated/prisma/client";
+import { POST_FORMATS, type PostFormat } from "@/lib/formats";
+import { generateDraft, generationSettingsSchema, prepareGeneration } from "@/lib/generation";
+import { parseJsonReply } from "@/lib/llm-json";
+import { prisma } from "@/lib/prisma";
+import { buildCampaignPostPrompt, buildSystemPrompt } from "@/lib/prompts";
+import { modelFromEnv, NO_MODELS_ERROR } from "@/lib/providers";
+import { waitForRateLimit } from "@/lib/rate-limit";
+import { trackedCompletion } from "@/lib/usage";
+
+export const CADENCES = ["daily", "weekdays", "every-other-day", "weekly"] as const;
+export type Cadence = (typeof CADENCES)[number];
+
+/** Longest series we plan in one go */
+export const MAX_CAMPAIGN_POSTS = 12;
+
+/** A campaign with no progress for this long lost its worker and may be claimed again */
+const STALE_GENERATING_MS = 15 * 60_000;
+
+const outlinePostSchema = z.object({
+  title: z.string().trim().min(1).max(200),
+  angle: z.string().trim().min(1).max(1000),
+  keyPoints: z.array(z.string().trim().min(1).max(500)).min(1).max(6),
+});
+
+export const campaignOutlineSchema = z.object({
+  posts: z.array(outlinePostSchema).min(1).max(MAX_CAMPAIGN_POSTS),
+});
+export type OutlinePost = z.infer<typeof outlinePostSchema>;
+
+export const campaignSchema = z.object({
+  theme: z.string().trim().min(1).max(500),
+  /** Audience, goals, things to mention — fed to the planner and every post */
+  brief: z.string().trim().max(5000).optional(),
+  postCount: z.number().int().min(2).max(MAX_CAMPAIGN_POSTS),
+  cadence: z.enum(CADENCES).default("weekly"),
+  startDate: z.coerce.date(),
+  voiceProfileId: z.string().min(1).optional(),
+  format: z.enum(POST_FORMATS).default("post"),
+  /** Applied to every post — same options as /api/generate */
+  settings: generationSettingsSchema.optional(),
+});
+
+/** Publish dates for each slot, starting on `start` */
+export function scheduleDates(start: Date, count: number, cadence: Cadence): Date[] {
+  const dates: Date[] = [];
+  const day = new Date(start);
+  const isWeekend = (d: Date) => d.getUTCDay() === 0 || d.getUTCDay() === 6;
+  const step = { daily: 1, weekdays: 1, "every-other-day": 2, weekly: 7 }[cadence];
+
+  while (cadence === "weekdays" && isWeekend(day)) day.setUTCDate(day.getUTCDate() + 1);
+  while (dates.length < count) {
+    dates.push(new Date(day));
+    day.setUTCDate(day.getUTCDate() + step);
+    while (cadence === "weekdays" && isWeekend(day)) day.setUTCDate(day.getUTCDate() + 1);
+  }
+  return dates;
+}
+
+/**
+ * Ask the planner model for a series outline: one title, angle and set
+ * of key points per post, with no point assigned to two posts.
+ */
+export async function outlineCampaign({
+  theme,
+  brief,
+  postCount,
+  voice,
+}: {
+  theme: string;
+  brief?: string | null;
+  postCount: number;
+  voice?: VoiceProfile | null;
+}): Promise<OutlinePost[]> {
+  const system = [
+    "You are a LinkedIn content strategist planning a connected series of posts.",
+    `Plan exactly ${postCount} posts that build on each other in a logical order. Give each post a distinct angle and 2–4 key points. Never assign the same point to two posts — each post should leave the reader with something new.`,
+    `Brand voice guidelines:\n${buildSystemPrompt(voice)}`,
+    'Reply with JSON only: {"posts":[{"title":"...","angle":"one sentence","keyPoints":["...","..."]}]}',
+  ].join("\n\n");
+
+  const user = [`Series theme: ${theme}`, brief ? `Brief:\n${brief}` : ""].filter(Boolean).join("\n\n");
+
+  const model = modelFromEnv("PLANNER_MODEL_ID");
+  if (!model) throw new Error(NO_MODELS_ERROR);
+  const { text } = await trackedCompletion("plan", model, {
+    messages: [
+      { role: "system", content: system },
+      { role: "user", content: user },
+    ],
+    maxTokens: 300 + 150 * postCount,
+  });
+
+  const reply = parseJsonReply(text, campaignOutlineSchema);
+  if (!reply) throw new Error("Planner returned an unreadable outline");
+  if (reply.posts.length < postCount) {
+    throw new Error(`Planner returned ${reply.posts.length} of ${postCount} posts`);
+  }
+  return reply.posts.slice(0, postCount);
+}
+
+/**
+ * Mark a campaign as generating; null if it already is. A campaign stuck
+ * in `generating` with no progress for a while (its worker was killed) can
+ * be claimed again. Returns the claim's `startedAt`, which the worker
+ * passes on with each heartbeat to show it still owns the run.
+ */
+export async function claimCampaign(campaignId: string): Promise<Date | null> {
+  const startedAt = new Date();
+  const { count } = await prisma.campaign.updateMany({
+    where: {
+      id: campaignId,
+      OR: [
+        { status: { not: "generating" } },
+        { startedAt: null },
+        { startedAt: { lt: new Date(Date.now() - STALE_GENERATING_MS) } },
+      ],
+    },
+    data: { status: "generating", startedAt },
+  });
+  return count === 1 ? startedAt : null;
+}
+
+/**
+ * Draft every outline slot that doesn't have a draft yet, in order, through
+ * the same prepare → generate pipeline as /api/generate. Each post spends
+ * one request from `ip`'s rate-limit budget. Slots that already have a
+ * draft are skipped, so calling this again fills in failures. Always ends
+ * in `done` or `failed`, even when it throws — unless the run was
+ * reclaimed as stale, in which case it stops and leaves it to the new one.
+ */
+export async function generateCampaignDrafts(
+  campaignId: string,
+  ip: string,
+  claimedAt: Date
+): Promise<void> {
+  // Only touches the campaign while it's still this run's claim
+  const owned = { id: campaignId, status: "generating", startedAt: claimedAt };
+  let failed = 0;
+  let finished = false;
+  try {
+    const campaign = await prisma.campaign.findUnique({
+      where: { id: campaignId },
+      // A slot counts as drafted once any model produced a post for it
+      include: {
+        drafts: {
+          where: { variants: { some: { error: null } } },
+          select: { campaignPosition: true },
+        },
+      },
+    });
+    if (!campaign) return;
+
+    const { posts } = campaignOutlineSchema.parse(campaign.outline);
+    const { judge = false, ...settings } = generationSettingsSchema.parse(campaign.settings);
+    const dates = scheduleDates(campaign.startDate, posts.length, campaign.cadence as Cadence);
+    const drafted = new Set(campaign.drafts.map((d) => d.campaignPosition));
+
+    for (const [position, post] of posts.entries()) {
+      if (drafted.has(position)) continue;
+      try {
+        await waitForRateLimit(ip);
+        const result = await prepareGeneration({
+          ...settings,
+          prompt: buildCampaignPostPrompt(campaign.theme, posts, position, campaign.brief),
+          voiceProfileId: campaign.voiceProfileId ?? undefined,
+          format: campaign.format as PostFormat,
+          targetDate: dates[position],
+        });
+        if (!result.ok) throw new Error(result.error);
+
+        const { prepared } = result;
+        prepared.input = { ...prepared.input, campaignId, campaignPosition: position };
+        const draft = await generateDraft(prepared, judge);
+        if (draft.variants.every((v) => v.error)) throw new Error("Every model failed for this post");
+      } catch (err) {
+        failed++;
+        console.error(`[campaigns] Post ${position + 1} ("${post.title}") failed:`, err);
+      }
+      // Progress heartbeat, so a long series isn't mistaken for a stuck one
+      const heartbeat = new Date();
+      const { count } = await prisma.campaign.updateMany({ where: owned, data: { startedAt: heartbeat } });
+      if (count === 0) {
+        console.error(`[campaigns] Lost the claim on ${campaignId}; leaving it to the new run`);
+        return;
+      }
+      owned.startedAt = heartbeat;
+    }
+    finished = true;
+  } catch (err) {
+    console.error("[campaigns] Generation failed:", err);
+  } finally {
+    await prisma.campaign.updateMany({
+      where: owned,
+      data: { status: finished && failed === 0 ? "done" : "failed", startedAt: null },
+    });
+  }
+}
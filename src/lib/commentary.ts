@@ -0,0 +1,140 @@
+/**
+ * Post text → LinkedIn `commentary`. Drafts are written in light markdown,
+ * but LinkedIn shows plain text in its "little text" format, where some
+ * characters are reserved for mentions and hashtags. Emphasis is either
+ * stripped or kept as Unicode bold/italic letters. Client-safe — the
+ * preview shows the same conversion.
+ */
+
+export const EMPHASIS_STYLES = ["strip", "unicode"] as const;
+export type EmphasisStyle = (typeof EMPHASIS_STYLES)[number];
+
+/**
+ * Screen readers spell out styled letters one by one (or skip them), so
+ * only short spans are styled, up to a budget per post. Longer spans and
+ * anything past the budget stay plain.
+ */
+const MAX_STYLED_SPAN_CHARS = 60;
+const MAX_STYLED_CHARS = 200;
+
+type UnicodeStyle = "bold" | "italic" | "boldItalic";
+
+/** First code points of the Mathematical Sans-Serif alphabets */
+const ALPHABETS: Record<UnicodeStyle, { upper: number; lower: number; digit: number | null }> = {
+  bold: { upper: 0x1d5d4, lower: 0x1d5ee, digit: 0x1d7ec },
+  italic: { upper: 0x1d608, lower: 0x1d622, digit: null },
+  boldItalic: { upper: 0x1d63c, lower: 0x1d656, digit: 0x1d7ec },
+};
+
+/** Bare links, which run to the next whitespace */
+const URL_PATTERN = String.raw`https?:\/\/\S+`;
+
+/** Mentions, URLs and hashtags — styling their letters would break them */
+const PROTECTED = new RegExp(String.raw`@\[[^\]]+\]\(urn:li:[^)\s]+\)|${URL_PATTERN}|#[\p{L}\p{N}_]+`, "gu");
+
+/** Inline emphasis, strongest first: ***both***, **bold**, *italic* */
+const EMPHASIS = /\*\*\*(?=\S)(.+?)\*\*\*|\*\*(?=\S)(.+?)\*\*|(?<![\w*])\*(?=\S)([^*\n]+?)\*(?![\w*])/g;
+
+/** "- item", "* item", "+ item" and the ◆/• bullets the models use */
+const BULLET = /^(\s*)[-*+◆•]\s+/;
+
+const HEADING = /^#{1,6}\s+/;
+
+/**
+ * `@[Name](urn:li:…)` mentions and `#tags`, which little text spells its
+ * own way, and URLs, matched first so a `#fragment` stays part of the link
+ */
+const LITTLE_TEXT_TOKEN = new RegExp(
+  String.raw`(${URL_PATTERN})|@\[([^\]]+)\]\((urn:li:(?:person|organization):[^)\s]+)\)|(^|[^\p{L}\p{N}_])#([\p{L}\p{N}_]+)`,
+  "gu"
+);
+
+/** Characters little text reserves; literal ones are backslash-escaped */
+const RESERVED = /[\\|{}@[\]()<>#*_~]/g;
+
+function toUnicode(text: string, style: UnicodeStyle): string {
+  const { upper, lower, digit } = ALPHABETS[style];
+  return text.replace(/[A-Za-z0-9]/g, (c) => {
+    const code = c.charCodeAt(0);
+    if (code <= 0x39) return digit === null ? c : String.fromCodePoint(digit + code - 0x30);
+    if (code <= 0x5a) return String.fromCodePoint(upper + code - 0x41);
+    return String.fromCodePoint(lower + code - 0x61);
+  });
+}
+
+/** Style everything outside mentions, URLs and hashtags */
+function styleSpan(text: string, style: UnicodeStyle): string {
+  let out = "";
+  let last = 0;
+  for (const m of text.matchAll(PROTECTED)) {
+    out += toUnicode(text.slice(last, m.index), style) + m[0];
+    last = m.index + m[0].length;
+  }
+  return out + toUnicode(text.slice(last), style);
+}
+
+/**
+ * Apply markdown to plain text: bullets become •, nested ones ◦, heading
+ * markers go, and bold and italic emphasis is either stripped or turned
+ * into Unicode letters.
+ */
+export function formatEmphasis(text: string, emphasis: EmphasisStyle): string {
+  let budget = MAX_STYLED_CHARS;
+  const style = (span: string, unicodeStyle: UnicodeStyle) => {
+    if (emphasis === "strip" || span.length > MAX_STYLED_SPAN_CHARS || span.length > budget) return span;
+    budget -= span.length;
+    return styleSpan(span, unicodeStyle);
+  };
+
+  return text
+    .split("\n")
+    .map((line) => {
+      const bullet = line.match(BULLET);
+      if (bullet) {
+        const nested = bullet[1].replace(/\t/g, "  ").length >= 2;
+        line = (nested ? "   ◦ " : "• ") + line.slice(bullet[0].length);
+      }
+      if (HEADING.test(line)) {
+        return style(line.replace(HEADING, "").replace(/\*\*(.+?)\*\*/g, "$1"), "bold");
+      }
+      return line.replace(EMPHASIS, (_match, both: string, bold: string, italic: string) =>
+        both !== undefined
+          ? style(both, "boldItalic")
+          : bold !== undefined
+          ? style(bold, "bold")
+          : style(italic, "italic")
+      );
+    })
+    .join("\n");
+}
+
+function escapeReserved(text: string): string {
+  return text.replace(RESERVED, "\\$&");
+}
+
+/**
+ * Escape text for little text: reserved characters such as parentheses
+ * and brackets get a backslash — unescaped, LinkedIn can cut the post off
+ * there — while mentions stay as `@[Name](urn:li:…)` and hashtags become
+ * `{hashtag|\#|tag}`.
+ */
+export function escapeLittleText(text: string): string {
+  let out = "";
+  let last = 0;
+  for (const m of text.matchAll(LITTLE_TEXT_TOKEN)) {
+    out += escapeReserved(text.slice(last, m.index));
+    const [, url, name, urn, before, tag] = m;
+    out += url
+      ? escapeReserved(url)
+      : urn
+      ? `@[${name.replace(/[\\|{}[\]()<>]/g, "")}](${urn})`
+      : `${escapeReserved(before)}{hashtag|\\#|${tag}}`;
+    last = m.index + m[0].length;
+  }
+  return out + escapeReserved(text.slice(last));
+}
+
+/** The `commentary` LinkedIn is sent for a post */
+export function toCommentary(text: string, emphasis: EmphasisStyle = "strip"): string {
+  return escapeLittleText(formatEmphasis(text, emphasis));
+}
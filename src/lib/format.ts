@@ -0,0 +1,12 @@
+/** Display helpers shared by the dashboard pages */
+
+/** "840 ms" below a second, else "2.4 s" */
+export function formatLatency(ms: number): string {
+  return ms < 1000 ? `${ms} ms` : `${(ms / 1000).toFixed(1)} s`;
+}
+
+/** Estimated USD cost — sub-cent amounts keep enough digits to compare */
+export function formatCost(usd: number): string {
+  if (usd === 0) return "free";
+  return usd < 0.01 ? `$${usd.toFixed(5)}` : `$${usd.toFixed(2)}`;
+}
@@ -0,0 +1,160 @@
+import { z } from "zod";
+import { parseJsonReply } from "@/lib/llm-json";
+
+export const POST_FORMATS = ["post", "listicle", "story", "poll", "carousel", "announcement"] as const;
+export type PostFormat = (typeof POST_FORMATS)[number];
+
+/* ─── Structured shapes ──────────────────────────── */
+
+const listicleSchema = z.object({
+  hook: z.string().min(1),
+  items: z
+    .array(z.object({ title: z.string().min(1), body: z.string().default("") }))
+    .min(3)
+    .max(10),
+  closing: z.string().default(""),
+});
+
+const storySchema = z.object({
+  hook: z.string().min(1),
+  tension: z.string().min(1),
+  lesson: z.string().min(1),
+  cta: z.string().default(""),
+});
+
+/** LinkedIn caps poll questions at 140 characters and options at 30 */
+const pollSchema = z.object({
+  intro: z.string().min(1),
+  question: z.string().min(1).max(140),
+  options: z.array(z.string().min(1).max(30)).min(2).max(4),
+});
+
+const carouselSchema = z.object({
+  title: z.string().min(1),
+  slides: z
+    .array(z.object({ heading: z.string().min(1), body: z.string().default("") }))
+    .min(3)
+    .max(12),
+  caption: z.string().min(1),
+});
+
+const announcementSchema = z.object({
+  headline: z.string().min(1),
+  body: z.string().min(1),
+  highlights: z.array(z.string().min(1)).max(5).default([]),
+  cta: z.string().default(""),
+});
+
+export type Listicle = z.infer<typeof listicleSchema>;
+export type Story = z.infer<typeof storySchema>;
+export type Poll = z.infer<typeof pollSchema>;
+export type Carousel = z.infer<typeof carouselSchema>;
+export type Announcement = z.infer<typeof announcementSchema>;
+
+/** Parsed output stored on a variant, tagged with its format */
+export type StructuredPost =
+  | ({ format: "listicle" } & Listicle)
+  | ({ format: "story" } & Story)
+  | ({ format: "poll" } & Poll)
+  | ({ format: "carousel" } & Carousel)
+  | ({ format: "announcement" } & Announcement);
+
+interface FormatSpec<T> {
+  label: string;
+  /** Appended to the system prompt */
+  instruction: string;
+  schema: z.ZodType<T>;
+  /** Post commentary built from the parsed shape */
+  render: (data: T) => string;
+}
+
+const jsonOnly = "Reply with JSON only — no preamble, no code fences — in exactly this shape:";
+
+/**
+ * Structured formats: the model replies with JSON, which is validated
+ * and rendered to the post text. "post" stays free-form.
+ */
+const FORMATS: {
+  [F in Exclude<PostFormat, "post">]: FormatSpec<Omit<Extract<StructuredPost, { format: F }>, "format">>;
+} = {
+  listicle: {
+    label: "Listicle",
+    instruction: `Format: a numbered list post — a scroll-stopping hook, 3–10 punchy items, and a short closing line.\n${jsonOnly}\n{"hook":"...","items":[{"title":"...","body":"one or two sentences"}],"closing":"..."}`,
+    schema: listicleSchema,
+    render: ({ hook, items, closing }) =>
+      [
+        hook,
+        items.map((it, i) => `${i + 1}. ${it.title}${it.body ? ` — ${it.body}` : ""}`).join("\n\n"),
+        closing,
+      ]
+        .filter(Boolean)
+        .join("\n\n"),
+  },
+  story: {
+    label: "Story",
+    instruction: `Format: a short personal story — a hook that drops the reader into a moment, the tension or struggle, the lesson learned, and an optional question or call to action.\n${jsonOnly}\n{"hook":"...","tension":"...","lesson":"...","cta":"..."}`,
+    schema: storySchema,
+    render: ({ hook, tension, lesson, cta }) => [hook, tension, lesson, cta].filter(Boolean).join("\n\n"),
+  },
+  poll: {
+    label: "Poll",
+    instruction: `Format: a LinkedIn poll — a short intro post that sets up the question, a question of at most 140 characters, and 2–4 answer options of at most 30 characters each.\n${jsonOnly}\n{"intro":"...","question":"...","options":["...","..."]}`,
+    schema: pollSchema,
+    render: ({ intro }) => intro,
+  },
+  carousel: {
+    label: "Carousel script",
+    instruction: `Format: a document carousel — a cover title, 3–12 slides each with a short heading and at most 40 words of body, and a caption post that makes people swipe.\n${jsonOnly}\n{"title":"...","slides":[{"heading":"...","body":"..."}],"caption":"..."}`,
+    schema: carouselSchema,
+    render: ({ caption }) => caption,
+  },
+  announcement: {
+    label: "Announcement",
+    instruction: `Format: an announcement — a clear headline, what is happening and why it matters, up to five key highlights, and a call to action.\n${jsonOnly}\n{"headline":"...","body":"...","highlights":["..."],"cta":"..."}`,
+    schema: announcementSchema,
+    render: ({ headline, body, highlights, cta }) =>
+      [headline, body, highlights.map((h) => `• ${h}`).join("\n"), cta].filter(Boolean).join("\n\n"),
+  },
+};
+
+/** Dropdown options for the dashboard */
+export const FORMAT_LABELS: Record<PostFormat, string> = {
+  post: "Standard post",
+  listicle: FORMATS.listicle.label,
+  story: FORMATS.story.label,
+  poll: FORMATS.poll.label,
+  carousel: FORMATS.carousel.label,
+  announcement: FORMATS.announcement.label,
+};
+
+/** System prompt addition for a format ("" for the free-form post) */
+export function formatInstruction(format: PostFormat): string {
+  return format === "post" ? "" : FORMATS[format].instruction;
+}
+
+/**
+ * Parse a model reply for the given format.
+ * Returns the post text plus the typed structure, or null when a
+ * structured format's reply doesn't match its shape.
+ */
+export function parseFormatted(
+  format: PostFormat,
+  reply: string
+): { text: string; structured: StructuredPost | null } | null {
+  if (format === "post") return { text: reply, structured: null };
+  const spec = FORMATS[format] as FormatSpec<unknown>;
+  const data = parseJsonReply(reply, spec.schema);
+  if (!data) return null;
+  return {
+    text: spec.render(data),
+    structured: { format, ...(data as object) } as StructuredPost,
+  };
+}
+
+/** The text a model should revise or merge — the JSON shape for structured formats */
+export function editableContent(text: string, structured: unknown): string {
+  if (!structured || typeof structured !== "object") return text;
+  // eslint-disable-next-line @typescript-eslint/no-unused-vars
+  const { format, ...data } = structured as Record<string, unknown>;
+  return JSON.stringify(data, null, 2);
+}
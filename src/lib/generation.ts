@@ -0,0 +1,212 @@
+import { z } from "zod";
+import { POST_FORMATS, type PostFormat } from "@/lib/formats";
+import { LANGUAGE_CODES, type Language } from "@/lib/languages";
+import { scoreDraft } from "@/lib/judge";
+import { prisma } from "@/lib/prisma";
+import { buildSystemPrompt, buildUserPrompt } from "@/lib/prompts";
+import {
+  getModel,
+  listModels,
+  NO_MODELS_ERROR,
+  type CompletionRequest,
+  type ModelDefinition,
+} from "@/lib/providers";
+import { selectStyleExamples } from "@/lib/style-examples";
+import { recordCall } from "@/lib/usage";
+import { runVariant, serializeVariant, variantOrderBy } from "@/lib/variants";
+
+/** Generation parameters shared by /api/generate and batch imports */
+export const generationSettingsSchema = z.object({
+  /** Run the LLM-as-judge pass once all variants are in */
+  judge: z.boolean().optional(),
+  /** Model slots to run (see /api/models) — defaults to all of them */
+  modelIds: z.array(z.string().min(1)).min(1).max(10).optional(),
+  /** Variants per model slot */
+  samples: z.number().int().min(1).max(3).default(1),
+  temperature: z.number().min(0).max(2).optional(),
+  maxTokens: z.number().int().min(100).max(4000).default(800),
+  /** Language the post is written in */
+  language: z.enum(LANGUAGE_CODES).default("en"),
+  /** Past published posts to include as few-shot style examples (0 to disable) */
+  styleExamples: z.number().int().min(0).max(5).default(3),
+});
+
+export const generationSchema = generationSettingsSchema.extend({
+  prompt: z.string().min(1).max(15000),
+  voiceProfileId: z.string().min(1).optional(),
+  /** Uploaded sources (see /api/sources) to ground the post in */
+  sourceIds: z.array(z.string().min(1)).max(5).optional(),
+  /** Output shape — structured formats are parsed into `structured` */
+  format: z.enum(POST_FORMATS).default("post"),
+  /** When the post is meant to go out (planning only) */
+  targetDate: z.coerce.date().optional(),
+});
+
+export type GenerationOptions = z.infer<typeof generationSchema>;
+
+/** Columns set on the Draft row before any variants exist */
+export type DraftInput = {
+  prompt: string;
+  voiceProfileId: string | null;
+  format: PostFormat;
+  language: Language;
+  targetDate: Date | null;
+  /** Published drafts injected as style examples */
+  exampleDraftIds: string[];
+  sources: { connect: { id: string }[] };
+  /** Set when the draft fills a slot in a campaign series */
+  campaignId?: string;
+  campaignPosition?: number;
+};
+
+/** One model call — a slot may run several times when sampling */
+export type Run = { key: string; model: ModelDefinition; sample: number };
+
+export interface PreparedGeneration {
+  input: DraftInput;
+  runs: Run[];
+  request: CompletionRequest;
+}
+
+function planRuns(models: ModelDefinition[], samples: number): Run[] {
+  return models.flatMap((model) =>
+    Array.from({ length: samples }, (_, i) => ({
+      key: samples > 1 ? `${model.id}#${i + 1}` : model.id,
+      model,
+      sample: i + 1,
+    }))
+  );
+}
+
+/**
+ * Resolve model slots, voice profile and sources for a generation and
+ * build the prompt. Lookup failures come back as an HTTP status + message
+ * for the caller to report.
+ */
+export async function prepareGeneration(
+  options: GenerationOptions
+): Promise<{ ok: true; prepared: PreparedGeneration } | { ok: false; status: number; error: string }> {
+  const {
+    prompt,
+    voiceProfileId,
+    sourceIds = [],
+    modelIds,
+    samples,
+    temperature,
+    maxTokens,
+    format,
+    language,
+    styleExamples,
+    targetDate,
+  } = options;
+
+  /* ── Resolve model slots ───────────────────────── */
+  const unknownModel = modelIds?.find((id) => !getModel(id));
+  if (unknownModel) {
+    return { ok: false, status: 400, error: `Unknown model: ${unknownModel}` };
+  }
+  const models = modelIds
+    ? listModels().filter((m) => modelIds.includes(m.id))
+    : listModels();
+  if (models.length === 0) {
+    return { ok: false, status: 503, error: NO_MODELS_ERROR };
+  }
+
+  /* ── Resolve voice profile ─────────────────────── */
+  const voice = voiceProfileId
+    ? await prisma.voiceProfile.findUnique({ where: { id: voiceProfileId } })
+    : null;
+  if (voiceProfileId && !voice) {
+    return { ok: false, status: 404, error: "Voice profile not found" };
+  }
+
+  /* ── Resolve grounding sources ─────────────────── */
+  const sources = await prisma.source.findMany({
+    where: { id: { in: sourceIds } },
+    select: { id: true, name: true, summary: true },
+  });
+  if (sources.length !== new Set(sourceIds).size) {
+    return { ok: false, status: 404, error: "Source not found" };
+  }
+
+  /* ── Pick few-shot examples from published posts ─ */
+  const examples = await selectStyleExamples({
+    query: prompt,
+    voiceProfileId: voice?.id,
+    language,
+    limit: styleExamples,
+  });
+
+  return {
+    ok: true,
+    prepared: {
+      input: {
+        prompt,
+        voiceProfileId: voice?.id ?? null,
+        format,
+        language,
+        targetDate: targetDate ?? null,
+        exampleDraftIds: examples.map((e) => e.draftId),
+        sources: { connect: sources.map(({ id }) => ({ id })) },
+      },
+      runs: planRuns(models, samples),
+      request: {
+        messages: [
+          {
+            role: "system",
+            content: buildSystemPrompt(voice, {
+              format,
+              language,
+              examples: examples.map((e) => e.text),
+            }),
+          },
+          { role: "user", content: buildUserPrompt(prompt, sources) },
+        ],
+        maxTokens,
+        temperature,
+      },
+    },
+  };
+}
+
+/**
+ * Run every model call in parallel and persist the draft with its
+ * variants — one failing provider doesn't fail the rest.
+ */
+export async function generateDraft({ input, runs, request }: PreparedGeneration, judge: boolean) {
+  const variants = await Promise.all(
+    runs.map(({ model }) => runVariant(model, request, { format: input.format }))
+  );
+
+  const draft = await prisma.draft.create({
+    data: { ...input, variants: { create: variants } },
+    include: { variants: { orderBy: variantOrderBy } },
+  });
+  await Promise.all(
+    variants.map((data) => recordCall({ ...data, purpose: "generate", draftId: draft.id }))
+  );
+
+  return {
+    id: draft.id,
+    variants: draft.variants.map(serializeVariant),
+    ...(judge ? await judgeDraft(draft.id) : {}),
+  };
+}
+
+/**
+ * Score a draft's variants, reporting judge failures instead of throwing —
+ * generation has already succeeded by this point.
+ */
+export async function judgeDraft(draftId: string) {
+  try {
+    await scoreDraft(draftId);
+    const variants = await prisma.draftVariant.findMany({
+      where: { draftId },
+      orderBy: variantOrderBy,
+    });
+    return { variants: variants.map(serializeVariant) };
+  } catch (err) {
+    console.error("[generate] Judge failed:", err);
+    return { judgeError: err instanceof Error ? err.message : "Judge failed" };
+  }
+}
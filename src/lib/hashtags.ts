@@ -0,0 +1,82 @@
+import { z } from "zod";
+
+/** Hashtags in post text — LinkedIn ends a tag at the first non-word character */
+const HASHTAG = /(^|\s)#([\p{L}\p{N}_]+)/gu;
+
+/** LinkedIn's mention markup in post commentary: @[Display Name](urn:li:person:abc) */
+export const MENTION = /@\[([^\]]+)\]\((urn:li:(?:person|organization):[^)\s]+)\)/g;
+
+export const HASHTAG_RULE_KINDS = ["allow", "deny"] as const;
+export type HashtagRuleKind = (typeof HASHTAG_RULE_KINDS)[number];
+
+export const MENTION_KINDS = ["person", "organization"] as const;
+export type MentionKind = (typeof MENTION_KINDS)[number];
+
+/** "#Product Management" → "ProductManagement"; "" when nothing usable is left */
+export function normalizeTag(tag: string): string {
+  return tag.replace(/^#+/, "").replace(/[^\p{L}\p{N}_]/gu, "");
+}
+
+/** Tags used in a post, without the leading # */
+export function extractHashtags(text: string): string[] {
+  return [...text.matchAll(HASHTAG)].map((m) => m[2]);
+}
+
+export const hashtagRuleSchema = z.object({
+  tag: z
+    .string()
+    .max(100)
+    .transform(normalizeTag)
+    .pipe(z.string().min(1, "Tag must contain letters or digits")),
+  kind: z.enum(HASHTAG_RULE_KINDS),
+});
+
+const mentionFields = z.object({
+  name: z.string().trim().min(1).max(200),
+  kind: z.enum(MENTION_KINDS),
+  /** urn:li:person:… or urn:li:organization:… — what LinkedIn links the mention to */
+  urn: z.string().trim().regex(/^urn:li:(person|organization):[^\s)]+$/, "Expected urn:li:person:… or urn:li:organization:…"),
+  /** Extra words that should suggest this profile (product names, nicknames) */
+  keywords: z.array(z.string().trim().min(1).max(100)).max(20),
+});
+
+/** Payload accepted by POST /api/mentions */
+export const mentionProfileSchema = mentionFields.extend({
+  kind: mentionFields.shape.kind.default("person"),
+  keywords: mentionFields.shape.keywords.default([]),
+});
+
+/** Payload accepted by PATCH /api/mentions/:id */
+export const mentionProfileUpdateSchema = mentionFields.partial();
+
+export function mentionMarkup(profile: { name: string; urn: string }): string {
+  return `@[${profile.name.replace(/[[\]]/g, "")}](${profile.urn})`;
+}
+
+/** Add a tag to the trailing hashtag line, starting one if the post has none */
+export function insertHashtag(text: string, tag: string): string {
+  const trimmed = text.replace(/\s+$/, "");
+  const lines = trimmed.split("\n");
+  const last = lines[lines.length - 1] ?? "";
+  const isTagLine = last.trim() !== "" && last.trim().split(/\s+/).every((w) => w.startsWith("#"));
+  return isTagLine ? `${trimmed} #${tag}` : `${trimmed}\n\n#${tag}`;
+}
+
+/**
+ * Turn the first plain-text occurrence of the profile's name into a
+ * mention, or add the mention before the trailing hashtag line.
+ */
+export function insertMention(text: string, profile: { name: string; urn: string }): string {
+  const markup = mentionMarkup(profile);
+  const escaped = profile.name.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+  const plain = new RegExp(`(?<![@\\[\\w])${escaped}(?![\\w\\]])`, "i");
+  if (plain.test(text)) return text.replace(plain, markup);
+
+  const trimmed = text.replace(/\s+$/, "");
+  const lines = trimmed.split("\n");
+  const last = lines[lines.length - 1] ?? "";
+  if (last.trim() !== "" && last.trim().split(/\s+/).every((w) => w.startsWith("#"))) {
+    return `${lines.slice(0, -1).join("\n").replace(/\s+$/, "")}\n\n${markup}\n\n${last}`;
+  }
+  return `${trimmed}\n\n${markup}`;
+}
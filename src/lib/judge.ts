@@ -0,0 +1,136 @@
+import { z } from "zod";
+import type { DraftVariant, VoiceProfile } from "@/generated/prisma/client";
+import { parseJsonReply } from "@/lib/llm-json";
+import { prisma } from "@/lib/prisma";
+import { buildSystemPrompt } from "@/lib/prompts";
+import { modelFromEnv, NO_MODELS_ERROR } from "@/lib/providers";
+import { trackedCompletion } from "@/lib/usage";
+
+/** Rubric criteria, each scored 1–10 by the judge model */
+export const RUBRIC = {
+  hook: "Hook strength — do the first two lines (before LinkedIn's \"see more\" fold) make you want to keep reading?",
+  clarity: "Clarity — is there one clear point, easy to follow, free of filler and jargon?",
+  length: "Length fit — roughly 600–2,000 characters, short paragraphs, nothing padded or truncated",
+  voice: "Voice match — does it follow the brand voice guidelines below?",
+} as const;
+
+export type Criterion = keyof typeof RUBRIC;
+
+export interface ScoreDetails {
+  scores: Record<Criterion, number>;
+  rationale: string;
+  judgeModelId: string;
+}
+
+const criterionScore = z.coerce.number().min(1).max(10);
+
+const judgeReplySchema = z.object({
+  results: z.array(
+    z.object({
+      label: z.string(),
+      hook: criterionScore,
+      clarity: criterionScore,
+      length: criterionScore,
+      voice: criterionScore,
+      rationale: z.string().default(""),
+    })
+  ),
+});
+
+/**
+ * Score variants against the rubric in a single judge call.
+ * Variants are labelled A, B, C… so the judge can't favour a model by name.
+ * Returns variant id → { score (rubric average), details }; variants the
+ * judge skipped are absent.
+ */
+export async function judgeVariants(
+  prompt: string,
+  variants: Pick<DraftVariant, "id" | "text">[],
+  voice?: VoiceProfile | null,
+  draftId?: string
+): Promise<Map<string, { score: number; details: ScoreDetails }>> {
+  const model = modelFromEnv("JUDGE_MODEL_ID");
+  if (!model) throw new Error(NO_MODELS_ERROR);
+  const candidates = variants.filter((v) => v.text);
+  const labelled = candidates.map((v, i) => ({ label: String.fromCharCode(65 + i), variant: v }));
+
+  const rubric = (Object.entries(RUBRIC) as [Criterion, string][])
+    .map(([key, desc]) => `- ${key}: ${desc}`)
+    .join("\n");
+
+  const system = [
+    "You are a strict LinkedIn editor judging candidate posts written for the same brief.",
+    `Score every candidate 1–10 on each criterion:\n${rubric}`,
+    `Brand voice guidelines:\n${buildSystemPrompt(voice)}`,
+    'Reply with JSON only: {"results":[{"label":"A","hook":7,"clarity":8,"length":6,"voice":7,"rationale":"one sentence"}]}',
+  ].join("\n\n");
+
+  const user = [
+    `Brief:\n${prompt}`,
+    ...labelled.map(
+      ({ label, variant }) =>
+        `--- Candidate ${label} (${variant.text!.length} chars) ---\n${variant.text}`
+    ),
+  ].join("\n\n");
+
+  const { text } = await trackedCompletion(
+    "judge",
+    model,
+    {
+      messages: [
+        { role: "system", content: system },
+        { role: "user", content: user },
+      ],
+      maxTokens: 200 + 120 * labelled.length,
+    },
+    draftId
+  );
+
+  const reply = parseJsonReply(text, judgeReplySchema);
+  if (!reply) throw new Error("Judge returned an unreadable reply");
+
+  const scored = new Map<string, { score: number; details: ScoreDetails }>();
+  for (const result of reply.results) {
+    const match = labelled.find((l) => l.label === result.label.trim().toUpperCase());
+    if (!match) continue;
+    const scores = {
+      hook: result.hook,
+      clarity: result.clarity,
+      length: result.length,
+      voice: result.voice,
+    };
+    const total = Object.values(scores).reduce((a, b) => a + b, 0) / 4;
+    scored.set(match.variant.id, {
+      score: Math.round(total * 10) / 10,
+      details: { scores, rationale: result.rationale, judgeModelId: model.id },
+    });
+  }
+  return scored;
+}
+
+/**
+ * Judge a draft's generated variants (not refinements) and store the scores.
+ * Returns the ids that received a score.
+ */
+export async function scoreDraft(draftId: string): Promise<string[]> {
+  const draft = await prisma.draft.findUnique({
+    where: { id: draftId },
+    include: {
+      voiceProfile: true,
+      variants: { where: { parentId: null, error: null } },
+    },
+  });
+  if (!draft) throw new Error(`Draft ${draftId} not found`);
+  if (draft.variants.length === 0) return [];
+
+  const scored = await judgeVariants(draft.prompt, draft.variants, draft.voiceProfile, draft.id);
+  await prisma.$transaction(
+    [...scored].map(([id, { score, details }]) =>
+      prisma.draftVariant.update({
+        where: { id },
+        data: { score, scoreDetails: { ...details } },
+      })
+    )
+  );
+  return [...scored.keys()];
+}
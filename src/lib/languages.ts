@@ -0,0 +1,14 @@
+/** Languages we generate and translate posts into, by ISO 639-1 code */
+export const LANGUAGES = {
+  en: "English",
+  de: "German",
+  es: "Spanish",
+  fr: "French",
+  it: "Italian",
+  nl: "Dutch",
+  pt: "Portuguese",
+} as const;
+
+export type Language = keyof typeof LANGUAGES;
+
+export const LANGUAGE_CODES = Object.keys(LANGUAGES) as [Language, ...Language[]];
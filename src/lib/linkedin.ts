@@ -0,0 +1,480 @@
+/**
+ * LinkedIn Posts API client. Shared by immediate publishing and the
+ * scheduled publish worker.
+ *
+ * Several members can be connected via OAuth. Each connection brings its
+ * own profile and — with LINKEDIN_ORGANIZATIONS=true — the company pages
+ * that member administers; these are the publish targets. The
+ * LINKEDIN_ACCESS_TOKEN/LINKEDIN_AUTHOR_URN env vars add one more target.
+ * Without any target, every call is a dry run.
+ */
+
+import axios from "axios";
+import type { LinkedInIdentity, LinkedInToken } from "@/generated/prisma/client";
+import { toCommentary, type EmphasisStyle } from "@/lib/commentary";
+import type { Poll } from "@/lib/formats";
+import type { PostMedia } from "@/lib/media";
+import { prisma } from "@/lib/prisma";
+
+const API_VERSION = "202401";
+const TOKEN_URL = "https://www.linkedin.com/oauth/v2/accessToken";
+
+export const LINKEDIN_IDENTITY_KINDS = ["person", "organization"] as const;
+export type LinkedInIdentityKind = (typeof LINKEDIN_IDENTITY_KINDS)[number];
+
+/** Org roles allowed to post as the page */
+const POSTING_ROLES = new Set(["ADMINISTRATOR", "CONTENT_ADMINISTRATOR"]);
+
+/** Refresh tokens this long before they expire */
+const REFRESH_MARGIN_MS = 24 * 60 * 60_000;
+
+/** Where a post goes, and the token that may post there */
+export interface PublishTarget {
+  urn: string;
+  kind: LinkedInIdentityKind;
+  name: string;
+  accessToken: string;
+  isDefault: boolean;
+  source: "oauth" | "env";
+}
+
+/**
+ * OpenID for the member's URN and name, w_member_social to post as them.
+ * Page scopes need LinkedIn's Community Management API, so they're opt-in.
+ */
+export function linkedinScopes(): string {
+  const scopes = ["openid", "profile", "w_member_social"];
+  if (process.env.LINKEDIN_ORGANIZATIONS === "true") {
+    scopes.push("r_organization_admin", "w_organization_social");
+  }
+  return scopes.join(" ");
+}
+
+function restHeaders(accessToken: string) {
+  return {
+    Authorization: `Bearer ${accessToken}`,
+    "LinkedIn-Version": API_VERSION,
+    "X-Restli-Protocol-Version": "2.0.0",
+  };
+}
+
+/* ── OAuth tokens ── */
+
+/** Token endpoint response, for both code exchange and refresh */
+interface TokenResponse {
+  access_token: string;
+  expires_in?: number;
+  refresh_token?: string;
+  refresh_token_expires_in?: number;
+  scope?: string;
+}
+
+const expiry = (seconds?: number) => (seconds ? new Date(Date.now() + seconds * 1000) : null);
+
+async function requestToken(params: Record<string, string>): Promise<TokenResponse> {
+  const body = new URLSearchParams({
+    ...params,
+    client_id: process.env.LINKEDIN_CLIENT_ID!,
+    client_secret: process.env.LINKEDIN_CLIENT_SECRET!,
+  });
+  const res = await axios.post<TokenResponse>(TOKEN_URL, body.toString(), {
+    headers: { "Content-Type": "application/x-www-form-urlencoded" },
+    timeout: 15_000,
+  });
+  return res.data;
+}
+
+/** The member behind an access token, from the OpenID userinfo endpoint */
+async function fetchMember(accessToken: string): Promise<{ urn: string; name: string | null }> {
+  const res = await axios.get("https://api.linkedin.com/v2/userinfo", {
+    headers: { Authorization: `Bearer ${accessToken}` },
+    timeout: 15_000,
+  });
+  if (!res.data?.sub) throw new Error("LinkedIn did not return a member id");
+  return { urn: `urn:li:person:${res.data.sub}`, name: res.data.name ?? null };
+}
+
+/** Company pages the member may post as; names fall back to the URN */
+async function fetchOrganizations(accessToken: string): Promise<{ urn: string; name: string }[]> {
+  const headers = restHeaders(accessToken);
+  const acls = await axios.get("https://api.linkedin.com/rest/organizationAcls", {
+    params: { q: "roleAssignee", state: "APPROVED" },
+    headers,
+    timeout: 15_000,
+  });
+  const urns: string[] = [
+    ...new Set<string>(
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      (acls.data?.elements ?? []).filter((e: any) => POSTING_ROLES.has(e.role)).map((e: any) => e.organization)
+    ),
+  ];
+
+  return Promise.all(
+    urns.map(async (urn) => {
+      try {
+        const org = await axios.get(`https://api.linkedin.com/rest/organizations/${urn.split(":").pop()}`, {
+          headers,
+          timeout: 15_000,
+        });
+        return { urn, name: org.data?.localizedName ?? urn };
+      } catch {
+        return { urn, name: urn };
+      }
+    })
+  );
+}
+
+/**
+ * Exchange an authorization code for tokens, resolve the member's URN and
+ * store the connection with its identities — the member and, when page
+ * scopes were granted, their company pages. The very first identity
+ * becomes the default publish target.
+ */
+export async function connectLinkedIn(code: string): Promise<LinkedInToken> {
+  const tokens = await requestToken({
+    grant_type: "authorization_code",
+    code,
+    redirect_uri: process.env.LINKEDIN_REDIRECT_URI!,
+  });
+  const member = await fetchMember(tokens.access_token);
+
+  // null when the pages couldn't be listed — their stored identities stay as they are
+  let organizations: { urn: string; name: string }[] | null = null;
+  if (tokens.scope?.includes("w_organization_social")) {
+    try {
+      organizations = await fetchOrganizations(tokens.access_token);
+    } catch (err) {
+      console.error("[linkedin] Organization lookup failed:", err);
+    }
+  }
+
+  const data = {
+    accessToken: tokens.access_token,
+    refreshToken: tokens.refresh_token ?? null,
+    expiresAt: expiry(tokens.expires_in),
+    refreshExpiresAt: expiry(tokens.refresh_token_expires_in),
+    scope: tokens.scope ?? null,
+    name: member.name,
+  };
+  const token = await prisma.linkedInToken.upsert({
+    where: { memberUrn: member.urn },
+    create: { memberUrn: member.urn, ...data },
+    update: data,
+  });
+
+  const firstConnection = (await prisma.linkedInIdentity.count()) === 0;
+  const identities = [
+    { urn: member.urn, kind: "person", name: member.name ?? member.urn },
+    ...(organizations ?? []).map((o) => ({ ...o, kind: "organization" })),
+  ];
+  for (const [i, identity] of identities.entries()) {
+    await prisma.linkedInIdentity.upsert({
+      where: { urn: identity.urn },
+      create: { ...identity, tokenId: token.id, isDefault: firstConnection && i === 0 },
+      update: { name: identity.name, tokenId: token.id },
+    });
+  }
+  if (organizations) {
+    // Pages the member no longer administers
+    await prisma.linkedInIdentity.deleteMany({
+      where: { tokenId: token.id, urn: { notIn: identities.map((i) => i.urn) } },
+    });
+  }
+
+  return token;
+}
+
+/** Trade the refresh token for a new access token; null if LinkedIn refuses */
+async function refreshLinkedInToken(token: LinkedInToken): Promise<LinkedInToken | null> {
+  if (!token.refreshToken) return null;
+  if (token.refreshExpiresAt && token.refreshExpiresAt < new Date()) return null;
+  try {
+    const tokens = await requestToken({
+      grant_type: "refresh_token",
+      refresh_token: token.refreshToken,
+    });
+    return await prisma.linkedInToken.update({
+      where: { id: token.id },
+      data: {
+        accessToken: tokens.access_token,
+        refreshToken: tokens.refresh_token ?? token.refreshToken,
+        expiresAt: expiry(tokens.expires_in),
+        refreshExpiresAt: expiry(tokens.refresh_token_expires_in) ?? token.refreshExpiresAt,
+      },
+    });
+  } catch (err) {
+    console.error("[linkedin] Token refresh failed:", err);
+    return null;
+  }
+}
+
+/**
+ * Refresh a token when it expires within a day. `expired` is set when it
+ * can no longer be used and the member has to reconnect.
+ */
+async function freshToken<T extends LinkedInToken>(token: T): Promise<{ token: T; expired: boolean }> {
+  if (!token.expiresAt || token.expiresAt.getTime() - Date.now() > REFRESH_MARGIN_MS) {
+    return { token, expired: false };
+  }
+  const refreshed = await refreshLinkedInToken(token);
+  if (refreshed) return { token: { ...token, ...refreshed }, expired: false };
+  // Not refreshable, but still usable until it actually expires
+  return { token, expired: token.expiresAt <= new Date() };
+}
+
+export type LinkedInAccount = {
+  token: LinkedInToken & { identities: LinkedInIdentity[] };
+  expired: boolean;
+};
+
+/** Connected members with their identities, tokens refreshed as needed */
+export async function listLinkedInAccounts(): Promise<LinkedInAccount[]> {
+  const tokens = await prisma.linkedInToken.findMany({
+    orderBy: { name: "asc" },
+    include: { identities: { orderBy: [{ kind: "desc" }, { name: "asc" }] } },
+  });
+  return Promise.all(tokens.map((token) => freshToken(token)));
+}
+
+/** Forget a connected member and their identities */
+export async function disconnectLinkedIn(tokenId: string): Promise<boolean> {
+  const { count } = await prisma.linkedInToken.deleteMany({ where: { id: tokenId } });
+  return count > 0;
+}
+
+/** The target from LINKEDIN_ACCESS_TOKEN/LINKEDIN_AUTHOR_URN, if set */
+export function envTarget(): PublishTarget | null {
+  const accessToken = process.env.LINKEDIN_ACCESS_TOKEN;
+  const urn = process.env.LINKEDIN_AUTHOR_URN;
+  if (!accessToken || !urn || urn === "urn:li:person:XXXX") return null;
+  return {
+    urn,
+    kind: urn.startsWith("urn:li:organization:") ? "organization" : "person",
+    name: process.env.LINKEDIN_AUTHOR_NAME ?? urn,
+    accessToken,
+    isDefault: false,
+    source: "env",
+  };
+}
+
+/** Every identity that can be posted to right now */
+export async function getPublishTargets(
+  accounts?: LinkedInAccount[]
+): Promise<PublishTarget[]> {
+  accounts ??= await listLinkedInAccounts();
+  const targets: PublishTarget[] = accounts
+    .filter((a) => !a.expired)
+    .flatMap(({ token }) =>
+      token.identities.map((identity) => ({
+        urn: identity.urn,
+        kind: identity.kind as LinkedInIdentityKind,
+        name: identity.name,
+        accessToken: token.accessToken,
+        isDefault: identity.isDefault,
+        source: "oauth" as const,
+      }))
+    );
+
+  const env = envTarget();
+  if (env && !targets.some((t) => t.urn === env.urn)) targets.push(env);
+  return targets;
+}
+
+/**
+ * Pick targets by URN, or the defaults when none are given — falling back
+ * to the first available target if no default is set. Connected members
+ * whose tokens all expired are an error, not a dry run.
+ */
+export async function resolvePublishTargets(
+  urns: string[] = []
+): Promise<{ ok: true; targets: PublishTarget[] } | { ok: false; error: string }> {
+  const accounts = await listLinkedInAccounts();
+  const available = await getPublishTargets(accounts);
+  if (available.length === 0 && accounts.length > 0) {
+    return { ok: false, error: "LinkedIn connection expired — reconnect it from the dashboard" };
+  }
+  if (urns.length === 0) {
+    const defaults = available.filter((t) => t.isDefault);
+    return { ok: true, targets: defaults.length ? defaults : available.slice(0, 1) };
+  }
+
+  const unknown = urns.filter((urn) => !available.some((t) => t.urn === urn));
+  if (unknown.length) {
+    return { ok: false, error: `LinkedIn account not connected: ${unknown.join(", ")}` };
+  }
+  return { ok: true, targets: available.filter((t) => urns.includes(t.urn)) };
+}
+
+/* ── Posting ── */
+
+/** A media upload failed, so nothing was posted */
+export class MediaUploadError extends Error {
+  constructor(cause: unknown) {
+    super("Failed to upload media to LinkedIn. Post not published.", { cause });
+    this.name = "MediaUploadError";
+  }
+}
+
+/** Network failures where the request never reached LinkedIn */
+const UNSENT_CODES = new Set(["ECONNREFUSED", "ENOTFOUND", "EAI_AGAIN"]);
+
+/**
+ * Whether a failed LinkedIn call is worth trying again later: rate limits,
+ * server errors, and requests that never went out. A post request that
+ * timed out may still have been created, so it is not retried — except
+ * when it failed during a media upload, before anything was posted.
+ */
+export function isTransientError(err: unknown): boolean {
+  const uploading = err instanceof MediaUploadError;
+  const cause = uploading ? err.cause : err;
+  if (!axios.isAxiosError(cause)) return false;
+  const status = cause.response?.status;
+  if (status === undefined) return uploading || UNSENT_CODES.has(cause.code ?? "");
+  return status === 429 || status >= 500;
+}
+
+/**
+ * Upload an image or PDF to LinkedIn and return its URN.
+ * 1. Downloads the file from the given URL (e.g. Canva export).
+ * 2. Initializes an upload on LinkedIn's images or documents API.
+ * 3. PUTs the binary to the upload URL.
+ */
+async function uploadToLinkedIn(
+  fileUrl: string,
+  kind: "image" | "document",
+  { accessToken: token, urn: author }: PublishTarget
+): Promise<string> {
+  const headers = {
+    Authorization: `Bearer ${token}`,
+    "LinkedIn-Version": API_VERSION,
+    "X-Restli-Protocol-Version": "2.0.0",
+    "Content-Type": "application/json",
+  };
+
+  // 1. Download file from Canva export URL
+  const fileRes = await axios.get(fileUrl, {
+    responseType: "arraybuffer",
+    timeout: kind === "document" ? 60_000 : 30_000,
+  });
+  const fileBuffer = Buffer.from(fileRes.data);
+
+  // 2. Initialize upload on LinkedIn
+  const initRes = await axios.post(
+    `https://api.linkedin.com/rest/${kind}s?action=initializeUpload`,
+    { initializeUploadRequest: { owner: author } },
+    { headers, timeout: 15_000 }
+  );
+
+  const uploadUrl = initRes.data?.value?.uploadUrl;
+  const mediaUrn = initRes.data?.value?.[kind];
+
+  if (!uploadUrl || !mediaUrn) {
+    throw new Error(`LinkedIn did not return upload URL or ${kind} URN`);
+  }
+
+  // 3. Upload binary
+  await axios.put(uploadUrl, fileBuffer, {
+    headers: {
+      Authorization: `Bearer ${token}`,
+      "Content-Type": "application/octet-stream",
+    },
+    timeout: 60_000,
+  });
+
+  return mediaUrn;
+}
+
+/** Upload the post's media and build the `content` it is posted with */
+async function uploadMedia(media: PostMedia, target: PublishTarget): Promise<Record<string, unknown>> {
+  if (media.kind === "document") {
+    const id = await uploadToLinkedIn(media.url, "document", target);
+    return { media: { title: media.title, id } };
+  }
+
+  // One at a time, so the images keep their order
+  const ids: string[] = [];
+  for (const url of media.urls) {
+    ids.push(await uploadToLinkedIn(url, "image", target));
+  }
+  return ids.length === 1
+    ? { media: { title: "Design", id: ids[0] } }
+    : { multiImage: { images: ids.map((id) => ({ id })) } };
+}
+
+/**
+ * Post to LinkedIn as the given target, uploading its images or document
+ * first. Markdown emphasis is stripped or kept as Unicode letters, and the
+ * text is escaped for little text. Throws MediaUploadError if an upload
+ * fails and the axios error if the post itself does.
+ */
+export async function createLinkedInPost(
+  target: PublishTarget,
+  {
+    text,
+    media,
+    poll,
+    emphasis = "strip",
+  }: {
+    text: string;
+    media?: PostMedia | null;
+    poll?: Poll | null;
+    emphasis?: EmphasisStyle;
+  }
+): Promise<string> {
+  /* ── Upload images or document if provided ─── */
+  let content: Record<string, unknown> | null = null;
+  if (media) {
+    try {
+      content = await uploadMedia(media, target);
+    } catch (uploadErr) {
+      console.error("[publish] Media upload failed:", uploadErr);
+      throw new MediaUploadError(uploadErr);
+    }
+  }
+
+  /* ── Build LinkedIn post payload ───────────── */
+  const postBody: Record<string, unknown> = {
+    author: target.urn,
+    commentary: toCommentary(text, emphasis),
+    visibility: "PUBLIC",
+    distribution: {
+      feedDistribution: "MAIN_FEED",
+      targetEntities: [],
+      thirdPartyDistributionChannels: [],
+    },
+    lifecycleState: "PUBLISHED",
+  };
+
+  if (content) {
+    postBody.content = content;
+  } else if (poll) {
+    postBody.content = {
+      poll: {
+        question: poll.question,
+        options: poll.options.map((option) => ({ text: option })),
+        settings: { duration: "THREE_DAYS" },
+      },
+    };
+  }
+
+  /* ── Post to LinkedIn (LIVE) ────────────────── */
+  const linkedinResponse = await axios.post(
+    "https://api.linkedin.com/v2/posts",
+    postBody,
+    {
+      headers: {
+        Authorization: `Bearer ${target.accessToken}`,
+        "X-Restli-Protocol-Version": "2.0.0",
+        "Content-Type": "application/json",
+        "LinkedIn-Version": API_VERSION,
+      },
+      timeout: 15_000,
+    }
+  );
+
+  const linkedinPostId =
+    linkedinResponse.headers["x-restli-id"] ??
+    linkedinResponse.data?.id ??
+    "unknown";
+  return String(linkedinPostId);
+}
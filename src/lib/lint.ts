@@ -0,0 +1,258 @@
+/**
+ * LinkedIn-specific checks on post text before publishing. Each rule
+ * returns structured warnings; which severities block publishing is
+ * configured with LINT_BLOCK_SEVERITY (and per-rule LINT_SEVERITIES).
+ */
+
+import { toCommentary, type EmphasisStyle } from "@/lib/commentary";
+
+export const LINT_SEVERITIES = ["info", "warning", "error"] as const;
+export type LintSeverity = (typeof LINT_SEVERITIES)[number];
+
+export const LINT_RULES = [
+  "length",
+  "hook",
+  "paragraph-length",
+  "hashtags",
+  "url-placement",
+  "emoji-density",
+  "markdown",
+  "unsupported-characters",
+] as const;
+export type LintRule = (typeof LINT_RULES)[number];
+
+export interface LintWarning {
+  rule: LintRule;
+  severity: LintSeverity;
+  message: string;
+  /** Offending snippet, when there is one worth pointing at */
+  excerpt?: string;
+  /** 1-based line in the post text */
+  line?: number;
+}
+
+/** LinkedIn's commentary limit */
+export const MAX_POST_CHARS = 3000;
+/** Roughly where desktop feeds cut to "…see more" — mobile folds sooner */
+export const FOLD_CHARS = 210;
+const FOLD_LINES = 3;
+const MAX_PARAGRAPH_CHARS = 350;
+const MAX_HASHTAGS = 5;
+/** Emoji per word before the post reads as cluttered */
+const MAX_EMOJI_RATIO = 0.08;
+
+const HASHTAG = /(^|\s)#([\p{L}\p{N}_]+)/gu;
+const URL = /\bhttps?:\/\/[^\s)]+/gi;
+const EMOJI = /\p{Extended_Pictographic}/gu;
+
+/** Markdown the publish step already strips or converts, and markdown it leaves in place */
+const STRIPPED_MARKDOWN: [RegExp, string][] = [
+  [/\*\*[^*\n]+\*\*/, "**bold**"],
+  [/(^|[^*])\*[^*\s][^*\n]*\*(?!\*)/, "*italic*"],
+  [/^#{1,6}\s+/m, "# heading"],
+];
+const LEFTOVER_MARKDOWN: [RegExp, string][] = [
+  // @[Name](urn:li:…) is LinkedIn's mention markup, not a link
+  [/(?<!@)\[[^\]\n]+\]\((?!urn:li:)[^)\s]+\)/, "[link](url)"],
+  [/`[^`\n]+`/, "`code`"],
+  [/__[^_\n]+__/, "__bold__"],
+  [/~~[^~\n]+~~/, "~~strikethrough~~"],
+  [/^\s*>\s/m, "> quote"],
+  [/^\s*\|.*\|\s*$/m, "| table |"],
+];
+
+/**
+ * Control characters, the replacement character (a sign of mangled
+ * encoding), private-use glyphs and zero-width characters LinkedIn
+ * renders as boxes or silently drops.
+ */
+const UNSUPPORTED = /[\u0000-\u0008\u000B\u000C\u000E-\u001F\u007F\uFFFD\u200B\uFEFF\uE000-\uF8FF]/g;
+
+const DEFAULT_SEVERITY: Record<LintRule, LintSeverity> = {
+  length: "error",
+  hook: "warning",
+  "paragraph-length": "info",
+  hashtags: "warning",
+  "url-placement": "warning",
+  "emoji-density": "info",
+  markdown: "warning",
+  "unsupported-characters": "error",
+};
+
+function severityOverrides(): Partial<Record<LintRule, LintSeverity>> {
+  try {
+    return JSON.parse(process.env.LINT_SEVERITIES ?? "{}");
+  } catch {
+    return {};
+  }
+}
+
+/** Lowest severity that blocks publishing — "none" disables blocking */
+export function blockingSeverity(): LintSeverity | "none" {
+  const value = process.env.LINT_BLOCK_SEVERITY ?? "error";
+  return value === "none" || (LINT_SEVERITIES as readonly string[]).includes(value)
+    ? (value as LintSeverity | "none")
+    : "error";
+}
+
+/** Whether any warning is at or above the blocking severity */
+export function blocksPublish(warnings: LintWarning[]): boolean {
+  const threshold = blockingSeverity();
+  if (threshold === "none") return false;
+  const min = LINT_SEVERITIES.indexOf(threshold);
+  return warnings.some((w) => LINT_SEVERITIES.indexOf(w.severity) >= min);
+}
+
+const lineOf = (text: string, index: number) => text.slice(0, index).split("\n").length;
+const clip = (s: string, n = 60) => (s.length > n ? `${s.slice(0, n - 1)}…` : s);
+
+type Finding = Omit<LintWarning, "rule" | "severity">;
+
+const RULES: Record<LintRule, (text: string, emphasis: EmphasisStyle) => Finding[]> = {
+  // Counted on what LinkedIn receives: escapes and Unicode letters add characters
+  length: (text, emphasis) => {
+    const length = toCommentary(text, emphasis).length;
+    return length > MAX_POST_CHARS
+      ? [{
+          message:
+            length === text.length
+              ? `${length} characters — LinkedIn allows ${MAX_POST_CHARS}.`
+              : `${length} characters as sent to LinkedIn (${text.length} as written) — LinkedIn allows ${MAX_POST_CHARS}.`,
+        }]
+      : [];
+  },
+
+  hook: (text) => {
+    const lines = text.trim().split("\n");
+    const hook = lines[0] ?? "";
+    const beforeFold = lines.slice(0, FOLD_LINES).join("\n");
+    if (hook.length > FOLD_CHARS) {
+      return [{
+        message: `The opening line is ${hook.length} characters — it gets cut at "…see more" (~${FOLD_CHARS}). Lead with a shorter hook.`,
+        excerpt: clip(hook),
+        line: 1,
+      }];
+    }
+    if (beforeFold.length > FOLD_CHARS && !/[.!?:…]\s*$/.test(hook)) {
+      return [{
+        message: "The hook runs into the fold mid-thought. End it before the first line break.",
+        excerpt: clip(hook),
+        line: 1,
+      }];
+    }
+    return [];
+  },
+
+  "paragraph-length": (text) => {
+    const findings: Finding[] = [];
+    let offset = 0;
+    for (const paragraph of text.split(/\n\s*\n/)) {
+      const start = text.indexOf(paragraph, offset);
+      offset = start + paragraph.length;
+      if (paragraph.trim().length > MAX_PARAGRAPH_CHARS) {
+        findings.push({
+          message: `Paragraph of ${paragraph.trim().length} characters — long blocks read as walls of text on mobile. Split it up.`,
+          excerpt: clip(paragraph.trim()),
+          line: lineOf(text, start),
+        });
+      }
+    }
+    return findings;
+  },
+
+  hashtags: (text) => {
+    const tags = [...text.matchAll(HASHTAG)].map((m) => `#${m[2]}`);
+    return tags.length > MAX_HASHTAGS
+      ? [{
+          message: `${tags.length} hashtags — LinkedIn recommends at most ${MAX_HASHTAGS}; more reads as spam.`,
+          excerpt: tags.join(" "),
+        }]
+      : [];
+  },
+
+  "url-placement": (text) => {
+    const findings: Finding[] = [];
+    const urls = [...text.matchAll(URL)];
+    const first = urls[0];
+    if (first && first.index < FOLD_CHARS) {
+      findings.push({
+        message: "Link above the fold — links early in a post tend to cut reach. Move it to the end (or the first comment).",
+        excerpt: first[0],
+        line: lineOf(text, first.index),
+      });
+    }
+    if (urls.length > 1) {
+      findings.push({
+        message: `${urls.length} links — only the first gets a preview card. Keep one.`,
+        excerpt: urls.map((m) => m[0]).join(" "),
+      });
+    }
+    return findings;
+  },
+
+  "emoji-density": (text) => {
+    const emoji = text.match(EMOJI)?.length ?? 0;
+    const words = text.split(/\s+/).filter(Boolean).length;
+    return emoji > 3 && emoji / Math.max(words, 1) > MAX_EMOJI_RATIO
+      ? [{ message: `${emoji} emoji in ${words} words — that density reads as cluttered.` }]
+      : [];
+  },
+
+  markdown: (text) => {
+    const findings: Finding[] = [];
+    for (const [pattern, label] of LEFTOVER_MARKDOWN) {
+      const match = pattern.exec(text);
+      if (match) {
+        findings.push({
+          message: `Markdown ${label} — LinkedIn shows the raw symbols.`,
+          excerpt: clip(match[0].trim()),
+          line: lineOf(text, match.index),
+        });
+      }
+    }
+    return findings;
+  },
+
+  "unsupported-characters": (text) => {
+    const chars = [...new Set(text.match(UNSUPPORTED) ?? [])];
+    return chars.length > 0
+      ? [{
+          message: `Characters LinkedIn can't display: ${chars
+            .map((c) => `U+${c.codePointAt(0)!.toString(16).toUpperCase().padStart(4, "0")}`)
+            .join(", ")}.`,
+          line: lineOf(text, text.search(UNSUPPORTED)),
+        }]
+      : [];
+  },
+};
+
+/** Markdown that publishing strips or converts — reported so the preview isn't a surprise */
+function strippedMarkdown(text: string, emphasis: EmphasisStyle): Finding[] {
+  const labels = STRIPPED_MARKDOWN.filter(([pattern]) => pattern.test(text)).map(([, label]) => label);
+  if (labels.length === 0) return [];
+  return [{
+    message:
+      emphasis === "unicode"
+        ? `Markdown ${labels.join(", ")} will become Unicode bold/italic on publish — long passages stay plain for screen readers.`
+        : `Markdown ${labels.join(", ")} will be stripped to plain text on publish.`,
+  }];
+}
+
+/** Run every rule over the post text, most severe first */
+export function lintPost(
+  text: string,
+  { emphasis = "strip" }: { emphasis?: EmphasisStyle } = {}
+): LintWarning[] {
+  const overrides = severityOverrides();
+  const severity = (rule: LintRule) => overrides[rule] ?? DEFAULT_SEVERITY[rule];
+
+  const warnings: LintWarning[] = [
+    ...LINT_RULES.flatMap((rule) =>
+      RULES[rule](text, emphasis).map((f) => ({ rule, severity: severity(rule), ...f }))
+    ),
+    ...strippedMarkdown(text, emphasis).map((f) => ({ rule: "markdown" as const, severity: "info" as const, ...f })),
+  ];
+  return warnings.sort(
+    (a, b) => LINT_SEVERITIES.indexOf(b.severity) - LINT_SEVERITIES.indexOf(a.severity)
+  );
+}
@@ -0,0 +1,25 @@
+import type { z } from "zod";
+
+/**
+ * Parse a JSON object out of a model reply.
+ * Models wrap JSON in prose or ```json fences often enough that we take
+ * the outermost {...} (or [...]) span and validate it against `schema`.
+ * Returns null when nothing valid can be recovered.
+ */
+export function parseJsonReply<T>(text: string, schema: z.ZodType<T>): T | null {
+  const unfenced = text.replace(/```(?:json)?/gi, "");
+  const candidates = [
+    [unfenced.indexOf("{"), unfenced.lastIndexOf("}")],
+    [unfenced.indexOf("["), unfenced.lastIndexOf("]")],
+  ].filter(([start, end]) => start >= 0 && end > start);
+
+  for (const [start, end] of candidates) {
+    try {
+      const parsed = schema.safeParse(JSON.parse(unfenced.slice(start, end + 1)));
+      if (parsed.success) return parsed.data;
+    } catch {
+      // try the next candidate
+    }
+  }
+  return null;
+}
@@ -0,0 +1,36 @@
+/**
+ * What a post carries besides its text: one or more images, or a PDF
+ * document that LinkedIn shows as a swipeable carousel. Client-safe — the
+ * Design step builds it in the browser.
+ */
+
+import { z } from "zod";
+
+/** LinkedIn shows at most 20 images in one post */
+export const MAX_POST_IMAGES = 20;
+
+/** When Canva exported the links (the earliest export, for several) — they expire a day later */
+const exportedAt = z.string().datetime().optional();
+
+export const postMediaSchema = z.discriminatedUnion("kind", [
+  z.object({
+    kind: z.literal("image"),
+    urls: z.array(z.string().url()).min(1).max(MAX_POST_IMAGES),
+    exportedAt,
+  }),
+  z.object({
+    kind: z.literal("document"),
+    url: z.string().url(),
+    /** Shown above the carousel on LinkedIn */
+    title: z.string().trim().min(1).max(200),
+    exportedAt,
+  }),
+]);
+
+export type PostMedia = z.infer<typeof postMediaSchema>;
+
+/** Short label for messages and lists: "an image", "3 images", "a PDF carousel" */
+export function describeMedia(media: PostMedia): string {
+  if (media.kind === "document") return "a PDF carousel";
+  return media.urls.length === 1 ? "an image" : `${media.urls.length} images`;
+}
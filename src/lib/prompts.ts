@@ -0,0 +1,198 @@
+import type { Source, VoiceProfile } from "@/generated/prisma/client";
+import { formatInstruction, type PostFormat } from "@/lib/formats";
+import { LANGUAGES, type Language } from "@/lib/languages";
+import type { ChatMessage } from "@/lib/providers";
+import { HASHTAG_POLICIES, type HashtagPolicy } from "@/lib/voices";
+
+const BASE_PROMPT =
+  "You are a LinkedIn content strategist. Write a compelling, professional LinkedIn post based on the following topic. Keep it under 3000 characters. Use line breaks for readability.";
+
+export const DEFAULT_SYSTEM_PROMPT = `${BASE_PROMPT} Do not use hashtags unless specifically asked.`;
+
+/** Append a structured format's output instructions — they must come last */
+function withFormat(system: string, format: PostFormat): string {
+  const instruction = formatInstruction(format);
+  return instruction ? `${system}\n\n${instruction}` : system;
+}
+
+/** Ask for the post in a language other than English */
+function withLanguage(system: string, language: Language): string {
+  if (language === "en") return system;
+  return `${system}\n\nWrite the post in ${LANGUAGES[language]}. Write it as a native ${LANGUAGES[language]}-speaking professional would — idiomatic, not translated — even if the examples above are in another language.`;
+}
+
+/** Few-shot examples from our own published posts (see lib/style-examples) */
+function withStyleExamples(system: string, examples: string[]): string {
+  if (examples.length === 0) return system;
+  const blocks = examples.map((p, i) => `--- Published post ${i + 1} ---\n${p}`).join("\n\n");
+  return `${system}\n\nThese are posts we have published before. Match their voice, rhythm and structure closely, but write about the new topic — do not reuse their content or phrasing:\n\n${blocks}`;
+}
+
+/**
+ * Compile the generation system prompt.
+ * Without a voice profile this is the default strategist prompt; with one,
+ * the profile's tone, audience, rules, examples and hashtag policy are
+ * appended (and its own system prompt, if set, replaces the default).
+ * Past published posts are added as few-shot examples, non-English posts
+ * get a language instruction, and structured formats (see lib/formats)
+ * add their output shape at the end.
+ */
+export function buildSystemPrompt(
+  voice?: VoiceProfile | null,
+  {
+    format = "post",
+    language = "en",
+    examples = [],
+  }: { format?: PostFormat; language?: Language; examples?: string[] } = {}
+): string {
+  return withFormat(withLanguage(withStyleExamples(compileVoice(voice), examples), language), format);
+}
+
+function compileVoice(voice?: VoiceProfile | null): string {
+  if (!voice) return DEFAULT_SYSTEM_PROMPT;
+
+  const sections = [voice.systemPrompt?.trim() || BASE_PROMPT];
+
+  if (voice.tone) sections.push(`Tone: ${voice.tone}`);
+  if (voice.audience) sections.push(`Audience: ${voice.audience}`);
+  if (voice.doRules.length > 0) {
+    sections.push(`Always:\n${voice.doRules.map((r) => `- ${r}`).join("\n")}`);
+  }
+  if (voice.dontRules.length > 0) {
+    sections.push(`Never:\n${voice.dontRules.map((r) => `- ${r}`).join("\n")}`);
+  }
+  sections.push(
+    `Hashtags: ${HASHTAG_POLICIES[voice.hashtagPolicy as HashtagPolicy] ?? HASHTAG_POLICIES.none}`
+  );
+  if (voice.examplePosts.length > 0) {
+    sections.push(
+      "Match the voice of these example posts (do not copy their content):\n\n" +
+        voice.examplePosts.map((p, i) => `--- Example ${i + 1} ---\n${p}`).join("\n\n")
+    );
+  }
+
+  return sections.join("\n\n");
+}
+
+/**
+ * The user turn for generation: the brief, plus summarized source
+ * material when the post should be grounded in documents.
+ */
+export function buildUserPrompt(
+  prompt: string,
+  sources: Pick<Source, "name" | "summary">[] = []
+): string {
+  if (sources.length === 0) return prompt;
+  const blocks = sources
+    .map((s, i) => `--- Source ${i + 1}: ${s.name} ---\n${s.summary}`)
+    .join("\n\n");
+  return `${prompt}\n\nBase the post on the source material below. Use its facts and figures accurately and do not invent claims it doesn't support.\n\n${blocks}`;
+}
+
+/**
+ * Messages for revising an existing post.
+ * The voice's system prompt still applies so revisions stay on-brand, and
+ * structured formats must come back in the same shape.
+ */
+export function buildRefineMessages(
+  text: string,
+  instruction: string,
+  voice?: VoiceProfile | null,
+  format: PostFormat = "post"
+): ChatMessage[] {
+  return [
+    {
+      role: "system",
+      content: withFormat(
+        `${compileVoice(voice)}\n\nYou are revising an existing draft. Apply the requested change, keep everything else that works, and return only the revised post — no preamble or commentary.`,
+        format
+      ),
+    },
+    {
+      role: "user",
+      content: `Current post:\n\n${text}\n\nRequested change: ${instruction}`,
+    },
+  ];
+}
+
+/**
+ * Messages for merging several candidate posts into one.
+ * Sources are labelled so guidance can refer to them ("hook from A").
+ */
+export function buildSynthesisMessages(
+  sources: { label: string; modelName: string; text: string }[],
+  guidance: string | undefined,
+  voice?: VoiceProfile | null,
+  format: PostFormat = "post"
+): ChatMessage[] {
+  const candidates = sources
+    .map((s) => `--- Draft ${s.label} (${s.modelName}) ---\n${s.text}`)
+    .join("\n\n");
+
+  return [
+    {
+      role: "system",
+      content: withFormat(
+        `${compileVoice(voice)}\n\nYou are combining several drafts of the same post into one. Take the strongest hook, structure and lines from each, remove repetition, and return only the merged post — no preamble or commentary.`,
+        format
+      ),
+    },
+    {
+      role: "user",
+      content: `${candidates}\n\n${guidance ? `Guidance: ${guidance}` : "Merge the best parts of these drafts."}`,
+    },
+  ];
+}
+
+/**
+ * Messages for localizing a finished post. The voice still applies so the
+ * translation keeps its tone; structured formats keep their shape.
+ */
+export function buildTranslationMessages(
+  text: string,
+  language: Language,
+  voice?: VoiceProfile | null,
+  format: PostFormat = "post"
+): ChatMessage[] {
+  return [
+    {
+      role: "system",
+      content: withFormat(
+        `${compileVoice(voice)}\n\nYou are localizing a finished LinkedIn post into ${LANGUAGES[language]}. Keep its meaning, structure, line breaks, emoji, hashtags and @-mentions, but make it read as if written natively in ${LANGUAGES[language]} — adapt idioms instead of translating word for word. Return only the translated post — no preamble or commentary.`,
+        format
+      ),
+    },
+    { role: "user", content: text },
+  ];
+}
+
+/**
+ * The brief for one post in a campaign series: the whole outline for
+ * context, this post's angle and points, and a nudge to link to its
+ * neighbours without covering their points.
+ */
+export function buildCampaignPostPrompt(
+  theme: string,
+  posts: { title: string; angle: string; keyPoints: string[] }[],
+  index: number,
+  brief?: string | null
+): string {
+  const post = posts[index];
+  const outline = posts
+    .map((p, i) => `${i + 1}. ${p.title} — ${p.angle}${i === index ? "  ← this post" : ""}`)
+    .join("\n");
+  const neighbours = [
+    index > 0 ? `It follows "${posts[index - 1].title}" — you may briefly refer back to it.` : "It opens the series — set up what's coming.",
+    index < posts.length - 1 ? `The next post is "${posts[index + 1].title}" — you may tease it in the closing line.` : "It closes the series — tie the theme together.",
+  ].join(" ");
+
+  return [
+    `This is post ${index + 1} of ${posts.length} in a LinkedIn series on "${theme}".`,
+    brief ? `Series brief: ${brief}` : "",
+    `Series outline:\n${outline}`,
+    `Write post ${index + 1}: "${post.title}".\nAngle: ${post.angle}\nCover these points:\n${post.keyPoints.map((k) => `- ${k}`).join("\n")}`,
+    `${neighbours} Do not repeat points that belong to other posts in the outline.`,
+  ]
+    .filter(Boolean)
+    .join("\n\n");
+}
@@ -0,0 +1,89 @@
+import axios from "axios";
+import { parseSSE } from "@/lib/sse";
+import type {
+  CompletionRequest,
+  CompletionResult,
+  GeminiConfig,
+  ProviderAdapter,
+  TokenUsage,
+} from "./types";
+
+const GEMINI_URL = "https://generativelanguage.googleapis.com/v1beta/models";
+
+function parseUsage(data: Record<string, unknown>): TokenUsage | undefined {
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  const d = data as any;
+  return d?.usageMetadata
+    ? {
+        promptTokens: d.usageMetadata.promptTokenCount ?? 0,
+        completionTokens: d.usageMetadata.candidatesTokenCount ?? 0,
+      }
+    : undefined;
+}
+
+function parseText(data: Record<string, unknown>): string | undefined {
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  const d = data as any;
+  return d?.candidates?.[0]?.content?.parts?.[0]?.text;
+}
+
+/** Parse Google Gemini REST API response */
+function parseGeminiResponse(data: Record<string, unknown>): CompletionResult {
+  return { text: parseText(data) ?? "", usage: parseUsage(data) };
+}
+
+/** System messages become `system_instruction`; the rest map onto `contents` */
+function buildBody({ messages, maxTokens, temperature }: CompletionRequest) {
+  const system = messages
+    .filter((m) => m.role === "system")
+    .map((m) => m.content)
+    .join("\n\n");
+  const contents = messages
+    .filter((m) => m.role !== "system")
+    .map((m) => ({
+      role: m.role === "assistant" ? "model" : "user",
+      parts: [{ text: m.content }],
+    }));
+
+  return {
+    ...(system ? { system_instruction: { parts: [{ text: system }] } } : {}),
+    contents,
+    generationConfig: { maxOutputTokens: maxTokens, temperature },
+  };
+}
+
+/** Google Gemini generateContent / streamGenerateContent */
+export const geminiAdapter: ProviderAdapter<GeminiConfig> = {
+  async complete(config, request) {
+    const res = await axios.post(
+      `${GEMINI_URL}/${config.model}:generateContent?key=${config.apiKey}`,
+      buildBody(request),
+      { headers: { "Content-Type": "application/json" }, timeout: 60_000 }
+    );
+    return parseGeminiResponse(res.data);
+  },
+  async stream(config, request, onToken) {
+    const res = await axios.post(
+      `${GEMINI_URL}/${config.model}:streamGenerateContent?alt=sse&key=${config.apiKey}`,
+      buildBody(request),
+      {
+        headers: { "Content-Type": "application/json" },
+        responseType: "stream",
+        timeout: 60_000,
+      }
+    );
+
+    let text = "";
+    let usage: TokenUsage | undefined;
+    for await (const { data } of parseSSE(res.data)) {
+      const chunk = JSON.parse(data);
+      const delta = parseText(chunk);
+      if (delta) {
+        text += delta;
+        onToken(delta);
+      }
+      usage = parseUsage(chunk) ?? usage;
+    }
+    return { text, usage };
+  },
+};
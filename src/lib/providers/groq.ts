@@ -0,0 +1,24 @@
+import { postChatCompletion, streamChatCompletion } from "./openai-compatible";
+import type { GroqConfig, ProviderAdapter } from "./types";
+
+const GROQ_URL = "https://api.groq.com/openai/v1/chat/completions";
+
+/** Groq chat completions (OpenAI-compatible) */
+export const groqAdapter: ProviderAdapter<GroqConfig> = {
+  complete(config, { messages, maxTokens, temperature }) {
+    return postChatCompletion(GROQ_URL, config.apiKey, {
+      model: config.model,
+      messages,
+      max_tokens: maxTokens,
+      temperature,
+    });
+  },
+  stream(config, { messages, maxTokens, temperature }, onToken) {
+    return streamChatCompletion(
+      GROQ_URL,
+      config.apiKey,
+      { model: config.model, messages, max_tokens: maxTokens, temperature },
+      onToken
+    );
+  },
+};
@@ -0,0 +1,95 @@
+import { geminiAdapter } from "./gemini";
+import { groqAdapter } from "./groq";
+import { ollamaAdapter } from "./ollama";
+import { openAICompatibleAdapter } from "./openai-compatible";
+import { openRouterAdapter } from "./openrouter";
+import { ProviderError, withRetry } from "./retry";
+import type {
+  CompletionRequest,
+  CompletionResult,
+  ModelDefinition,
+  ProviderAdapter,
+  ProviderConfig,
+  ProviderType,
+  TokenHandler,
+} from "./types";
+
+export * from "./types";
+export { listModels, getModel, modelFromEnv, NO_MODELS_ERROR } from "./models";
+export { ProviderError } from "./retry";
+
+const adapters: {
+  [T in ProviderType]: ProviderAdapter<Extract<ProviderConfig, { type: T }>>;
+} = {
+  openrouter: openRouterAdapter,
+  gemini: geminiAdapter,
+  groq: groqAdapter,
+  "openai-compatible": openAICompatibleAdapter,
+  ollama: ollamaAdapter,
+};
+
+/**
+ * Run a chat completion through the adapter matching the config's type.
+ * With `onToken`, streams when the adapter supports it; otherwise the
+ * full text is delivered as a single token once the call completes.
+ */
+export async function complete(
+  config: ProviderConfig,
+  request: CompletionRequest,
+  onToken?: TokenHandler
+): Promise<CompletionResult> {
+  const adapter = adapters[config.type] as ProviderAdapter<ProviderConfig>;
+  if (!onToken) return adapter.complete(config, request);
+  if (adapter.stream) return adapter.stream(config, request, onToken);
+
+  const result = await adapter.complete(config, request);
+  onToken(result.text);
+  return result;
+}
+
+/** A completion plus which provider model produced it and how many calls it took */
+export interface ModelCompletion extends CompletionResult {
+  model: string;
+  attempts: number;
+}
+
+/**
+ * Complete against a model slot: each candidate (the slot's model, then
+ * its fallbacks) is retried on 429/5xx with backoff before moving on.
+ * Once a stream has emitted tokens nothing is retried — the caller has
+ * already shown them. Throws a ProviderError with the last failure and
+ * the total attempt count across all candidates.
+ */
+export async function completeWithFallbacks(
+  model: ModelDefinition,
+  request: CompletionRequest,
+  onToken?: TokenHandler
+): Promise<ModelCompletion> {
+  const candidates = [model.provider.model, ...(model.fallbacks ?? [])];
+  let attempts = 0;
+  let streamed = false;
+  const track: TokenHandler | undefined = onToken
+    ? (delta) => {
+        streamed = true;
+        onToken(delta);
+      }
+    : undefined;
+
+  for (const [i, candidate] of candidates.entries()) {
+    const config = { ...model.provider, model: candidate };
+    try {
+      const { value, attempts: used } = await withRetry(
+        () => complete(config, request, track),
+        () => !streamed
+      );
+      return { ...value, model: candidate, attempts: attempts + used };
+    } catch (err) {
+      const failure = err as ProviderError;
+      attempts += failure.attempts;
+      if (streamed || i === candidates.length - 1) {
+        throw new ProviderError(failure.message, failure.status, attempts);
+      }
+    }
+  }
+  throw new ProviderError("No model configured", null, attempts);
+}
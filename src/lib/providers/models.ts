@@ -0,0 +1,121 @@
+import type { ModelDefinition } from "./types";
+
+/** Comma-separated model ids from an env var, e.g. MODEL1_FALLBACKS */
+function envList(key: string): string[] {
+  return (process.env[key] ?? "")
+    .split(",")
+    .map((s) => s.trim())
+    .filter(Boolean);
+}
+
+/**
+ * Model slots that /api/generate fans out to.
+ * Add, remove or swap a model here — the generate route, publish
+ * validation and dashboard cards all read from this list.
+ * Local slots (see localModels) are appended, or replace the hosted
+ * ones entirely when LOCAL_LLM_ONLY=true.
+ */
+export function listModels(): ModelDefinition[] {
+  const local = localModels();
+  return process.env.LOCAL_LLM_ONLY === "true" ? local : [...hostedModels(), ...local];
+}
+
+function hostedModels(): ModelDefinition[] {
+  return [
+    {
+      id: "openrouter-1",
+      name: "GPT-OSS 120B",
+      vendor: "OpenAI",
+      provider: {
+        type: "openrouter",
+        apiKey: process.env.OPENROUTER_KEY_MODEL1!,
+        model: process.env.MODEL1_ID ?? "openai/gpt-oss-120b",
+      },
+      fallbacks: envList("MODEL1_FALLBACKS"),
+    },
+    {
+      id: "openrouter-2",
+      name: "Gemma 3 27B",
+      vendor: "Google",
+      provider: {
+        type: "openrouter",
+        apiKey: process.env.OPENROUTER_KEY_MODEL2!,
+        model: process.env.MODEL2_ID ?? "google/gemma-3-27b-it:free",
+      },
+      fallbacks: envList("MODEL2_FALLBACKS"),
+    },
+    {
+      id: "openrouter-3",
+      name: "GLM 4.5 Air",
+      vendor: "Zhipu AI",
+      provider: {
+        type: "openrouter",
+        apiKey: process.env.OPENROUTER_KEY_MODEL3!,
+        model: process.env.MODEL3_ID ?? "zhipu-ai/glm-z1-air:free",
+      },
+      fallbacks: envList("MODEL3_FALLBACKS"),
+    },
+    {
+      id: "gemini",
+      name: "Gemini 2.0 Flash",
+      vendor: "Google",
+      provider: {
+        type: "gemini",
+        apiKey: process.env.GEMINI_API_KEY!,
+        model: process.env.GEMINI_MODEL_ID ?? "gemini-2.0-flash",
+      },
+      fallbacks: envList("GEMINI_FALLBACKS"),
+    },
+    {
+      id: "groq",
+      name: "Llama 3.3 70B",
+      vendor: "Groq",
+      provider: {
+        type: "groq",
+        apiKey: process.env.GROQ_API_KEY!,
+        model: process.env.GROQ_MODEL_ID ?? "llama-3.3-70b-versatile",
+      },
+      fallbacks: envList("GROQ_FALLBACKS"),
+    },
+  ];
+}
+
+/**
+ * Self-hosted models for air-gapped machines and CI, one slot per id in
+ * LOCAL_LLM_MODELS. LOCAL_LLM_PROVIDER picks Ollama's native API (default)
+ * or any OpenAI-compatible server (vLLM, llama.cpp, LM Studio…) at
+ * LOCAL_LLM_BASE_URL.
+ */
+function localModels(): ModelDefinition[] {
+  const type = process.env.LOCAL_LLM_PROVIDER === "openai-compatible" ? "openai-compatible" : "ollama";
+  const baseUrl =
+    process.env.LOCAL_LLM_BASE_URL ??
+    (type === "ollama" ? "http://localhost:11434" : "http://localhost:8000/v1");
+
+  return envList("LOCAL_LLM_MODELS").map((model) => ({
+    id: `local-${model}`,
+    name: model,
+    vendor: type === "ollama" ? "Ollama" : "Local",
+    provider:
+      type === "ollama"
+        ? { type, baseUrl, model }
+        : { type, baseUrl, model, apiKey: process.env.LOCAL_LLM_API_KEY },
+  }));
+}
+
+/** Look up a model slot by id */
+export function getModel(id: string): ModelDefinition | undefined {
+  return listModels().find((m) => m.id === id);
+}
+
+/** Shown when a call needs a model but no provider is configured */
+export const NO_MODELS_ERROR = "No models configured — add a provider API key or LOCAL_LLM_MODELS";
+
+/**
+ * Model slot named by an env var (e.g. JUDGE_MODEL_ID), else the first
+ * registered model — undefined when none is registered
+ */
+export function modelFromEnv(key: string): ModelDefinition | undefined {
+  const id = process.env[key];
+  return (id ? getModel(id) : undefined) ?? listModels()[0];
+}
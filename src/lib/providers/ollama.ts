@@ -0,0 +1,84 @@
+import axios from "axios";
+import type {
+  CompletionRequest,
+  CompletionResult,
+  OllamaConfig,
+  ProviderAdapter,
+  TokenUsage,
+} from "./types";
+
+/** Local models can take a while to load on first use */
+const TIMEOUT_MS = 120_000;
+
+function chatUrl(baseUrl: string) {
+  return `${baseUrl.replace(/\/+$/, "")}/api/chat`;
+}
+
+function buildBody(
+  config: OllamaConfig,
+  { messages, maxTokens, temperature }: CompletionRequest,
+  stream: boolean
+) {
+  return { model: config.model, messages, stream, options: { num_predict: maxTokens, temperature } };
+}
+
+function parseUsage(data: Record<string, unknown>): TokenUsage | undefined {
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  const d = data as any;
+  return d?.done
+    ? { promptTokens: d.prompt_eval_count ?? 0, completionTokens: d.eval_count ?? 0 }
+    : undefined;
+}
+
+/** Split a byte stream into newline-delimited JSON objects */
+async function* parseNDJSON(
+  chunks: AsyncIterable<Uint8Array>
+): AsyncGenerator<Record<string, unknown>> {
+  const decoder = new TextDecoder();
+  let buffer = "";
+  for await (const chunk of chunks) {
+    buffer += decoder.decode(chunk, { stream: true });
+    let newline: number;
+    while ((newline = buffer.indexOf("\n")) >= 0) {
+      const line = buffer.slice(0, newline).trim();
+      buffer = buffer.slice(newline + 1);
+      if (line) yield JSON.parse(line);
+    }
+  }
+  buffer += decoder.decode();
+  if (buffer.trim()) yield JSON.parse(buffer);
+}
+
+/** Ollama's native /api/chat (streams NDJSON rather than SSE) */
+export const ollamaAdapter: ProviderAdapter<OllamaConfig> = {
+  async complete(config, request) {
+    const res = await axios.post(chatUrl(config.baseUrl), buildBody(config, request, false), {
+      headers: { "Content-Type": "application/json" },
+      timeout: TIMEOUT_MS,
+    });
+    return {
+      text: res.data?.message?.content ?? "",
+      usage: parseUsage(res.data),
+    };
+  },
+  async stream(config, request, onToken): Promise<CompletionResult> {
+    const res = await axios.post(chatUrl(config.baseUrl), buildBody(config, request, true), {
+      headers: { "Content-Type": "application/json" },
+      responseType: "stream",
+      timeout: TIMEOUT_MS,
+    });
+
+    let text = "";
+    let usage: TokenUsage | undefined;
+    for await (const chunk of parseNDJSON(res.data)) {
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      const delta: string | undefined = (chunk as any)?.message?.content;
+      if (delta) {
+        text += delta;
+        onToken(delta);
+      }
+      usage = parseUsage(chunk) ?? usage;
+    }
+    return { text, usage };
+  },
+};
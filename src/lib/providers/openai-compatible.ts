@@ -0,0 +1,125 @@
+import axios from "axios";
+import { parseSSE } from "@/lib/sse";
+import type {
+  ChatMessage,
+  CompletionResult,
+  OpenAICompatibleConfig,
+  ProviderAdapter,
+  TokenHandler,
+  TokenUsage,
+} from "./types";
+
+type ChatCompletionBody = {
+  model: string;
+  messages: ChatMessage[];
+  max_tokens: number;
+  temperature?: number;
+};
+
+/** Map an OpenAI-style `usage` object onto TokenUsage */
+function parseUsage(usage: unknown): TokenUsage | undefined {
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  const u = usage as any;
+  return u
+    ? { promptTokens: u.prompt_tokens ?? 0, completionTokens: u.completion_tokens ?? 0 }
+    : undefined;
+}
+
+/** Parse OpenAI-compatible chat completion response */
+export function parseOpenAIResponse(data: Record<string, unknown>): CompletionResult {
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  const d = data as any;
+  return {
+    text: d?.choices?.[0]?.message?.content ?? "",
+    usage: parseUsage(d?.usage),
+  };
+}
+
+function buildHeaders(apiKey: string | undefined, extraHeaders: Record<string, string>) {
+  return {
+    ...(apiKey ? { Authorization: `Bearer ${apiKey}` } : {}),
+    "Content-Type": "application/json",
+    ...extraHeaders,
+  };
+}
+
+/** POST a chat completion to an OpenAI-compatible endpoint */
+export async function postChatCompletion(
+  url: string,
+  apiKey: string | undefined,
+  body: ChatCompletionBody,
+  extraHeaders: Record<string, string> = {}
+): Promise<CompletionResult> {
+  const res = await axios.post(url, body, {
+    headers: buildHeaders(apiKey, extraHeaders),
+    timeout: 60_000,
+  });
+  return parseOpenAIResponse(res.data);
+}
+
+/**
+ * Stream a chat completion from an OpenAI-compatible endpoint.
+ * Requests a trailing usage chunk so token counts survive streaming;
+ * servers that reject the option with a 400 are asked again without it.
+ */
+export async function streamChatCompletion(
+  url: string,
+  apiKey: string | undefined,
+  body: ChatCompletionBody,
+  onToken: TokenHandler,
+  extraHeaders: Record<string, string> = {}
+): Promise<CompletionResult> {
+  const post = (options: object) =>
+    axios.post(url, { ...body, stream: true, ...options }, {
+      headers: buildHeaders(apiKey, extraHeaders),
+      responseType: "stream",
+      timeout: 60_000,
+    });
+
+  let res;
+  try {
+    res = await post({ stream_options: { include_usage: true } });
+  } catch (err) {
+    if (!axios.isAxiosError(err) || err.response?.status !== 400) throw err;
+    res = await post({});
+  }
+
+  let text = "";
+  let usage: TokenUsage | undefined;
+  for await (const { data } of parseSSE(res.data)) {
+    if (data === "[DONE]") break;
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    const chunk = JSON.parse(data) as any;
+    const delta: string | undefined = chunk?.choices?.[0]?.delta?.content;
+    if (delta) {
+      text += delta;
+      onToken(delta);
+    }
+    usage = parseUsage(chunk?.usage) ?? usage;
+  }
+  return { text, usage };
+}
+
+function chatCompletionsUrl(baseUrl: string) {
+  return `${baseUrl.replace(/\/+$/, "")}/chat/completions`;
+}
+
+export const openAICompatibleAdapter: ProviderAdapter<OpenAICompatibleConfig> = {
+  complete(config, { messages, maxTokens, temperature }) {
+    return postChatCompletion(
+      chatCompletionsUrl(config.baseUrl),
+      config.apiKey,
+      { model: config.model, messages, max_tokens: maxTokens, temperature },
+      config.headers
+    );
+  },
+  stream(config, { messages, maxTokens, temperature }, onToken) {
+    return streamChatCompletion(
+      chatCompletionsUrl(config.baseUrl),
+      config.apiKey,
+      { model: config.model, messages, max_tokens: maxTokens, temperature },
+      onToken,
+      config.headers
+    );
+  },
+};
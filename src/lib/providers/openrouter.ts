@@ -0,0 +1,30 @@
+import { postChatCompletion, streamChatCompletion } from "./openai-compatible";
+import type { OpenRouterConfig, ProviderAdapter } from "./types";
+
+const OPENROUTER_URL = "https://openrouter.ai/api/v1/chat/completions";
+
+const ATTRIBUTION_HEADERS = {
+  "HTTP-Referer": "https://linkedin-ai-engine.vercel.app",
+  "X-Title": "LinkedIn AI Engine",
+};
+
+/** OpenRouter chat completions (OpenAI-compatible, with attribution headers) */
+export const openRouterAdapter: ProviderAdapter<OpenRouterConfig> = {
+  complete(config, { messages, maxTokens, temperature }) {
+    return postChatCompletion(
+      OPENROUTER_URL,
+      config.apiKey,
+      { model: config.model, messages, max_tokens: maxTokens, temperature },
+      ATTRIBUTION_HEADERS
+    );
+  },
+  stream(config, { messages, maxTokens, temperature }, onToken) {
+    return streamChatCompletion(
+      OPENROUTER_URL,
+      config.apiKey,
+      { model: config.model, messages, max_tokens: maxTokens, temperature },
+      onToken,
+      ATTRIBUTION_HEADERS
+    );
+  },
+};
@@ -0,0 +1,90 @@
+import type { Readable } from "node:stream";
+
+/** Attempts per model before moving on to the next fallback */
+const MAX_ATTEMPTS = Math.max(1, Number(process.env.LLM_MAX_ATTEMPTS ?? 3));
+const BASE_DELAY_MS = 500;
+const MAX_DELAY_MS = 8_000;
+
+/**
+ * A provider call that failed for good — after retries and fallbacks.
+ * Keeps the HTTP status and the provider's own message apart so the UI
+ * doesn't have to parse them back out of a string.
+ */
+export class ProviderError extends Error {
+  constructor(
+    message: string,
+    readonly status: number | null,
+    readonly attempts: number
+  ) {
+    super(message);
+    this.name = "ProviderError";
+  }
+}
+
+/** Upstream statuses worth another try: rate limits and server errors */
+export function isRetryableStatus(status: number | null): boolean {
+  return status === 429 || (status !== null && status >= 500);
+}
+
+/**
+ * Read the error body of a failed request. Streaming calls leave the
+ * body as an unread stream, so drain it and parse the JSON ourselves.
+ */
+async function readErrorBody(data: unknown): Promise<unknown> {
+  if (!data || typeof (data as Readable).pipe !== "function") return data;
+  let raw = "";
+  for await (const chunk of data as Readable) raw += chunk;
+  try {
+    return JSON.parse(raw);
+  } catch {
+    return { error: { message: raw.trim() || undefined } };
+  }
+}
+
+/** Normalize an axios (or any) error into status + provider message */
+export async function describeError(
+  err: unknown
+): Promise<{ status: number | null; message: string; retryAfterMs: number | null }> {
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  const e = err as any;
+  const status: number | null = e?.response?.status ?? null;
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  const body = (await readErrorBody(e?.response?.data).catch(() => null)) as any;
+  const retryAfter = Number(e?.response?.headers?.["retry-after"]);
+  return {
+    status,
+    message: body?.error?.message ?? body?.[0]?.error?.message ?? e?.message ?? "unknown",
+    retryAfterMs: Number.isFinite(retryAfter) ? retryAfter * 1000 : null,
+  };
+}
+
+/** Exponential backoff with jitter, honouring Retry-After when present */
+function backoffDelay(attempt: number, retryAfterMs: number | null): number {
+  if (retryAfterMs !== null) return Math.min(retryAfterMs, MAX_DELAY_MS);
+  const exp = Math.min(BASE_DELAY_MS * 2 ** (attempt - 1), MAX_DELAY_MS);
+  return exp + Math.random() * BASE_DELAY_MS;
+}
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+/**
+ * Run `call` until it succeeds, retrying 429/5xx responses with backoff.
+ * `canRetry` lets streaming callers stop once tokens have been sent on.
+ * Throws a ProviderError carrying the last status and the attempt count.
+ */
+export async function withRetry<T>(
+  call: () => Promise<T>,
+  canRetry: () => boolean = () => true
+): Promise<{ value: T; attempts: number }> {
+  for (let attempt = 1; ; attempt++) {
+    try {
+      return { value: await call(), attempts: attempt };
+    } catch (err) {
+      const { status, message, retryAfterMs } = await describeError(err);
+      if (attempt >= MAX_ATTEMPTS || !isRetryableStatus(status) || !canRetry()) {
+        throw new ProviderError(message, status, attempt);
+      }
+      await sleep(backoffDelay(attempt, retryAfterMs));
+    }
+  }
+}
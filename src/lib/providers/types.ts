@@ -0,0 +1,95 @@
+/**
+ * Shared types for LLM provider adapters.
+ * Each provider type has its own config shape; the registry in ./models
+ * pairs a config with display metadata to form a selectable model.
+ */
+
+export interface ChatMessage {
+  role: "system" | "user" | "assistant";
+  content: string;
+}
+
+export interface CompletionRequest {
+  messages: ChatMessage[];
+  maxTokens: number;
+  /** Sampling temperature — omitted means the provider's default */
+  temperature?: number;
+}
+
+export interface TokenUsage {
+  promptTokens: number;
+  completionTokens: number;
+}
+
+export interface CompletionResult {
+  /** Empty when the model replied with nothing or its reply was blocked */
+  text: string;
+  usage?: TokenUsage;
+}
+
+export interface OpenRouterConfig {
+  type: "openrouter";
+  apiKey: string;
+  model: string;
+}
+
+export interface GeminiConfig {
+  type: "gemini";
+  apiKey: string;
+  model: string;
+}
+
+export interface GroqConfig {
+  type: "groq";
+  apiKey: string;
+  model: string;
+}
+
+/** Any endpoint that speaks the OpenAI chat completions protocol */
+export interface OpenAICompatibleConfig {
+  type: "openai-compatible";
+  baseUrl: string;
+  apiKey?: string;
+  model: string;
+  headers?: Record<string, string>;
+}
+
+/** A local or self-hosted Ollama server (native API) */
+export interface OllamaConfig {
+  type: "ollama";
+  baseUrl: string;
+  model: string;
+}
+
+export type ProviderConfig =
+  | OpenRouterConfig
+  | GeminiConfig
+  | GroqConfig
+  | OpenAICompatibleConfig
+  | OllamaConfig;
+
+export type ProviderType = ProviderConfig["type"];
+
+/** Receives each text fragment as a streaming provider produces it */
+export type TokenHandler = (delta: string) => void;
+
+export interface ProviderAdapter<C extends ProviderConfig> {
+  complete(config: C, request: CompletionRequest): Promise<CompletionResult>;
+  /** Optional streaming variant — resolves with the full text once the stream ends */
+  stream?(
+    config: C,
+    request: CompletionRequest,
+    onToken: TokenHandler
+  ): Promise<CompletionResult>;
+}
+
+/** A configured model slot shown on the dashboard */
+export interface ModelDefinition {
+  /** Stable key stored on drafts — never reuse for a different slot */
+  id: string;
+  name: string;
+  vendor: string;
+  provider: ProviderConfig;
+  /** Provider model ids tried in order when `provider.model` keeps failing */
+  fallbacks?: string[];
+}
@@ -0,0 +1,433 @@
+/**
+ * Publishing a draft variant to LinkedIn, now or later. Immediate publishes
+ * and the scheduled-publish worker share the same checks and bookkeeping.
+ * A draft can go to several identities at once; each successful post is
+ * recorded as a Publication, so a retry only posts where it hasn't yet.
+ *
+ * Scheduled posts are PublishJob rows. The worker claims due jobs with a
+ * compare-and-set on their status, so concurrent runs never post the same
+ * job twice. Transient LinkedIn errors are retried with backoff. A job that
+ * stalls mid-post is marked failed rather than retried, because the post
+ * may already be live.
+ */
+
+import axios from "axios";
+import { z } from "zod";
+import { Prisma } from "@/generated/prisma/client";
+import { EMPHASIS_STYLES, type EmphasisStyle } from "@/lib/commentary";
+import type { Poll, StructuredPost } from "@/lib/formats";
+import {
+  createLinkedInPost,
+  envTarget,
+  MediaUploadError,
+  isTransientError,
+  resolvePublishTargets,
+  type PublishTarget,
+} from "@/lib/linkedin";
+import { blocksPublish, lintPost, type LintWarning } from "@/lib/lint";
+import { postMediaSchema, type PostMedia } from "@/lib/media";
+import { prisma } from "@/lib/prisma";
+
+export const PUBLISH_JOB_STATUSES = ["scheduled", "running", "published", "failed", "cancelled"] as const;
+export type PublishJobStatus = (typeof PUBLISH_JOB_STATUSES)[number];
+
+/** Statuses that still hold a slot for the draft */
+export const ACTIVE_JOB_STATUSES: PublishJobStatus[] = ["scheduled", "running"];
+
+/** Attempts per job before it is marked failed */
+const MAX_ATTEMPTS = Math.max(1, Number(process.env.PUBLISH_MAX_ATTEMPTS ?? 5));
+/** First retry after a minute, doubling up to an hour */
+const RETRY_BASE_MS = 60_000;
+const RETRY_MAX_MS = 60 * 60_000;
+/** A job still running after this long is assumed to have lost its worker */
+const STALE_LOCK_MS = 10 * 60_000;
+/** Jobs handled per worker run */
+const WORKER_BATCH = 10;
+/** Canva export links expire after 24 hours; keep an hour's margin */
+const MEDIA_LINK_TTL_MS = 23 * 60 * 60_000;
+
+export interface PublishRequest {
+  draftId: string;
+  variantId: string;
+  text: string;
+  /** Images or a PDF carousel to attach */
+  media?: PostMedia | null;
+  /** Identities to post as; empty means the default ones */
+  targetUrns?: string[];
+  /** Keep markdown bold/italic as Unicode letters instead of stripping it */
+  emphasis?: EmphasisStyle;
+  /** Save a dry run when no LinkedIn account is available, instead of failing */
+  allowDryRun?: boolean;
+}
+
+/** Outcome of posting to one identity */
+export interface TargetResult {
+  urn: string;
+  name: string;
+  linkedinPostId?: string;
+  error?: string;
+}
+
+type Failure = {
+  ok: false;
+  status: number;
+  error: string;
+  warnings?: LintWarning[];
+  details?: unknown;
+  /** Worth trying again later */
+  transient: boolean;
+};
+
+const futureDate = z.coerce
+  .date()
+  .refine((date) => date.getTime() > Date.now(), { message: "Must be in the future" });
+
+/** Shown when a post's media links expire before it goes out */
+export const MEDIA_LINK_EXPIRY_MESSAGE =
+  "Canva attachments must be posted within 23 hours of exporting them — the export links expire after a day. Export the design again.";
+
+/** Whether the media's export links still work at `at`; links without an export time don't expire */
+export function mediaLinksLast(at: Date, media: PostMedia): boolean {
+  if (!media.exportedAt) return true;
+  return at.getTime() - new Date(media.exportedAt).getTime() <= MEDIA_LINK_TTL_MS;
+}
+
+/** Payload accepted by POST /api/publish-jobs */
+export const publishJobSchema = z
+  .object({
+    draftId: z.string().min(1),
+    variantId: z.string().min(1),
+    text: z.string().min(1).max(3000),
+    media: postMediaSchema.optional(),
+    targetUrns: z.array(z.string().startsWith("urn:li:")).max(10).default([]),
+    emphasis: z.enum(EMPHASIS_STYLES).default("strip"),
+    scheduledAt: futureDate,
+  })
+  .refine(({ media, scheduledAt }) => !media || mediaLinksLast(scheduledAt, media), {
+    message: MEDIA_LINK_EXPIRY_MESSAGE,
+    path: ["scheduledAt"],
+  });
+
+/** Payload accepted by PATCH /api/publish-jobs/:id */
+export const rescheduleSchema = z.object({
+  scheduledAt: futureDate,
+  text: z.string().min(1).max(3000).optional(),
+});
+
+/** Whether publishing is switched on (PUBLISH_ENABLED=true) */
+export function publishEnabled(): boolean {
+  return process.env.PUBLISH_ENABLED === "true";
+}
+
+/**
+ * Checks that apply both when scheduling and when posting: the variant
+ * belongs to the draft, polls have no media, media links haven't
+ * expired, and the text passes lint.
+ */
+export async function checkPublishable({
+  draftId,
+  variantId,
+  text,
+  media,
+  emphasis,
+}: PublishRequest): Promise<{ ok: true; poll: Poll | null } | Failure> {
+  const variant = await prisma.draftVariant.findFirst({
+    where: { id: variantId, draftId },
+  });
+  if (!variant) {
+    return { ok: false, status: 404, error: "Variant not found for this draft", transient: false };
+  }
+
+  const structured = variant.structured as StructuredPost | null;
+  const poll = structured?.format === "poll" ? structured : null;
+  if (poll && media) {
+    return { ok: false, status: 400, error: "LinkedIn polls can't include images or documents", transient: false };
+  }
+  if (media && !mediaLinksLast(new Date(), media)) {
+    return { ok: false, status: 400, error: MEDIA_LINK_EXPIRY_MESSAGE, transient: false };
+  }
+
+  const warnings = lintPost(text, { emphasis });
+  if (blocksPublish(warnings)) {
+    return { ok: false, status: 422, error: "Post failed LinkedIn checks", warnings, transient: false };
+  }
+
+  return { ok: true, poll };
+}
+
+/** Turn a failed LinkedIn call into a failure result; rethrows anything else */
+function describeFailure(err: unknown): Failure {
+  const transient = isTransientError(err);
+  if (err instanceof MediaUploadError) {
+    return { ok: false, status: 500, error: err.message, transient };
+  }
+  if (axios.isAxiosError(err) && err.response) {
+    return {
+      ok: false,
+      status: err.response.status,
+      error: "LinkedIn API error",
+      details: err.response.data,
+      transient,
+    };
+  }
+  if (transient) {
+    return { ok: false, status: 502, error: "LinkedIn did not respond", transient };
+  }
+  throw err;
+}
+
+/** A failure as one line, for job errors and per-target results */
+export function failureMessage(failure: Pick<Failure, "error" | "details">): string {
+  return failure.details
+    ? `${failure.error}: ${JSON.stringify(failure.details).slice(0, 500)}`
+    : failure.error;
+}
+
+/**
+ * A draft published before posts were tracked per account has no
+ * Publication. Record its post for the account that made it — the
+ * connected member carried over by the migration, else the env author,
+ * as publishing chose back then — so only that account is skipped.
+ */
+async function recordLegacyPublication(draftId: string): Promise<void> {
+  const draft = await prisma.draft.findFirst({
+    where: { id: draftId, published: true, linkedinPostId: { not: null }, publications: { none: {} } },
+    select: { linkedinPostId: true },
+  });
+  if (!draft?.linkedinPostId) return;
+
+  const author =
+    (await prisma.linkedInIdentity.findFirst({
+      where: { id: { startsWith: "migrated-" } },
+      orderBy: { createdAt: "asc" },
+    })) ?? envTarget();
+  if (!author) return;
+  await prisma.publication.createMany({
+    data: [{ draftId, targetUrn: author.urn, targetName: author.name, linkedinPostId: draft.linkedinPostId }],
+    skipDuplicates: true,
+  });
+}
+
+/**
+ * Post a variant to LinkedIn as each target and record the results on its
+ * draft. Targets the draft was already published to are skipped. Succeeds
+ * when at least one post went out; `failed` lists the targets that didn't.
+ * With no LinkedIn account available at all, this is a dry run — unless
+ * `allowDryRun` is false, as for scheduled posts.
+ */
+export async function publishDraft(request: PublishRequest): Promise<
+  | {
+      ok: true;
+      linkedinPostId: string;
+      dryRun: boolean;
+      published: TargetResult[];
+      failed: TargetResult[];
+      /** Every failure was transient — worth retrying later */
+      transient: boolean;
+    }
+  | Failure
+> {
+  const check = await checkPublishable(request);
+  if (!check.ok) return check;
+
+  const resolved = await resolvePublishTargets(request.targetUrns);
+  if (!resolved.ok) {
+    return { ok: false, status: 400, error: resolved.error, transient: false };
+  }
+
+  const { draftId, variantId, text, media, emphasis } = request;
+  const record = (data: { linkedinPostId?: string; published: boolean }) =>
+    prisma.draft.update({
+      where: { id: draftId },
+      data: { selectedVariantId: variantId, finalText: text, media: media ?? Prisma.DbNull, ...data },
+    });
+
+  if (resolved.targets.length === 0) {
+    if (request.allowDryRun === false) {
+      return { ok: false, status: 503, error: "LinkedIn not connected — nothing was posted", transient: false };
+    }
+    /* ── Dry-run mode (LinkedIn not configured) ── */
+    console.log("[publish] DRY RUN — LinkedIn not configured. Saving draft only.");
+    const linkedinPostId = "dry-run-" + Date.now();
+    await record({ linkedinPostId, published: false });
+    return { ok: true, linkedinPostId, dryRun: true, published: [], failed: [], transient: false };
+  }
+
+  await recordLegacyPublication(draftId);
+  const done = new Set(
+    (await prisma.publication.findMany({ where: { draftId }, select: { targetUrn: true } })).map(
+      (p) => p.targetUrn
+    )
+  );
+  const pending = resolved.targets.filter((t) => !done.has(t.urn));
+  if (pending.length === 0) {
+    return { ok: false, status: 409, error: "Already published to every selected account", transient: false };
+  }
+
+  const published: TargetResult[] = [];
+  const failures: { target: PublishTarget; failure: Failure }[] = [];
+  for (const target of pending) {
+    try {
+      const linkedinPostId = await createLinkedInPost(target, { text, media, poll: check.poll, emphasis });
+      await prisma.publication.create({
+        data: { draftId, targetUrn: target.urn, targetName: target.name, linkedinPostId },
+      });
+      published.push({ urn: target.urn, name: target.name, linkedinPostId });
+    } catch (err) {
+      console.error(`[publish] Posting as ${target.urn} failed:`, err);
+      failures.push({ target, failure: describeFailure(err) });
+    }
+  }
+
+  const transient = failures.every(({ failure }) => failure.transient);
+  if (published.length === 0) {
+    // Nothing went out: report the first failure as the overall one
+    return { ...failures[0].failure, transient };
+  }
+
+  await record({
+    // The draft keeps the first post's ID; every target's is on its Publication
+    ...(done.size === 0 ? { linkedinPostId: published[0].linkedinPostId } : {}),
+    published: true,
+  });
+
+  return {
+    ok: true,
+    linkedinPostId: published[0].linkedinPostId!,
+    dryRun: false,
+    published,
+    failed: failures.map(({ target, failure }) => ({
+      urn: target.urn,
+      name: target.name,
+      error: failureMessage(failure),
+    })),
+    transient,
+  };
+}
+
+/* ── Scheduled publishing ── */
+
+function retryDelay(attempt: number): number {
+  return Math.min(RETRY_BASE_MS * 2 ** (attempt - 1), RETRY_MAX_MS);
+}
+
+/** Mark jobs whose worker disappeared mid-post as failed */
+async function failStaleJobs(now: Date): Promise<number> {
+  const { count } = await prisma.publishJob.updateMany({
+    where: { status: "running", lockedAt: { lt: new Date(now.getTime() - STALE_LOCK_MS) } },
+    data: {
+      status: "failed",
+      lockedAt: null,
+      lockedBy: null,
+      lastError: "Publishing was interrupted. Check LinkedIn before rescheduling — the post may be live.",
+    },
+  });
+  return count;
+}
+
+/** Claim one due job for this worker; false if another worker got it first */
+async function claimJob(id: string, workerId: string, now: Date): Promise<boolean> {
+  const { count } = await prisma.publishJob.updateMany({
+    where: { id, status: "scheduled", scheduledAt: { lte: now } },
+    data: { status: "running", lockedAt: now, lockedBy: workerId, attempts: { increment: 1 } },
+  });
+  return count === 1;
+}
+
+async function runJob(id: string): Promise<"published" | "retried" | "failed" | "cancelled"> {
+  const job = await prisma.publishJob.findUniqueOrThrow({ where: { id } });
+  const unlock = { lockedAt: null, lockedBy: null };
+
+  let result;
+  try {
+    result = await publishDraft({
+      ...job,
+      media: job.media as PostMedia | null,
+      emphasis: job.emphasis as EmphasisStyle,
+      // A scheduled post must never be recorded as published when nothing went out
+      allowDryRun: false,
+    });
+  } catch (err) {
+    console.error("[publish-worker] Job failed:", err);
+    const failure: Failure = {
+      ok: false,
+      status: 500,
+      error: err instanceof Error ? err.message : "Unknown error",
+      transient: false,
+    };
+    result = failure;
+  }
+
+  if (!result.ok && result.status === 409) {
+    await prisma.publishJob.update({
+      where: { id },
+      data: { ...unlock, status: "cancelled", lastError: result.error },
+    });
+    return "cancelled";
+  }
+
+  if (result.ok && result.failed.length === 0) {
+    await prisma.publishJob.update({
+      where: { id },
+      data: {
+        ...unlock,
+        status: "published",
+        linkedinPostId: result.linkedinPostId,
+        publishedAt: new Date(),
+        lastError: null,
+      },
+    });
+    return "published";
+  }
+
+  // Partly published: keep the first post ID and retry only the rest
+  const partial = result.ok
+    ? { linkedinPostId: job.linkedinPostId ?? result.linkedinPostId, publishedAt: job.publishedAt ?? new Date() }
+    : {};
+  const lastError = result.ok
+    ? result.failed.map((f) => `${f.name}: ${f.error}`).join("\n")
+    : failureMessage(result);
+  if (result.transient && job.attempts < MAX_ATTEMPTS) {
+    await prisma.publishJob.update({
+      where: { id },
+      data: {
+        ...unlock,
+        status: "scheduled",
+        ...partial,
+        scheduledAt: new Date(Date.now() + retryDelay(job.attempts)),
+        lastError,
+      },
+    });
+    return "retried";
+  }
+
+  await prisma.publishJob.update({
+    where: { id },
+    data: { ...unlock, ...partial, status: "failed", lastError },
+  });
+  return "failed";
+}
+
+/**
+ * One worker pass: fail stale jobs, then claim and post due jobs oldest
+ * first. Safe to run concurrently — each job is claimed by one worker.
+ */
+export async function runPublishWorker(workerId: string) {
+  const summary = { stale: 0, claimed: 0, published: 0, retried: 0, failed: 0, cancelled: 0 };
+  const now = new Date();
+  summary.stale = await failStaleJobs(now);
+
+  const due = await prisma.publishJob.findMany({
+    where: { status: "scheduled", scheduledAt: { lte: now } },
+    orderBy: { scheduledAt: "asc" },
+    take: WORKER_BATCH,
+    select: { id: true },
+  });
+
+  for (const { id } of due) {
+    if (!(await claimJob(id, workerId, now))) continue;
+    summary.claimed++;
+    summary[await runJob(id)]++;
+  }
+  return summary;
+}
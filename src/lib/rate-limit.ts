@@ -21,3 +21,18 @@ export function rateLimit(ip: string): { allowed: boolean; remaining: number } {
   hits.set(ip, timestamps);
   return { allowed: true, remaining: maxRequests - timestamps.length };
 }
+
+/**
+ * Wait until `ip` has room for one more request, then take it. For
+ * background work (batches, campaigns) that should queue, not fail.
+ */
+export async function waitForRateLimit(ip: string, pollMs = 5_000): Promise<void> {
+  while (!rateLimit(ip).allowed) {
+    await new Promise((resolve) => setTimeout(resolve, pollMs));
+  }
+}
+
+/** Best-effort client IP for rate-limit keys (first x-forwarded-for hop) */
+export function clientIp(req: Request): string {
+  return req.headers.get("x-forwarded-for")?.split(",")[0]?.trim() ?? "unknown";
+}
@@ -0,0 +1,124 @@
+import { extractText, getDocumentProxy } from "unpdf";
+import { modelFromEnv, NO_MODELS_ERROR } from "@/lib/providers";
+import { trackedCompletion } from "@/lib/usage";
+
+export const SOURCE_KINDS = ["text", "markdown", "html", "pdf"] as const;
+export type SourceKind = (typeof SOURCE_KINDS)[number];
+
+/** Characters per summarization chunk (~1.5k tokens) */
+const CHUNK_SIZE = 6_000;
+/** Chunks beyond this are dropped — keeps upload latency and cost bounded */
+const MAX_CHUNKS = 12;
+/** Sources shorter than this are used verbatim instead of summarized */
+const VERBATIM_LIMIT = 2_500;
+
+/** Guess the source kind from a filename / MIME type */
+export function detectKind(name: string, mimeType?: string): SourceKind | null {
+  const ext = name.toLowerCase().split(".").pop();
+  if (mimeType === "application/pdf" || ext === "pdf") return "pdf";
+  if (mimeType === "text/html" || ext === "html" || ext === "htm") return "html";
+  if (mimeType === "text/markdown" || ext === "md" || ext === "markdown") return "markdown";
+  if (mimeType?.startsWith("text/") || ext === "txt") return "text";
+  return null;
+}
+
+/** Reduce pasted article HTML to readable text */
+function htmlToText(html: string): string {
+  return html
+    .replace(/<(script|style|noscript|svg|nav|footer|header)[\s\S]*?<\/\1>/gi, "")
+    .replace(/<br\s*\/?>/gi, "\n")
+    .replace(/<\/(p|div|li|h[1-6]|blockquote|tr)>/gi, "\n\n")
+    .replace(/<li[^>]*>/gi, "• ")
+    .replace(/<[^>]+>/g, "")
+    .replace(/&nbsp;/g, " ")
+    .replace(/&lt;/g, "<")
+    .replace(/&gt;/g, ">")
+    .replace(/&quot;/g, '"')
+    .replace(/&#39;|&apos;/g, "'")
+    .replace(/&#(\d+);/g, (entity, digits) => {
+      const code = Number(digits);
+      return code <= 0x10ffff ? String.fromCodePoint(code) : entity;
+    })
+    // Last, so "&amp;lt;" stays the literal text "&lt;"
+    .replace(/&amp;/g, "&");
+}
+
+/** Extract plain text from an uploaded or pasted source */
+export async function extractSourceText(
+  kind: SourceKind,
+  data: string | Uint8Array
+): Promise<string> {
+  let text: string;
+  if (kind === "pdf") {
+    if (typeof data === "string") throw new Error("PDF sources must be uploaded as files");
+    const pdf = await getDocumentProxy(data);
+    ({ text } = await extractText(pdf, { mergePages: true }));
+  } else {
+    text = typeof data === "string" ? data : new TextDecoder().decode(data);
+    if (kind === "html") text = htmlToText(text);
+  }
+
+  return text
+    .replace(/\r\n/g, "\n")
+    .replace(/[ \t]+\n/g, "\n")
+    .replace(/\n{3,}/g, "\n\n")
+    .trim();
+}
+
+/**
+ * Split text into chunks of at most `size` characters, preferring
+ * paragraph then sentence boundaries.
+ */
+export function chunkText(text: string, size = CHUNK_SIZE): string[] {
+  const chunks: string[] = [];
+  let rest = text;
+  while (rest.length > size) {
+    const window = rest.slice(0, size);
+    let cut = window.lastIndexOf("\n\n");
+    if (cut < size / 2) cut = window.lastIndexOf(". ") + 1;
+    if (cut < size / 2) cut = size;
+    chunks.push(rest.slice(0, cut).trim());
+    rest = rest.slice(cut);
+  }
+  if (rest.trim()) chunks.push(rest.trim());
+  return chunks;
+}
+
+async function summarize(text: string, instruction: string): Promise<string> {
+  const model = modelFromEnv("SUMMARY_MODEL_ID");
+  if (!model) throw new Error(NO_MODELS_ERROR);
+  const { text: summary } = await trackedCompletion("summarize", model, {
+    messages: [
+      {
+        role: "system",
+        content:
+          "You condense source material for a LinkedIn writer. Keep concrete facts, numbers, names, quotes and claims; drop navigation, boilerplate and repetition. Reply with concise bullet points only.",
+      },
+      { role: "user", content: `${instruction}\n\n${text}` },
+    ],
+    maxTokens: 600,
+  });
+  return summary.trim();
+}
+
+/**
+ * Summarize extracted text for use as grounding context.
+ * Short sources pass through verbatim; longer ones are summarized per
+ * chunk and, when there are several chunks, merged into one summary.
+ */
+export async function summarizeSource(text: string): Promise<string> {
+  if (text.length <= VERBATIM_LIMIT) return text;
+
+  const chunks = chunkText(text).slice(0, MAX_CHUNKS);
+  const partials = await Promise.all(
+    chunks.map((chunk, i) =>
+      summarize(chunk, `Summarize part ${i + 1} of ${chunks.length} of this source:`)
+    )
+  );
+  if (partials.length === 1) return partials[0];
+
+  return summarize(
+    partials.join("\n\n"),
+    "Merge these partial summaries of one source into a single bullet list without repeating points:"
+  );
+}
@@ -0,0 +1,60 @@
+/**
+ * Minimal server-sent events helpers shared by the generate route,
+ * provider adapters (upstream streams) and the dashboard (client).
+ */
+
+export interface SSEEvent {
+  event: string;
+  data: string;
+}
+
+/** Encode one event in text/event-stream format */
+export function encodeSSE(event: string, data: unknown): string {
+  return `event: ${event}\ndata: ${JSON.stringify(data)}\n\n`;
+}
+
+/** Adapt a web ReadableStream to an async iterable (Safari lacks native support) */
+export async function* iterateStream(
+  stream: ReadableStream<Uint8Array>
+): AsyncGenerator<Uint8Array> {
+  const reader = stream.getReader();
+  try {
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) return;
+      yield value;
+    }
+  } finally {
+    reader.releaseLock();
+  }
+}
+
+/** Incrementally split a byte stream into SSE events */
+export async function* parseSSE(
+  chunks: AsyncIterable<Uint8Array>
+): AsyncGenerator<SSEEvent> {
+  const decoder = new TextDecoder();
+  let buffer = "";
+
+  const flush = function* (block: string): Generator<SSEEvent> {
+    let event = "message";
+    const data: string[] = [];
+    for (const line of block.split(/\r?\n/)) {
+      if (line.startsWith("event:")) event = line.slice(6).trim();
+      else if (line.startsWith("data:")) data.push(line.slice(5).replace(/^ /, ""));
+    }
+    if (data.length > 0) yield { event, data: data.join("\n") };
+  };
+
+  for await (const chunk of chunks) {
+    buffer += decoder.decode(chunk, { stream: true });
+    let boundary: RegExpMatchArray | null;
+    while ((boundary = buffer.match(/\r?\n\r?\n/)) && boundary.index !== undefined) {
+      const block = buffer.slice(0, boundary.index);
+      buffer = buffer.slice(boundary.index + boundary[0].length);
+      yield* flush(block);
+    }
+  }
+  buffer += decoder.decode();
+  if (buffer.trim()) yield* flush(buffer);
+}
@@ -0,0 +1,135 @@
+/**
+ * Style examples: our own published posts, reused as few-shot examples.
+ * For each generation we pick the published posts closest in topic to the
+ * brief (TF-IDF cosine over brief + post text), always including pinned
+ * ones and never excluded ones.
+ */
+
+import type { Language } from "@/lib/languages";
+import { prisma } from "@/lib/prisma";
+
+export const STYLE_EXAMPLE_MODES = ["auto", "pinned", "excluded"] as const;
+export type StyleExampleMode = (typeof STYLE_EXAMPLE_MODES)[number];
+
+/** Most recent published posts considered as candidates */
+const CANDIDATE_POOL = 200;
+/** Auto-selected posts must share at least this much vocabulary with the brief */
+const MIN_SIMILARITY = 0.05;
+
+export interface StyleExample {
+  draftId: string;
+  text: string;
+  prompt: string;
+  mode: StyleExampleMode;
+  /** Topic similarity to the brief, 0–1 */
+  similarity: number;
+  createdAt: Date;
+}
+
+const STOPWORDS = new Set(
+  (
+    "a an and are as at be but by for from has have how i if in into is it its just me my not of on or our " +
+    "so that the their them they this to was we were what when which who why will with you your about can " +
+    "do most than then there these those us all also any been being did does had he her his more one " +
+    "out over she some such up very would could should"
+  ).split(" ")
+);
+
+function tokenize(text: string): string[] {
+  return (text.toLowerCase().match(/[\p{L}\p{N}]+/gu) ?? []).filter(
+    (t) => t.length > 2 && !STOPWORDS.has(t)
+  );
+}
+
+function termFrequencies(tokens: string[]): Map<string, number> {
+  const tf = new Map<string, number>();
+  for (const t of tokens) tf.set(t, (tf.get(t) ?? 0) + 1);
+  return tf;
+}
+
+/** Cosine similarity between the query and each document, TF-IDF weighted over the documents */
+export function rankBySimilarity(query: string, documents: string[]): number[] {
+  const docs = documents.map((d) => termFrequencies(tokenize(d)));
+  const df = new Map<string, number>();
+  for (const doc of docs) for (const term of doc.keys()) df.set(term, (df.get(term) ?? 0) + 1);
+  const idf = (term: string) => Math.log((1 + docs.length) / (1 + (df.get(term) ?? 0))) + 1;
+
+  const weigh = (tf: Map<string, number>) => {
+    const vec = new Map<string, number>();
+    let norm = 0;
+    for (const [term, count] of tf) {
+      const w = count * idf(term);
+      vec.set(term, w);
+      norm += w * w;
+    }
+    return { vec, norm: Math.sqrt(norm) };
+  };
+
+  const q = weigh(termFrequencies(tokenize(query)));
+  return docs.map((doc) => {
+    const d = weigh(doc);
+    if (q.norm === 0 || d.norm === 0) return 0;
+    let dot = 0;
+    for (const [term, w] of q.vec) dot += w * (d.vec.get(term) ?? 0);
+    return dot / (q.norm * d.norm);
+  });
+}
+
+/**
+ * Published posts that could serve as examples for a brief, scored by
+ * similarity. Only posts in the same language — and, when a voice is
+ * given, written with that voice — are candidates.
+ */
+export async function listStyleExamples({
+  query,
+  voiceProfileId,
+  language,
+}: {
+  query?: string;
+  voiceProfileId?: string | null;
+  language?: Language;
+}): Promise<StyleExample[]> {
+  const drafts = await prisma.draft.findMany({
+    where: {
+      published: true,
+      finalText: { not: null },
+      ...(voiceProfileId ? { voiceProfileId } : {}),
+      ...(language ? { language } : {}),
+    },
+    orderBy: { createdAt: "desc" },
+    take: CANDIDATE_POOL,
+    select: { id: true, prompt: true, finalText: true, styleExample: true, createdAt: true },
+  });
+
+  const scores = query
+    ? rankBySimilarity(query, drafts.map((d) => `${d.prompt}\n${d.finalText}`))
+    : drafts.map(() => 0);
+
+  return drafts.map((d, i) => ({
+    draftId: d.id,
+    text: d.finalText ?? "",
+    prompt: d.prompt,
+    mode: d.styleExample as StyleExampleMode,
+    similarity: Math.round(scores[i] * 1000) / 1000,
+    createdAt: d.createdAt,
+  }));
+}
+
+/**
+ * Pick up to `limit` examples for a generation: pinned posts first, then
+ * the most similar auto posts.
+ */
+export async function selectStyleExamples(options: {
+  query: string;
+  voiceProfileId?: string | null;
+  language?: Language;
+  limit: number;
+}): Promise<StyleExample[]> {
+  if (options.limit === 0) return [];
+  const candidates = await listStyleExamples(options);
+  const pinned = candidates.filter((c) => c.mode === "pinned");
+  const similar = candidates
+    .filter((c) => c.mode === "auto" && c.similarity >= MIN_SIMILARITY)
+    .sort((a, b) => b.similarity - a.similarity);
+  return [...pinned, ...similar].slice(0, options.limit);
+}
@@ -0,0 +1,150 @@
+/**
+ * Hashtag and mention suggestions for the preview step. Hashtags come
+ * from the suggestion model, steered by the team's allow/deny list and by
+ * what past published posts used; mentions come from saved profiles whose
+ * name or keywords appear in the post.
+ */
+
+import { z } from "zod";
+import type { MentionProfile } from "@/generated/prisma/client";
+import { extractHashtags, mentionMarkup, MENTION, normalizeTag } from "@/lib/hashtags";
+import { parseJsonReply } from "@/lib/llm-json";
+import { prisma } from "@/lib/prisma";
+import { modelFromEnv, NO_MODELS_ERROR } from "@/lib/providers";
+import { trackedCompletion } from "@/lib/usage";
+
+export interface HashtagSuggestion {
+  tag: string;
+  /** allowed: on the team list · history: used in published posts · suggested: new */
+  source: "allowed" | "history" | "suggested";
+  /** Published posts that used it */
+  uses: number;
+}
+
+export interface MentionSuggestion {
+  profile: MentionProfile;
+  markup: string;
+}
+
+/** Published posts scanned for hashtag history */
+const HISTORY_POSTS = 500;
+
+const suggestReplySchema = z.object({ hashtags: z.array(z.string()).max(20) });
+
+const key = (tag: string) => tag.toLowerCase();
+/** Letters and digits only, lowercase — how a tag like #ProductLed appears in prose */
+const compact = (s: string) => s.toLowerCase().replace(/[^\p{L}\p{N}]/gu, "");
+
+/** Words a tag can span — #ProductLedGrowth is three */
+const MAX_TAG_WORDS = 4;
+
+/** Every run of up to MAX_TAG_WORDS whole words in the text, compacted */
+function wordRuns(text: string): Set<string> {
+  const words = text.toLowerCase().split(/[^\p{L}\p{N}]+/u).filter(Boolean);
+  const runs = new Set<string>();
+  for (let i = 0; i < words.length; i++) {
+    for (let n = 1; n <= MAX_TAG_WORDS && i + n <= words.length; n++) {
+      runs.add(words.slice(i, i + n).join(""));
+    }
+  }
+  return runs;
+}
+
+/** Hashtags used in published posts, most used first */
+export async function hashtagHistory(): Promise<{ tag: string; uses: number }[]> {
+  const drafts = await prisma.draft.findMany({
+    where: { published: true, finalText: { not: null } },
+    orderBy: { createdAt: "desc" },
+    take: HISTORY_POSTS,
+    select: { finalText: true },
+  });
+
+  const counts = new Map<string, { tag: string; uses: number }>();
+  for (const { finalText } of drafts) {
+    // Count each tag once per post
+    const tags = new Map(extractHashtags(finalText ?? "").map((t) => [key(t), t]));
+    for (const [k, tag] of tags) {
+      const entry = counts.get(k) ?? { tag, uses: 0 };
+      entry.uses++;
+      counts.set(k, entry);
+    }
+  }
+  return [...counts.values()].sort((a, b) => b.uses - a.uses);
+}
+
+/**
+ * Rank hashtags for a post. Denied tags and tags the post already has are
+ * never suggested; with HASHTAG_ALLOWLIST_ONLY=true only allowed tags are.
+ * If the model call fails, falls back to allowed/history tags whose words
+ * appear in the post.
+ */
+export async function suggestHashtags(text: string, limit = 5): Promise<HashtagSuggestion[]> {
+  const [rules, history] = await Promise.all([prisma.hashtagRule.findMany(), hashtagHistory()]);
+  const allowed = rules.filter((r) => r.kind === "allow").map((r) => r.tag);
+  const denied = new Set(rules.filter((r) => r.kind === "deny").map((r) => key(r.tag)));
+  const allowedKeys = new Set(allowed.map(key));
+  const uses = new Map(history.map((h) => [key(h.tag), h.uses]));
+  const present = new Set(extractHashtags(text).map(key));
+  const allowlistOnly = process.env.HASHTAG_ALLOWLIST_ONLY === "true";
+
+  let proposed: string[] = [];
+  try {
+    const system = [
+      `Suggest up to ${limit + 3} LinkedIn hashtags for the post below, most relevant first.`,
+      "Prefer specific, established tags over generic ones like #business. Use CamelCase for multi-word tags.",
+      allowed.length ? `The team's approved tags — prefer these when relevant: ${allowed.map((t) => `#${t}`).join(" ")}` : "",
+      history.length
+        ? `Tags used on past posts: ${history.slice(0, 30).map((h) => `#${h.tag}`).join(" ")}`
+        : "",
+      denied.size ? `Never suggest: ${[...denied].map((t) => `#${t}`).join(" ")}` : "",
+      'Reply with JSON only: {"hashtags":["ExampleTag"]}',
+    ]
+      .filter(Boolean)
+      .join("\n\n");
+
+    const model = modelFromEnv("SUGGEST_MODEL_ID");
+    if (!model) throw new Error(NO_MODELS_ERROR);
+    const { text: reply } = await trackedCompletion("suggest", model, {
+      messages: [
+        { role: "system", content: system },
+        { role: "user", content: text },
+      ],
+      maxTokens: 200,
+    });
+    proposed = parseJsonReply(reply, suggestReplySchema)?.hashtags ?? [];
+  } catch (err) {
+    console.error("[suggestions] Hashtag model failed:", err);
+  }
+
+  // Whole words only — "AI" shouldn't match "said"
+  const postWords = wordRuns(text);
+  const mentioned = [...allowed, ...history.map((h) => h.tag)].filter((t) => postWords.has(compact(t)));
+
+  const suggestions: HashtagSuggestion[] = [];
+  const seen = new Set<string>();
+  for (const raw of [...proposed, ...mentioned]) {
+    const tag = normalizeTag(raw);
+    const k = key(tag);
+    if (!tag || seen.has(k) || present.has(k) || denied.has(k)) continue;
+    if (allowlistOnly && !allowedKeys.has(k)) continue;
+    seen.add(k);
+    suggestions.push({
+      tag,
+      source: allowedKeys.has(k) ? "allowed" : uses.has(k) ? "history" : "suggested",
+      uses: uses.get(k) ?? 0,
+    });
+  }
+  return suggestions.slice(0, limit);
+}
+
+/** Saved profiles named (or keyword-matched) in the post and not mentioned yet */
+export async function suggestMentions(text: string): Promise<MentionSuggestion[]> {
+  const profiles = await prisma.mentionProfile.findMany({ orderBy: { name: "asc" } });
+  const mentionedUrns = new Set([...text.matchAll(MENTION)].map((m) => m[2]));
+  const plain = text.replace(MENTION, " ").toLowerCase();
+
+  return profiles
+    .filter((p) => !mentionedUrns.has(p.urn))
+    .filter((p) => [p.name, ...p.keywords].some((term) => plain.includes(term.toLowerCase())))
+    .map((profile) => ({ profile, markup: mentionMarkup(profile) }));
+}
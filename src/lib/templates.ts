@@ -0,0 +1,59 @@
+/**
+ * Prompt templates: saved prompt scaffolds with `{{variables}}` that are
+ * filled in on the dashboard before generating. Client-safe — the picker
+ * renders templates in the browser.
+ */
+
+import { z } from "zod";
+import { POST_FORMATS } from "@/lib/formats";
+
+/** `{{ name }}` — letters, digits, underscores and hyphens */
+export const TEMPLATE_VARIABLE = /\{\{\s*([\w-]+)\s*\}\}/g;
+
+const MAX_VARIABLES = 20;
+
+/** Variable names in order of first appearance */
+export function templateVariables(body: string): string[] {
+  return [...new Set([...body.matchAll(TEMPLATE_VARIABLE)].map((m) => m[1]))];
+}
+
+/** Form label for a variable: `target_audience` → "Target audience" */
+export function variableLabel(name: string): string {
+  const words = name.replace(/[_-]+/g, " ").trim();
+  return words.charAt(0).toUpperCase() + words.slice(1);
+}
+
+/** Replace each variable with its value; unfilled variables are left as-is */
+export function renderTemplate(body: string, values: Record<string, string>): string {
+  return body.replace(TEMPLATE_VARIABLE, (match, name: string) => {
+    const value = values[name]?.trim();
+    return value ? value : match;
+  });
+}
+
+/** Variables that still have no value */
+export function missingVariables(body: string, values: Record<string, string>): string[] {
+  return templateVariables(body).filter((name) => !values[name]?.trim());
+}
+
+const templateFields = z.object({
+  name: z.string().trim().min(1).max(100),
+  body: z
+    .string()
+    .trim()
+    .min(1)
+    .max(4000)
+    .refine((body) => templateVariables(body).length <= MAX_VARIABLES, {
+      message: `At most ${MAX_VARIABLES} variables per template`,
+    }),
+  format: z.enum(POST_FORMATS),
+  voiceProfileId: z.string().nullish(),
+});
+
+/** Payload accepted by POST /api/templates */
+export const promptTemplateSchema = templateFields.extend({
+  format: templateFields.shape.format.default("post"),
+});
+
+/** Payload accepted by PATCH /api/templates/:id */
+export const promptTemplateUpdateSchema = templateFields.partial();
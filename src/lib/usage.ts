@@ -0,0 +1,133 @@
+import { prisma } from "@/lib/prisma";
+import {
+  completeWithFallbacks,
+  ProviderError,
+  type CompletionRequest,
+  type ModelCompletion,
+  type ModelDefinition,
+} from "@/lib/providers";
+
+/** What a provider call was made for — the aggregates API groups by this */
+export type CallPurpose =
+  | "generate"
+  | "refine"
+  | "synthesize"
+  | "judge"
+  | "summarize"
+  | "plan"
+  | "suggest"
+  | "translate";
+
+/** USD per million tokens as [input, output] */
+type Price = [number, number];
+
+/**
+ * Approximate list prices, keyed by provider model id. Extend or override
+ * with MODEL_PRICING='{"vendor/model":[0.5,1.5]}'. OpenRouter ":free"
+ * models cost nothing; anything else unlisted gets no estimate.
+ */
+const DEFAULT_PRICING: Record<string, Price> = {
+  "openai/gpt-oss-120b": [0.1, 0.5],
+  "gemini-2.0-flash": [0.1, 0.4],
+  "gemini-2.0-flash-lite": [0.075, 0.3],
+  "llama-3.3-70b-versatile": [0.59, 0.79],
+  "llama-3.1-8b-instant": [0.05, 0.08],
+};
+
+function pricing(): Record<string, Price> {
+  try {
+    return { ...DEFAULT_PRICING, ...JSON.parse(process.env.MODEL_PRICING ?? "{}") };
+  } catch {
+    return DEFAULT_PRICING;
+  }
+}
+
+/** Estimated cost of one call in USD, or null when the model has no known price */
+export function estimateCostUsd(
+  model: string,
+  promptTokens: number | null,
+  completionTokens: number | null
+): number | null {
+  if (promptTokens === null && completionTokens === null) return null;
+  if (model.endsWith(":free")) return 0;
+  const price = pricing()[model];
+  if (!price) return null;
+  return ((promptTokens ?? 0) * price[0] + (completionTokens ?? 0) * price[1]) / 1_000_000;
+}
+
+export interface CallRecord {
+  purpose: CallPurpose;
+  draftId?: string | null;
+  modelId: string;
+  provider: string;
+  model: string;
+  promptTokens: number | null;
+  completionTokens: number | null;
+  latencyMs: number;
+  error: string | null;
+  attempts: number;
+}
+
+/**
+ * Append a provider call to the usage log. Accounting must never fail the
+ * request it describes, so write errors are logged and swallowed.
+ */
+export async function recordCall(call: CallRecord): Promise<void> {
+  try {
+    await prisma.providerCall.create({
+      data: {
+        purpose: call.purpose,
+        draftId: call.draftId ?? null,
+        modelId: call.modelId,
+        provider: call.provider,
+        model: call.model,
+        promptTokens: call.promptTokens,
+        completionTokens: call.completionTokens,
+        latencyMs: call.latencyMs,
+        costUsd: estimateCostUsd(call.model, call.promptTokens, call.completionTokens),
+        error: call.error,
+        attempts: call.attempts,
+      },
+    });
+  } catch (err) {
+    console.error("[usage] Failed to record provider call:", err);
+  }
+}
+
+/**
+ * completeWithFallbacks for calls that don't become variants (judging,
+ * summarizing) — records the call either way and rethrows failures.
+ */
+export async function trackedCompletion(
+  purpose: CallPurpose,
+  model: ModelDefinition,
+  request: CompletionRequest,
+  draftId?: string
+): Promise<ModelCompletion> {
+  const base = { purpose, draftId, modelId: model.id, provider: model.provider.type };
+  const started = Date.now();
+  try {
+    const result = await completeWithFallbacks(model, request);
+    await recordCall({
+      ...base,
+      model: result.model,
+      promptTokens: result.usage?.promptTokens ?? null,
+      completionTokens: result.usage?.completionTokens ?? null,
+      latencyMs: Date.now() - started,
+      error: null,
+      attempts: result.attempts,
+    });
+    return result;
+  } catch (err) {
+    await recordCall({
+      ...base,
+      model: model.provider.model,
+      promptTokens: null,
+      completionTokens: null,
+      latencyMs: Date.now() - started,
+      error: err instanceof Error ? err.message : "unknown",
+      attempts: err instanceof ProviderError ? err.attempts : 1,
+    });
+    throw err;
+  }
+}
@@ -0,0 +1,113 @@
+import type { DraftVariant } from "@/generated/prisma/client";
+import { FORMAT_LABELS, parseFormatted, type PostFormat, type StructuredPost } from "@/lib/formats";
+import {
+  completeWithFallbacks,
+  getModel,
+  ProviderError,
+  type CompletionRequest,
+  type ModelDefinition,
+  type TokenHandler,
+} from "@/lib/providers";
+import { estimateCostUsd } from "@/lib/usage";
+
+/** Column values for a DraftVariant row (without the draft relation) */
+export interface VariantData {
+  modelId: string;
+  provider: string;
+  model: string;
+  format: PostFormat;
+  /** Parsed output for structured formats — `text` holds the rendered post */
+  structured?: StructuredPost;
+  /** The raw reply when it didn't match a structured format */
+  text: string | null;
+  /** Provider's error message — kept apart from `text` */
+  error: string | null;
+  /** Upstream HTTP status of the final failure, when there was one */
+  errorStatus: number | null;
+  /** Provider calls made, across retries and fallback models */
+  attempts: number;
+  latencyMs: number;
+  promptTokens: number | null;
+  completionTokens: number | null;
+  /** Estimated USD cost, null when the model has no known price */
+  costUsd: number | null;
+}
+
+/**
+ * Run one model and capture its output as variant data.
+ * Never throws — provider failures are recorded in `error` / `errorStatus`,
+ * as are empty replies and ones that don't match a structured `format`.
+ * `model` records the fallback model when the slot's own one failed.
+ */
+export async function runVariant(
+  model: ModelDefinition,
+  request: CompletionRequest,
+  { onToken, format = "post" }: { onToken?: TokenHandler; format?: PostFormat } = {}
+): Promise<VariantData> {
+  const base = {
+    modelId: model.id,
+    provider: model.provider.type,
+    model: model.provider.model,
+    format,
+  };
+  const started = Date.now();
+  try {
+    const result = await completeWithFallbacks(model, request, onToken);
+    const empty = !result.text.trim();
+    const parsed = empty ? null : parseFormatted(format, result.text);
+    return {
+      ...base,
+      model: result.model,
+      // An unparseable reply is kept so it can be edited or refined
+      text: empty ? null : parsed?.text ?? result.text,
+      structured: parsed?.structured ?? undefined,
+      error: empty
+        ? "Empty response"
+        : parsed
+        ? null
+        : `Reply didn't match the ${FORMAT_LABELS[format]} format`,
+      errorStatus: null,
+      attempts: result.attempts,
+      latencyMs: Date.now() - started,
+      promptTokens: result.usage?.promptTokens ?? null,
+      completionTokens: result.usage?.completionTokens ?? null,
+      costUsd: estimateCostUsd(
+        result.model,
+        result.usage?.promptTokens ?? null,
+        result.usage?.completionTokens ?? null
+      ),
+    };
+  } catch (err) {
+    const failure = err instanceof ProviderError ? err : null;
+    return {
+      ...base,
+      text: null,
+      error: failure?.message ?? (err instanceof Error ? err.message : "unknown"),
+      errorStatus: failure?.status ?? null,
+      attempts: failure?.attempts ?? 1,
+      latencyMs: Date.now() - started,
+      promptTokens: null,
+      completionTokens: null,
+      costUsd: null,
+    };
+  }
+}
+
+/** Keeps variants in the order they were generated */
+export const variantOrderBy = [
+  { createdAt: "asc" as const },
+  { id: "asc" as const },
+];
+
+/** Variant row plus the registry's display name for its model */
+export function serializeVariant(variant: DraftVariant) {
+  const model = getModel(variant.modelId);
+  return {
+    ...variant,
+    modelName: model?.name ?? variant.model,
+    vendor: model?.vendor ?? variant.provider,
+    usedFallback: model?.fallbacks?.includes(variant.model) ?? false,
+  };
+}
+
+export type SerializedVariant = ReturnType<typeof serializeVariant>;
@@ -0,0 +1,35 @@
+import { z } from "zod";
+
+/** How a voice profile wants hashtags handled */
+export const HASHTAG_POLICIES = {
+  none: "Do not use hashtags.",
+  end: "End the post with 3–5 relevant hashtags on their own line.",
+  inline: "Weave 1–3 relevant hashtags naturally into the text. Do not add a hashtag block at the end.",
+} as const;
+
+export type HashtagPolicy = keyof typeof HASHTAG_POLICIES;
+
+const voiceFields = z.object({
+  name: z.string().min(1).max(100),
+  tone: z.string().max(500).nullish(),
+  audience: z.string().max(500).nullish(),
+  doRules: z.array(z.string().min(1).max(300)).max(20),
+  dontRules: z.array(z.string().min(1).max(300)).max(20),
+  examplePosts: z.array(z.string().min(1).max(3000)).max(5),
+  hashtagPolicy: z.enum(Object.keys(HASHTAG_POLICIES) as [HashtagPolicy, ...HashtagPolicy[]]),
+  systemPrompt: z.string().max(4000).nullish(),
+});
+
+/** Payload accepted by POST /api/voices */
+export const voiceProfileSchema = voiceFields.extend({
+  doRules: voiceFields.shape.doRules.default([]),
+  dontRules: voiceFields.shape.dontRules.default([]),
+  examplePosts: voiceFields.shape.examplePosts.default([]),
+  hashtagPolicy: voiceFields.shape.hashtagPolicy.default("none"),
+});
+
+/**
+ * Payload accepted by PATCH /api/voices/:id. Built from the fields without
+ * their defaults, so an omitted field keeps its stored value.
+ */
+export const voiceProfileUpdateSchema = voiceFields.partial();
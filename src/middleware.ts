@@ -33,5 +33,5 @@ export function middleware(request: NextRequest) {
 }
 
 export const config = {
-  matcher: ["/dashboard/:path*", "/api/generate/:path*", "/api/publish/:path*", "/api/drafts/:path*", "/api/canva/:path*"],
+  matcher: ["/dashboard/:path*", "/api/generate/:path*", "/api/publish/:path*", "/api/drafts/:path*", "/api/canva/:path*", "/api/voices/:path*", "/api/models/:path*", "/api/refine/:path*", "/api/judge/:path*", "/api/synthesize/:path*", "/api/sources/:path*", "/api/usage/:path*", "/api/batches/:path*", "/api/campaigns/:path*", "/api/lint/:path*", "/api/hashtags/:path*", "/api/mentions/:path*", "/api/suggestions/:path*", "/api/style-examples/:path*", "/api/templates/:path*", "/api/publish-jobs/:path*", "/api/linkedin/:path*"],
 };